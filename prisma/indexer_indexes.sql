@@ -0,0 +1,24 @@
+-- Indexes this API needs on the indexer's tables (contract_data, ttl).
+-- Those tables are created and migrated by the indexer, not by the
+-- migrations in prisma/migrations, so this file is applied to the indexer's
+-- database separately: psql "$DATABASE_URL" -f prisma/indexer_indexes.sql
+-- CONCURRENTLY keeps the tables writable while the indexes build; the
+-- statements must run outside a transaction and are safe to re-run.
+
+-- `sort_by=key_symbol` listings and their cursors
+CREATE INDEX CONCURRENTLY IF NOT EXISTS "idx_contract_data_contract_id_key_symbol_key_hash"
+    ON "contract_data"("contract_id", "key_symbol" DESC, "key_hash" DESC);
+
+-- ledger_sequence sort, and the storage change feed and webhook dispatcher
+-- scans in (ledger_sequence, key_hash) order
+CREATE INDEX CONCURRENTLY IF NOT EXISTS "idx_contract_data_contract_id_ledger_sequence"
+    ON "contract_data"("contract_id", "ledger_sequence" DESC, "key_hash" DESC);
+
+-- Highest indexed ledger, up to which the storage change feed and webhook
+-- dispatcher read changes
+CREATE INDEX CONCURRENTLY IF NOT EXISTS "idx_contract_data_ledger_sequence"
+    ON "contract_data"("ledger_sequence");
+
+-- TTL change subscriptions, which read TTL extensions by ledger
+CREATE INDEX CONCURRENTLY IF NOT EXISTS "idx_ttl_ledger_sequence_key_hash"
+    ON "ttl"("ledger_sequence", "key_hash");
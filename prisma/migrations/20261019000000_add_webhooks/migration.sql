@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "webhook" (
+    "id" UUID NOT NULL,
+    "contract_id" TEXT NOT NULL,
+    "key_symbols" TEXT[],
+    "url" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "cursor_ledger" INTEGER NOT NULL,
+    "cursor_key_hash" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhook_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhook_delivery" (
+    "id" UUID NOT NULL,
+    "webhook_id" UUID NOT NULL,
+    "ledger_sequence" INTEGER NOT NULL,
+    "entry_count" INTEGER NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMPTZ(6) NOT NULL,
+    "last_attempt_at" TIMESTAMPTZ(6),
+    "response_status" INTEGER,
+    "error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhook_delivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_webhook_contract_id" ON "webhook"("contract_id");
+
+-- CreateIndex
+CREATE INDEX "idx_webhook_delivery_webhook_id_created_at" ON "webhook_delivery"("webhook_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "idx_webhook_delivery_status_next_attempt_at" ON "webhook_delivery"("status", "next_attempt_at");
+
+-- AddForeignKey
+ALTER TABLE "webhook_delivery" ADD CONSTRAINT "webhook_delivery_webhook_id_fkey" FOREIGN KEY ("webhook_id") REFERENCES "webhook"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -121,6 +121,90 @@ class Env {
     return trimmed.length > 0 ? `/${trimmed}` : undefined;
   }
 
+  static get valueScanMaxRows(): number {
+    const raw = this.optionalString("VALUE_SCAN_MAX_ROWS");
+
+    if (!raw) {
+      return 5000;
+    }
+
+    const maxRows = Number(raw);
+
+    if (!Number.isInteger(maxRows) || maxRows <= 0) {
+      throw new Error(
+        `Invalid VALUE_SCAN_MAX_ROWS environment variable: "${raw}". Expected a positive integer.`,
+      );
+    }
+
+    return maxRows;
+  }
+
+  static get exportBatchSize(): number {
+    const raw = this.optionalString("EXPORT_BATCH_SIZE");
+
+    if (!raw) {
+      return 1000;
+    }
+
+    const batchSize = Number(raw);
+
+    if (!Number.isInteger(batchSize) || batchSize <= 0) {
+      throw new Error(
+        `Invalid EXPORT_BATCH_SIZE environment variable: "${raw}". Expected a positive integer.`,
+      );
+    }
+
+    return batchSize;
+  }
+
+  static get streamMaxConnections(): number {
+    const raw = this.optionalString("STREAM_MAX_CONNECTIONS");
+
+    if (!raw) {
+      return 100;
+    }
+
+    const maxConnections = Number(raw);
+
+    if (!Number.isInteger(maxConnections) || maxConnections <= 0) {
+      throw new Error(
+        `Invalid STREAM_MAX_CONNECTIONS environment variable: "${raw}". Expected a positive integer.`,
+      );
+    }
+
+    return maxConnections;
+  }
+
+  static get wsMaxConnections(): number {
+    const raw = this.optionalString("WS_MAX_CONNECTIONS");
+
+    if (!raw) {
+      return 100;
+    }
+
+    const maxConnections = Number(raw);
+
+    if (!Number.isInteger(maxConnections) || maxConnections <= 0) {
+      throw new Error(
+        `Invalid WS_MAX_CONNECTIONS environment variable: "${raw}". Expected a positive integer.`,
+      );
+    }
+
+    return maxConnections;
+  }
+
+  static get webhooksEnabled() {
+    const v = this.optionalString("WEBHOOKS_ENABLED")?.toLowerCase().trim();
+    return ["true", "1", "yes"].includes(v ?? "");
+  }
+
+  static get webhookApiKeys(): string[] {
+    return (this.optionalString("WEBHOOK_API_KEYS") ?? "")
+      .split(",")
+      .map(s => s.trim())
+      .filter(Boolean);
+  }
+
   static get trustProxy(): string[] {
     const raw = this.optionalString("TRUST_PROXY");
     const defaultValue = "loopback,linklocal,uniquelocal";
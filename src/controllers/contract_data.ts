@@ -1,78 +1,198 @@
+import { hash, xdr } from "@stellar/stellar-sdk";
 import { Request, Response } from "express";
+import { Prisma } from "../../generated/prisma";
 import { Env } from "../config/env";
 import { CursorData, decodeCursor } from "../helpers/cursor";
-import { buildPaginationLinks } from "../pagination/contract_data";
 import {
+  computeContractDataKeyHash,
+  StorageDurability,
+} from "../helpers/ledger_key";
+import { assertRentLedgersWithinMaxTtl, RentSettings } from "../helpers/rent";
+import {
+  decodeScValXdr,
+  parseScValInput,
+  parseScValText,
+  scValContainsText,
+} from "../helpers/scval";
+import {
+  buildPaginationLinks,
+  extractSortValue,
+} from "../pagination/contract_data";
+import {
+  buildBackendPidQuery,
+  buildCancelBackendQuery,
+  buildContractDataCountEstimateQuery,
+  buildContractDataCountQuery,
+  buildContractDataEntriesQuery,
+  buildContractDataEntryQuery,
   buildContractDataQuery,
+  buildStatementTimeoutQuery,
   ContractDataQueryConfig,
+  isStatementTimeoutError,
 } from "../query-builders/contract_data";
-import { serializeContractDataResults } from "../serializers/contract_data";
+import type {
+  ContractDataQuery,
+  EntryQuery,
+  ExportQuery,
+  LookupRequestBody,
+} from "../routes/contract_data";
+import {
+  contractDataCsvColumns,
+  formatContractDataExport,
+  formatCsvRow,
+  projectContractDataResults,
+  serializeContractDataResults,
+} from "../serializers/contract_data";
+import {
+  formatLedgerSnapshotEntries,
+  formatLedgerSnapshotStart,
+  LEDGER_SNAPSHOT_END,
+  serializeLedgerSnapshotEntry,
+} from "../serializers/snapshot";
 import {
   APIFieldToDBFieldMap,
   ContractData,
+  COUNT_EXACT_THRESHOLD,
+  CountMode,
   CursorParameterMismatchError,
+  EXPORT_BATCH_TIMEOUT_MS,
+  ExportFormat,
+  LISTING_STATEMENT_TIMEOUT_MS,
+  MAX_KEY_ARGS,
   RequestParams,
-  SortDirection,
   SortField,
+  StorageLookupResultDTO,
+  VALUE_SCAN_BATCH_SIZE,
 } from "../types/contract_data";
+import {
+  LedgerSnapshotHeader,
+  SNAPSHOT_BASE_RESERVE_STROOPS,
+} from "../types/snapshot";
 import { getPrisma } from "../utils/connect";
+import { logger } from "../utils/logger";
 import { getStellarService, StellarService } from "../utils/stellar";
 
+const KEY_ARG_PARAM = /^key_arg\.(0|[1-9]\d*)$/;
+
 /**
- * Parses and validates request parameters for contract data queries.
- * Extracts contract ID, pagination limit, sort field, and sort direction
- * from the request, applying defaults and validation constraints.
+ * Parses and validates the `key_arg.N` query parameters (e.g. `key_arg.0=G…`).
+ * Indices must be contiguous from 0 so that each argument's position in the key
+ * is known; values use the ScVal text form (`u32:5`, or a bare address/symbol).
  *
- * @param req - Express request object containing params and query parameters
- * @param res - Express response; reads Zod-parsed query from res.locals when available
- * @returns RequestParams - Parsed and validated request parameters with type safety
+ * @param query - Parsed (or raw) query parameters
+ * @returns Key argument texts ordered by index, or undefined when none are given
+ * @throws Error when an index is invalid or missing, or a value is not a scalar ScVal
  */
-const parseRequestParams = (req: Request, res: Response): RequestParams => {
-  const { contract_id } = req.params;
+const parseKeyArgParams = (
+  query: Record<string, unknown>,
+): string[] | undefined => {
+  const args = new Map<number, string>();
+  for (const [name, value] of Object.entries(query)) {
+    if (!name.startsWith("key_arg")) {
+      continue;
+    }
+    const match = KEY_ARG_PARAM.exec(name);
+    const index = match ? Number(match[1]) : MAX_KEY_ARGS;
+    if (index >= MAX_KEY_ARGS) {
+      throw new Error(
+        `Invalid parameter ${name}, key arguments are key_arg.0 to key_arg.${MAX_KEY_ARGS - 1}`,
+      );
+    }
+    if (typeof value !== "string") {
+      throw new Error(`Invalid ${name}, must be given once`);
+    }
+    const text = value.trim();
+    try {
+      parseScValText(text);
+    } catch (e) {
+      throw new Error(`Invalid ${name}=${value}: ${(e as Error).message}`, {
+        cause: e,
+      });
+    }
+    args.set(index, text);
+  }
+  if (args.size === 0) {
+    return undefined;
+  }
+  const lastIndex = Math.max(...args.keys());
+  for (let i = 0; i < lastIndex; i++) {
+    if (!args.has(i)) {
+      throw new Error(
+        `key_arg.${i} is required when key_arg.${lastIndex} is given`,
+      );
+    }
+  }
+  return Array.from({ length: args.size }, (_, i) => args.get(i)!);
+};
 
-  const query = res.locals?.parsedQuery ?? req.query;
-  const { cursor, limit = 20, filter_key } = query;
-  let { order = SortDirection.DESC, sort_by = SortField.KEY_HASH } = query;
-  sort_by = (sort_by as string).toLowerCase() as SortField;
-  order = (order as string).toLowerCase() as SortDirection;
-
-  const parsedLimit = typeof limit === "number" ? limit : Number(limit);
-  if (
-    !Number.isFinite(parsedLimit) ||
-    !Number.isInteger(parsedLimit) ||
-    parsedLimit < 1 ||
-    parsedLimit > 200
-  ) {
-    throw new Error(
-      `Invalid limit=${limit}, must be an integer between 1 and 200`,
-    );
+/**
+ * Throws when a pagination parameter differs from the value encoded in the cursor.
+ */
+const assertCursorParamMatches = (
+  field: string,
+  requestValue: string | number | undefined,
+  cursorValue: string | number | undefined,
+): void => {
+  if (requestValue !== cursorValue) {
+    throw new CursorParameterMismatchError(field, requestValue, cursorValue);
   }
-  const limitNum = Math.min(parsedLimit, 200);
+};
 
-  // sort direction
-  const sortDirection =
-    order === SortDirection.ASC ? SortDirection.ASC : SortDirection.DESC;
+/**
+ * Pagination parameters of a storage listing.
+ */
+type ListingPagination = Pick<
+  ContractDataQuery,
+  "cursor" | "limit" | "include_count"
+>;
 
-  // sort field validation
-  const validSortFields = [
-    SortField.DURABILITY,
-    SortField.KEY_HASH,
-    SortField.TTL,
-    SortField.UPDATED_AT,
-  ];
-  if (sort_by && !validSortFields.includes(sort_by as SortField)) {
-    throw new Error(
-      `Invalid sort_by parameter ${sort_by} must be one of ${validSortFields.join(
-        ", ",
-      )}`,
-    );
-  }
-  const sortField = sort_by ? (sort_by as SortField) : SortField.KEY_HASH;
+/**
+ * Page size of requests without pagination parameters.
+ */
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Maps the route's parsed query to request parameters for contract data
+ * queries, resolving the `key_arg.N` parameters and checking that a cursor
+ * was issued for the same sort and filters.
+ *
+ * @param contract_id - Contract ID from the route parameters
+ * @param query - Zod-parsed query (res.locals.parsedQuery)
+ * @param pagination - Cursor, limit and count mode; exports cover every matching entry
+ * @returns RequestParams - Parsed and validated request parameters with type safety
+ */
+const parseRequestParams = (
+  contract_id: string,
+  query: ExportQuery | ContractDataQuery,
+  pagination: ListingPagination = { limit: DEFAULT_LIMIT },
+): RequestParams => {
+  const {
+    order: sortDirection,
+    sort_by: sortField,
+    filter_key: filterKey,
+    key_prefix: keyPrefix,
+    key_contains: keyContains,
+    value_contains: valueContains,
+    durability,
+    status,
+    expiring_within: expiringWithin,
+    updated_after: updatedAfter,
+    updated_before: updatedBefore,
+    ledger_from: ledgerFrom,
+    ledger_to: ledgerTo,
+    decode,
+    rent_ledgers: rentLedgers,
+    fields,
+  } = query;
+  const { cursor, limit, include_count: includeCount } = pagination;
+  const keyArgs = parseKeyArgParams(query);
+  const statusFilters = { status, expiringWithin };
+  const rangeFilters = { updatedAfter, updatedBefore, ledgerFrom, ledgerTo };
 
   // cursor data
   let cursorData: CursorData | undefined = undefined;
   if (cursor) {
-    cursorData = decodeCursor(cursor as string);
+    cursorData = decodeCursor(cursor);
 
     // Validate cursor parameters match request parameters
     if ((cursorData.sortField ?? SortField.KEY_HASH) !== sortField) {
@@ -94,40 +214,176 @@ const parseRequestParams = (req: Request, res: Response): RequestParams => {
       );
     }
 
-    const cursorFilterKey = cursorData.filterKey ?? undefined;
-    const requestFilterKey = filter_key ? (filter_key as string) : undefined;
-    if (cursorFilterKey !== requestFilterKey) {
-      throw new CursorParameterMismatchError(
-        "filter_key",
-        requestFilterKey,
-        cursorFilterKey,
-      );
-    }
+    assertCursorParamMatches(
+      "filter_key",
+      filterKey?.join(","),
+      cursorData.filterKey
+        ? [...cursorData.filterKey].sort().join(",")
+        : undefined,
+    );
+
+    assertCursorParamMatches("key_prefix", keyPrefix, cursorData.keyPrefix);
+    assertCursorParamMatches(
+      "key_contains",
+      keyContains,
+      cursorData.keyContains,
+    );
+    assertCursorParamMatches(
+      "key_arg",
+      keyArgs ? JSON.stringify(keyArgs) : undefined,
+      cursorData.keyArgs ? JSON.stringify(cursorData.keyArgs) : undefined,
+    );
+    assertCursorParamMatches(
+      "value_contains",
+      valueContains,
+      cursorData.valueContains,
+    );
+    assertCursorParamMatches(
+      "durability",
+      durability?.join(","),
+      cursorData.durability?.join(","),
+    );
+    assertCursorParamMatches("status", statusFilters.status, cursorData.status);
+    assertCursorParamMatches(
+      "expiring_within",
+      statusFilters.expiringWithin,
+      cursorData.expiringWithin,
+    );
+    assertCursorParamMatches(
+      "updated_after",
+      rangeFilters.updatedAfter,
+      cursorData.updatedAfter,
+    );
+    assertCursorParamMatches(
+      "updated_before",
+      rangeFilters.updatedBefore,
+      cursorData.updatedBefore,
+    );
+    assertCursorParamMatches(
+      "ledger_from",
+      rangeFilters.ledgerFrom,
+      cursorData.ledgerFrom,
+    );
+    assertCursorParamMatches(
+      "ledger_to",
+      rangeFilters.ledgerTo,
+      cursorData.ledgerTo,
+    );
   }
 
   return {
     contractId: contract_id,
-    cursor: cursor as string | undefined,
+    cursor,
     cursorData,
-    limit: limitNum,
+    limit,
     sortDirection,
     sortField,
     sortDbField: APIFieldToDBFieldMap[sortField],
-    filterKey: filter_key ? (filter_key as string) : undefined,
+    filterKey,
+    keyPrefix,
+    keyContains,
+    keyArgs,
+    valueContains,
+    durability,
+    ...statusFilters,
+    ...rangeFilters,
+    decode,
+    rentLedgers,
+    includeCount,
+    fields,
     pathPrefix: Env.pathPrefix,
   };
 };
 
 /**
- * Fetches contract data with cursor-based pagination.
- * Latest ledger sequence is obtained from the Stellar network (RPC with Horizon fallback).
- * @param requestParams - Request parameters including contract ID, cursor, limit, and sorting
- * @returns Promise resolving to array of `ContractData` objects
+ * Resolves the ledger sequence used to compute `expired` and the status filters.
+ * Status-filtered cursors pin the ledger of their first page so entries don't
+ * move between the live and expired sets while paginating; otherwise the latest
+ * ledger is obtained from the Stellar network (RPC with Horizon fallback).
+ * @param requestParams - Request parameters including cursor and status filters
+ * @returns Promise resolving to the reference ledger sequence
  */
-const getContractData = async (
+const getReferenceLedgerSequence = async (
   requestParams: RequestParams,
   ledgerService: StellarService = getStellarService(),
-): Promise<ContractData[]> => {
+): Promise<number> => {
+  const { cursorData, status, expiringWithin } = requestParams;
+  const hasStatusFilter = status !== undefined || expiringWithin !== undefined;
+  if (hasStatusFilter && cursorData?.ledger !== undefined) {
+    return cursorData.ledger;
+  }
+  return ledgerService.getLatestLedger();
+};
+
+/**
+ * Fetches the network rent settings when a rent estimate was requested.
+ * The extension still has to be checked against the settings' max entry TTL.
+ * @param rentLedgers - Requested `rent_ledgers`, if any
+ * @returns Rent serializer options, or undefined without `rent_ledgers`
+ */
+const getRentOptions = async (
+  rentLedgers: number | undefined,
+): Promise<{ settings: RentSettings; ledgers: number } | undefined> => {
+  if (rentLedgers === undefined) {
+    return undefined;
+  }
+  const settings = await getStellarService().getRentSettings();
+  return { settings, ledgers: rentLedgers };
+};
+
+/**
+ * Returns true when the listing searches key symbols or key arguments.
+ * @param requestParams - Request parameters
+ */
+const isKeySearch = (requestParams: RequestParams): boolean =>
+  Boolean(
+    requestParams.keyPrefix ||
+    requestParams.keyContains ||
+    requestParams.keyArgs,
+  );
+
+/**
+ * Returns true when a listing sorts or filters on the effective TTL, which
+ * is computed per entry from the ttl table rather than indexed.
+ * @param requestParams - Request parameters
+ */
+const usesEffectiveTtl = (requestParams: RequestParams): boolean =>
+  requestParams.sortField === SortField.TTL ||
+  requestParams.status !== undefined ||
+  requestParams.expiringWithin !== undefined;
+
+/**
+ * Returns true when a listing runs under LISTING_STATEMENT_TIMEOUT_MS: key
+ * searches, `sort_by=size`, which sorts every matching entry by a computed
+ * size, and listings on the effective TTL.
+ * @param requestParams - Request parameters
+ */
+const hasStatementTimeout = (requestParams: RequestParams): boolean =>
+  isKeySearch(requestParams) ||
+  requestParams.sortField === SortField.SIZE ||
+  usesEffectiveTtl(requestParams);
+
+/**
+ * Error message of a listing cancelled by its statement timeout.
+ * @param requestParams - Request parameters
+ */
+const statementTimeoutMessage = (requestParams: RequestParams): string =>
+  isKeySearch(requestParams)
+    ? "Key search timed out, use a longer key_prefix/key_contains or add more filters"
+    : requestParams.sortField === SortField.SIZE
+      ? "Sorting by size timed out, add filters to narrow the listing"
+      : "Sorting or filtering by TTL timed out, add filters to narrow the listing";
+
+/**
+ * Maps request parameters to the query builder configuration.
+ * @param requestParams - Request parameters including contract ID, cursor, limit, sorting, and filters
+ * @param latestLedgerSequence - Reference ledger for `expired` and status filters
+ * @returns Query builder configuration
+ */
+const toQueryConfig = (
+  requestParams: RequestParams,
+  latestLedgerSequence: number,
+): ContractDataQueryConfig => {
   const {
     contractId,
     cursorData,
@@ -136,11 +392,21 @@ const getContractData = async (
     sortDirection,
     sortField,
     filterKey,
+    keyPrefix,
+    keyContains,
+    keyArgs,
+    durability,
+    status,
+    expiringWithin,
+    updatedAfter,
+    updatedBefore,
+    ledgerFrom,
+    ledgerTo,
+    valueContains,
+    fields,
   } = requestParams;
 
-  const latestLedgerSequence = await ledgerService.getLatestLedger();
-
-  const config: ContractDataQueryConfig = {
+  return {
     contractId,
     cursorData,
     limit,
@@ -149,12 +415,195 @@ const getContractData = async (
     sortDirection,
     sortField,
     filterKey,
+    keyPrefix,
+    keyContains,
+    keyArgs: keyArgs?.map(parseScValText),
+    durability,
+    status,
+    expiringWithin,
+    updatedAfter,
+    updatedBefore,
+    ledgerFrom,
+    ledgerTo,
+    // value_contains matches against the stored value even when it isn't returned
+    fields:
+      fields && valueContains && !fields.includes("value")
+        ? [...fields, "value"]
+        : fields,
   };
-  const results = await getPrisma().$queryRaw<ContractData[]>(
-    buildContractDataQuery(config),
+};
+
+/**
+ * Runs a storage listing query. Key symbol and key argument searches and size
+ * sorts run under a statement timeout so a pathological filter or a full sort
+ * can't hold a connection on contracts with very large storage.
+ * @param requestParams - Request parameters (key search filters and the sort decide the timeout)
+ * @param query - Query to run
+ * @returns Promise resolving to the query rows
+ */
+const runContractDataQuery = async <T>(
+  requestParams: RequestParams,
+  query: Prisma.Sql,
+): Promise<T[]> => {
+  if (!hasStatementTimeout(requestParams)) {
+    return getPrisma().$queryRaw<T[]>(query);
+  }
+  return getPrisma().$transaction(async tx => {
+    await tx.$queryRaw(
+      buildStatementTimeoutQuery(LISTING_STATEMENT_TIMEOUT_MS),
+    );
+    return tx.$queryRaw<T[]>(query);
+  });
+};
+
+/**
+ * Fetches contract data with cursor-based pagination.
+ * @param requestParams - Request parameters including contract ID, cursor, limit, and sorting
+ * @param latestLedgerSequence - Reference ledger for `expired` and status filters
+ * @returns Promise resolving to array of `ContractData` objects
+ */
+const getContractData = async (
+  requestParams: RequestParams,
+  latestLedgerSequence: number,
+): Promise<ContractData[]> =>
+  runContractDataQuery<ContractData>(
+    requestParams,
+    buildContractDataQuery(toQueryConfig(requestParams, latestLedgerSequence)),
   );
 
-  return results;
+/**
+ * Counts the entries matching the listing filters (cursor and limit are ignored).
+ * `exact` counts up to COUNT_EXACT_THRESHOLD rows and falls back to the planner
+ * estimate above it; `estimate` only asks the planner.
+ * @param requestParams - Request parameters including filters and `includeCount`
+ * @param latestLedgerSequence - Reference ledger for status filters
+ * @returns Total and whether it is exact
+ */
+const countContractData = async (
+  requestParams: RequestParams,
+  latestLedgerSequence: number,
+): Promise<{ total: number; exact: boolean }> => {
+  const config = toQueryConfig(requestParams, latestLedgerSequence);
+
+  if (requestParams.includeCount === CountMode.EXACT) {
+    const [{ total }] = await runContractDataQuery<{ total: number }>(
+      requestParams,
+      buildContractDataCountQuery(
+        config.contractId,
+        config,
+        COUNT_EXACT_THRESHOLD,
+      ),
+    );
+    if (total <= COUNT_EXACT_THRESHOLD) {
+      return { total, exact: true };
+    }
+  }
+
+  const [row] = await runContractDataQuery<{
+    "QUERY PLAN": [{ Plan: { "Plan Rows": number } }];
+  }>(
+    requestParams,
+    buildContractDataCountEstimateQuery(config.contractId, config),
+  );
+  return {
+    total: Math.round(row["QUERY PLAN"][0].Plan["Plan Rows"]),
+    exact: false,
+  };
+};
+
+/**
+ * Returns true when the decoded value of a row contains the search term.
+ * Rows whose value can't be decoded never match.
+ */
+const rowValueContains = (row: ContractData, term: string): boolean => {
+  if (!row.val) {
+    return false;
+  }
+  try {
+    return scValContainsText(
+      decodeScValXdr(Buffer.from(row.val).toString("utf8")),
+      term,
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Builds the cursor continuing a batched scan after a row, in scan direction.
+ * @param requestParams - Request parameters with the sort field and direction
+ * @param cursorType - Scan direction
+ * @param row - Last row of the previous batch
+ * @returns Cursor data for the next batch query
+ */
+const buildBatchCursor = (
+  { sortDbField, sortDirection, sortField }: RequestParams,
+  cursorType: CursorData["cursorType"],
+  row: ContractData,
+): CursorData => ({
+  cursorType,
+  sortField: sortField !== SortField.KEY_HASH ? sortField : undefined,
+  sortDirection,
+  position: {
+    keyHash: row.key_hash,
+    sortValue:
+      sortField !== SortField.KEY_HASH
+        ? extractSortValue(row, sortDbField)
+        : undefined,
+  },
+});
+
+/**
+ * Fetches contract data whose decoded value contains `valueContains`.
+ * Values are stored as XDR, so rows are read in keyset order in batches (with
+ * all SQL filters applied) and matched after decoding, until a full page of
+ * matches is found or `Env.valueScanMaxRows` rows have been read.
+ * @param requestParams - Request parameters including `valueContains`, cursor, limit, and sorting
+ * @param latestLedgerSequence - Reference ledger for `expired` and status filters
+ * @returns Matching rows in response order and, when the row cap cut the scan
+ * short, the last row read so pagination can resume after it
+ */
+const scanContractDataByValue = async (
+  requestParams: RequestParams,
+  latestLedgerSequence: number,
+): Promise<{ results: ContractData[]; scanBoundary?: ContractData }> => {
+  const { cursorData, limit, valueContains = "" } = requestParams;
+  const cursorType = cursorData?.cursorType ?? "next";
+  // prev pages are fetched in response order; matches are collected from the cursor outwards
+  const inResponseOrder = (rows: ContractData[]) =>
+    cursorType === "prev" ? [...rows].reverse() : rows;
+  const maxRows = Env.valueScanMaxRows;
+
+  const matches: ContractData[] = [];
+  let batchCursor = cursorData;
+  let scanned = 0;
+  let lastScanned: ContractData | undefined;
+  while (scanned < maxRows) {
+    const batchLimit = Math.min(VALUE_SCAN_BATCH_SIZE, maxRows - scanned);
+    const batch = inResponseOrder(
+      await getContractData(
+        { ...requestParams, cursorData: batchCursor, limit: batchLimit },
+        latestLedgerSequence,
+      ),
+    );
+    for (const row of batch) {
+      if (rowValueContains(row, valueContains)) {
+        matches.push(row);
+        if (matches.length === limit) {
+          return { results: inResponseOrder(matches) };
+        }
+      }
+    }
+    if (batch.length < batchLimit) {
+      return { results: inResponseOrder(matches) };
+    }
+
+    scanned += batch.length;
+    lastScanned = batch[batch.length - 1];
+    batchCursor = buildBatchCursor(requestParams, cursorType, lastScanned);
+  }
+
+  return { results: inResponseOrder(matches), scanBoundary: lastScanned };
 };
 
 /**
@@ -166,6 +615,14 @@ const getContractData = async (
  * @example
  * GET /contracts/CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQAUHKENNYY/data
  * GET /contracts/CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQAUHKENNYY/data?limit=50&sort_by=key&order=desc
+ * GET /contracts/CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQAUHKENNYY/data?decode=json
+ * GET /contracts/CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQAUHKENNYY/data?status=live&expiring_within=17280
+ * GET /contracts/CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQAUHKENNYY/data?updated_after=2025-10-01T00:00:00Z&ledger_to=59409310
+ * GET /contracts/CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQAUHKENNYY/data?key_prefix=Bal
+ * GET /contracts/CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQAUHKENNYY/data?value_contains=GB7FBBPR
+ * GET /contracts/CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQAUHKENNYY/data?include_count=exact&limit=0
+ * GET /contracts/CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQAUHKENNYY/data?fields=key_hash,ttl
+ * GET /contracts/CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQAUHKENNYY/data?sort_by=size&rent_ledgers=535680
  *
  * Response format:
  * {
@@ -174,10 +631,14 @@ const getContractData = async (
  *     "next": { "href": "..." },
  *     "prev": { "href": "..." }
  *   },
- *   "results": [...]
+ *   "results": [...],
+ *   "partial": false,  // only with value_contains; true when the scan hit its row cap
+ *   "total": 1234,     // only with include_count
+ *   "total_exact": true
  * }
  *
  * @throws {400} When request parameters are invalid
+ * @throws {503} When a key symbol search exceeds its statement timeout
  * @throws {500} When database query fails
  */
 
@@ -187,15 +648,604 @@ export const getContractDataByContractId = async (
 ): Promise<void | Response> => {
   let requestParams: RequestParams;
   try {
-    requestParams = parseRequestParams(req, res);
+    const query: ContractDataQuery = res.locals.parsedQuery;
+    requestParams = parseRequestParams(req.params.contract_id, query, query);
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  const rent = await getRentOptions(requestParams.rentLedgers);
+  try {
+    if (rent) {
+      assertRentLedgersWithinMaxTtl(rent.settings, rent.ledgers);
+    }
   } catch (e) {
     return res.status(400).json({ error: (e as Error).message });
   }
 
-  const contractData = await getContractData(requestParams);
-  const links = buildPaginationLinks(requestParams, contractData);
+  const latestLedgerSequence = await getReferenceLedgerSequence(requestParams);
+  let contractData: ContractData[] = [];
+  let scanBoundary: ContractData | undefined;
+  let count: { total: number; exact: boolean } | undefined;
+  try {
+    if (requestParams.valueContains) {
+      ({ results: contractData, scanBoundary } = await scanContractDataByValue(
+        requestParams,
+        latestLedgerSequence,
+      ));
+    } else if (requestParams.limit > 0) {
+      contractData = await getContractData(requestParams, latestLedgerSequence);
+    }
+    if (requestParams.includeCount) {
+      count = await countContractData(requestParams, latestLedgerSequence);
+    }
+  } catch (e) {
+    if (isStatementTimeoutError(e)) {
+      return res
+        .status(503)
+        .json({ error: statementTimeoutMessage(requestParams) });
+    }
+    throw e;
+  }
+  const links = buildPaginationLinks(
+    requestParams,
+    contractData,
+    latestLedgerSequence,
+    scanBoundary,
+  );
+  const results = serializeContractDataResults(contractData, {
+    decode: requestParams.decode,
+    rent,
+    keyArgs: requestParams.fields?.includes("key_args"),
+  });
   return res.status(200).json({
     _links: links,
-    results: serializeContractDataResults(contractData),
+    results: requestParams.fields
+      ? projectContractDataResults(results, requestParams.fields)
+      : results,
+    ...(requestParams.valueContains
+      ? { partial: scanBoundary !== undefined }
+      : {}),
+    ...(count ? { total: count.total, total_exact: count.exact } : {}),
+  });
+};
+
+/**
+ * Runs a storage export batch query so that it can be cancelled: aborting
+ * `signal` cancels the running statement with `pg_cancel_backend`. The
+ * transaction isn't released before the cancel request returns, so the
+ * cancel can't reach a query of another request on the same connection.
+ * Key searches run under the same statement timeout as listings.
+ * @param requestParams - Request parameters (key search filters and the sort decide the timeout)
+ * @param query - Batch query
+ * @param signal - Aborted when the client disconnects
+ * @returns Promise resolving to the batch rows
+ */
+const runCancellableContractDataQuery = async (
+  requestParams: RequestParams,
+  query: Prisma.Sql,
+  signal: AbortSignal,
+): Promise<ContractData[]> =>
+  getPrisma().$transaction(
+    async tx => {
+      const [{ pid }] = await tx.$queryRaw<{ pid: number }[]>(
+        buildBackendPidQuery(),
+      );
+      if (hasStatementTimeout(requestParams)) {
+        await tx.$queryRaw(
+          buildStatementTimeoutQuery(LISTING_STATEMENT_TIMEOUT_MS),
+        );
+      }
+
+      signal.throwIfAborted();
+      let cancelling: Promise<unknown> | undefined;
+      const cancel = () => {
+        cancelling = getPrisma()
+          .$queryRaw(buildCancelBackendQuery(pid))
+          .catch(err => {
+            logger.warn({ err }, "Failed to cancel storage export query");
+          });
+      };
+      signal.addEventListener("abort", cancel, { once: true });
+      try {
+        return await tx.$queryRaw<ContractData[]>(query);
+      } finally {
+        signal.removeEventListener("abort", cancel);
+        await cancelling;
+      }
+    },
+    { timeout: EXPORT_BATCH_TIMEOUT_MS },
+  );
+
+/**
+ * Reads every entry matching the listing filters in keyset order, one
+ * `Env.exportBatchSize` batch per query, each continuing after the last row
+ * of the previous batch.
+ * @param requestParams - Request parameters including filters and sorting (cursor and limit are ignored)
+ * @param latestLedgerSequence - Reference ledger for `expired` and status filters
+ * @param signal - Stops the iteration and cancels the running query when aborted
+ * @returns Async iterator of non-empty batches
+ */
+async function* iterateContractData(
+  requestParams: RequestParams,
+  latestLedgerSequence: number,
+  signal: AbortSignal,
+): AsyncGenerator<ContractData[]> {
+  const batchSize = Env.exportBatchSize;
+  let cursorData: CursorData | undefined;
+  while (!signal.aborted) {
+    const batch = await runCancellableContractDataQuery(
+      requestParams,
+      buildContractDataQuery(
+        toQueryConfig(
+          { ...requestParams, cursorData, limit: batchSize },
+          latestLedgerSequence,
+        ),
+      ),
+      signal,
+    );
+    if (batch.length > 0) {
+      yield batch;
+    }
+    if (batch.length < batchSize) {
+      return;
+    }
+    cursorData = buildBatchCursor(
+      requestParams,
+      "next",
+      batch[batch.length - 1],
+    );
+  }
+}
+
+/**
+ * Resolves once the response can take more data or the export was aborted.
+ */
+const waitForDrain = (res: Response, signal: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      res.off("drain", done);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    res.on("drain", done);
+    signal.addEventListener("abort", done, { once: true });
+  });
+
+/**
+ * Output of a storage export: response headers, the text written before and
+ * after the entries, and the formatting of each batch of entries.
+ */
+type ExportWriter = {
+  contentType: string;
+  filename: string;
+  start: string;
+  formatRows: (rows: ContractData[]) => string;
+  end: string;
+};
+
+/**
+ * Builds the writer of an NDJSON or CSV export, in the listing's entry shape.
+ * @param contractId - Exported contract
+ * @param format - NDJSON or CSV
+ * @param requestParams - Request parameters (`decode` and `fields` shape the entries)
+ * @param rent - Rent serializer options, if `rent_ledgers` was requested
+ * @returns Export writer
+ */
+const createStorageExportWriter = (
+  contractId: string,
+  format: ExportFormat,
+  requestParams: RequestParams,
+  rent: { settings: RentSettings; ledgers: number } | undefined,
+): ExportWriter => {
+  const serializeOptions = {
+    decode: requestParams.decode,
+    rent,
+    keyArgs: requestParams.fields?.includes("key_args"),
+  };
+  const isCsv = format === ExportFormat.CSV;
+  const columns = isCsv
+    ? contractDataCsvColumns(serializeOptions, requestParams.fields)
+    : [];
+  return {
+    contentType: isCsv
+      ? "text/csv; charset=utf-8"
+      : "application/x-ndjson; charset=utf-8",
+    filename: `${contractId}-storage.${format}`,
+    start: isCsv ? formatCsvRow(columns) : "",
+    formatRows: rows => {
+      const results = serializeContractDataResults(rows, serializeOptions);
+      return formatContractDataExport(
+        requestParams.fields
+          ? projectContractDataResults(results, requestParams.fields)
+          : results,
+        format,
+        columns,
+      );
+    },
+    end: "",
+  };
+};
+
+/**
+ * Rejects output options that have no place in a ledger snapshot.
+ * @param requestParams - Parsed request parameters
+ * @throws Error when `fields`, `decode` or `rent_ledgers` was given
+ */
+const assertSnapshotExportParams = (requestParams: RequestParams): void => {
+  const { fields, decode, rentLedgers } = requestParams;
+  if (fields || decode || rentLedgers !== undefined) {
+    throw new Error(
+      "Parameters fields, decode and rent_ledgers are not supported with format=snapshot",
+    );
+  }
+};
+
+/**
+ * Builds the writer of a ledger snapshot export. The contract's instance
+ * entry is always written first, whether or not the filters select it, so
+ * the snapshot can be loaded without further entries; matched entries follow.
+ * @param contractId - Exported contract
+ * @returns Snapshot ledger sequence and export writer, or undefined when the
+ * contract instance is not indexed
+ */
+const createSnapshotExportWriter = async (
+  contractId: string,
+): Promise<
+  { latestLedgerSequence: number; writer: ExportWriter } | undefined
+> => {
+  const stellarService = getStellarService();
+  const [latestLedger, ttlSettings] = await Promise.all([
+    stellarService.getLatestLedgerInfo(),
+    stellarService.getSnapshotTtlSettings(),
+  ]);
+  const [instance] = await getPrisma().$queryRaw<ContractData[]>(
+    buildContractDataEntryQuery(
+      contractId,
+      computeContractDataKeyHash(
+        contractId,
+        xdr.ScVal.scvLedgerKeyContractInstance(),
+        "instance",
+      ),
+      latestLedger.sequence,
+    ),
+  );
+  if (!instance?.key || !instance.val) {
+    return undefined;
+  }
+
+  const header: LedgerSnapshotHeader = {
+    protocol_version: latestLedger.protocolVersion,
+    sequence_number: latestLedger.sequence,
+    timestamp: Math.floor(Date.now() / 1000),
+    network_id: hash(Buffer.from(Env.networkPassphrase)).toString("hex"),
+    base_reserve: SNAPSHOT_BASE_RESERVE_STROOPS,
+    min_persistent_entry_ttl: ttlSettings.minPersistentEntryTtl,
+    min_temp_entry_ttl: ttlSettings.minTempEntryTtl,
+    max_entry_ttl: ttlSettings.maxEntryTtl,
+  };
+  return {
+    latestLedgerSequence: latestLedger.sequence,
+    writer: {
+      contentType: "application/json; charset=utf-8",
+      filename: `${contractId}-snapshot.json`,
+      start: formatLedgerSnapshotStart(
+        header,
+        serializeLedgerSnapshotEntry(instance),
+      ),
+      formatRows: rows =>
+        formatLedgerSnapshotEntries(
+          rows
+            .filter(
+              row => row.key_hash !== instance.key_hash && row.key && row.val,
+            )
+            .map(serializeLedgerSnapshotEntry),
+        ),
+      end: LEDGER_SNAPSHOT_END,
+    },
+  };
+};
+
+/**
+ * Controller streaming every storage entry of a contract as NDJSON, CSV or a
+ * ledger snapshot.
+ *
+ * Accepts the listing's filters, sorting, `decode`, `rent_ledgers` and
+ * `fields` (but no cursor or limit) and reads the entries in keyset order in
+ * batches, so memory use doesn't grow with the contract's storage. Writes
+ * wait for the client when the response buffer is full, and a client
+ * disconnect stops the export and cancels the running query.
+ *
+ * `format=snapshot` writes the ledger snapshot JSON loaded by soroban-sdk's
+ * `Env::from_snapshot_file`, with the contract instance and the entries
+ * selected by the filters at the latest ledger.
+ *
+ * @example
+ * GET /api/contract/CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU/storage/export
+ * GET /api/contract/CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU/storage/export?format=csv&durability=persistent&fields=key_symbol,ttl
+ * GET /api/contract/CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU/storage/export?format=snapshot&filter_key=Balance
+ *
+ * @throws {400} When request parameters are invalid
+ * @throws {404} When a snapshot is requested for a contract whose instance is not indexed
+ * @throws {503} When a key symbol search exceeds its statement timeout on the first batch
+ * @throws {500} When the first database query fails; later failures abort the response
+ */
+export const exportContractData = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const { contract_id } = req.params;
+
+  let requestParams: RequestParams;
+  let format: ExportFormat;
+  try {
+    const query: ExportQuery = res.locals.parsedQuery;
+    format = query.format;
+    // Exports always cover every matching entry
+    requestParams = parseRequestParams(contract_id, query);
+    if (format === ExportFormat.SNAPSHOT) {
+      assertSnapshotExportParams(requestParams);
+    }
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  const rent = await getRentOptions(requestParams.rentLedgers);
+  try {
+    if (rent) {
+      assertRentLedgersWithinMaxTtl(rent.settings, rent.ledgers);
+    }
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  let latestLedgerSequence: number;
+  let writer: ExportWriter;
+  if (format === ExportFormat.SNAPSHOT) {
+    const snapshot = await createSnapshotExportWriter(contract_id);
+    if (!snapshot) {
+      return res.status(404).json({ error: "Contract instance not found" });
+    }
+    ({ latestLedgerSequence, writer } = snapshot);
+  } else {
+    latestLedgerSequence = await getStellarService().getLatestLedger();
+    writer = createStorageExportWriter(
+      contract_id,
+      format,
+      requestParams,
+      rent,
+    );
+  }
+
+  const abortController = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) {
+      abortController.abort();
+    }
+  });
+  const batches = iterateContractData(
+    requestParams,
+    latestLedgerSequence,
+    abortController.signal,
+  );
+
+  // The first batch is read before the response starts, so it can still fail with a status
+  let next: IteratorResult<ContractData[]>;
+  try {
+    next = await batches.next();
+  } catch (e) {
+    if (isStatementTimeoutError(e)) {
+      return res
+        .status(503)
+        .json({ error: statementTimeoutMessage(requestParams) });
+    }
+    throw e;
+  }
+
+  res.status(200);
+  res.setHeader("Content-Type", writer.contentType);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${writer.filename}"`,
+  );
+  if (writer.start) {
+    res.write(writer.start);
+  }
+
+  try {
+    while (!next.done && !abortController.signal.aborted) {
+      const rows = requestParams.valueContains
+        ? next.value.filter(row =>
+            rowValueContains(row, requestParams.valueContains as string),
+          )
+        : next.value;
+      const output = writer.formatRows(rows);
+      if (output && !res.write(output)) {
+        await waitForDrain(res, abortController.signal);
+      }
+      next = await batches.next();
+    }
+  } catch (e) {
+    if (abortController.signal.aborted) {
+      return;
+    }
+    logger.error({ err: e }, "Storage export failed");
+    res.destroy(e as Error);
+    return;
+  }
+
+  if (!abortController.signal.aborted) {
+    if (writer.end) {
+      res.write(writer.end);
+    }
+    res.end();
+  }
+};
+
+/**
+ * Controller for retrieving a single contract data entry by its key hash.
+ *
+ * Returns the same entry shape as the storage listing. Responds with 404 when the
+ * entry is not indexed or belongs to a different contract.
+ *
+ * @example
+ * GET /api/contract/CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU/storage/058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6
+ * GET /api/contract/CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU/storage/058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6?decode=json
+ * GET /api/contract/CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU/storage/058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6?rent_ledgers=535680
+ *
+ * @throws {400} When request parameters are invalid
+ * @throws {404} When no entry with this key hash exists for the contract
+ * @throws {500} When database query fails
+ */
+export const getContractDataEntryByKeyHash = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const { contract_id, key_hash } = req.params;
+
+  const { decode, rent_ledgers: rentLedgers }: EntryQuery =
+    res.locals.parsedQuery;
+
+  const rent = await getRentOptions(rentLedgers);
+  try {
+    if (rent) {
+      assertRentLedgersWithinMaxTtl(rent.settings, rent.ledgers);
+    }
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  const latestLedgerSequence = await getStellarService().getLatestLedger();
+  const [entry] = await getPrisma().$queryRaw<ContractData[]>(
+    buildContractDataEntryQuery(contract_id, key_hash, latestLedgerSequence),
+  );
+
+  if (!entry) {
+    return res.status(404).json({ error: "Contract data entry not found" });
+  }
+
+  const [result] = serializeContractDataResults([entry], {
+    decode,
+    rent,
+    keyArgs: true,
   });
+  return res.status(200).json(result);
+};
+
+/**
+ * A storage lookup key resolved to its ledger-key hash.
+ */
+type ResolvedLookupKey = {
+  key: string;
+  durability: StorageDurability;
+  keyHash: string;
+};
+
+/**
+ * Computes the normalized XDR and `key_hash` of each key of a storage lookup.
+ *
+ * @param contractId - Contract owning the entries
+ * @param body - Parsed request body (`{ keys: [{ key, durability }] }`)
+ * @returns Keys in request order with their normalized XDR and key hash
+ * @throws Error when a key cannot be converted
+ */
+const parseLookupKeys = (
+  contractId: string,
+  { keys }: LookupRequestBody,
+): ResolvedLookupKey[] =>
+  keys.map(({ key, durability }, index) => {
+    try {
+      const scVal = parseScValInput(key);
+      return {
+        key: scVal.toXDR("base64"),
+        durability,
+        keyHash: computeContractDataKeyHash(contractId, scVal, durability),
+      };
+    } catch (e) {
+      throw new Error(
+        `Invalid key at index ${index}: ${(e as Error).message}`,
+        {
+          cause: e,
+        },
+      );
+    }
+  });
+
+/**
+ * Controller for looking up storage entries by their logical (ScVal) key.
+ *
+ * Computes the ledger-key hash of every requested key the same way the indexer
+ * does, fetches all matching rows with a single query, and returns one result per
+ * requested key in request order, with `found: false` for keys that are not indexed.
+ *
+ * @example
+ * POST /api/contract/CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU/storage/lookup
+ * {
+ *   "keys": [
+ *     { "key": "AAAAEAAAAAEAAAACAAAADwAAABRCaWxsaW5nQ3ljbGVQbGFuTmFtZQAAAAMAAAAD", "durability": "persistent" },
+ *     { "key": { "type": "vec", "value": [{ "type": "symbol", "value": "Balance" }, { "type": "address", "value": "GABC..." }] } }
+ *   ]
+ * }
+ *
+ * @throws {400} When the request body or parameters are invalid
+ * @throws {500} When database query fails
+ */
+export const lookupContractDataEntries = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const { contract_id } = req.params;
+
+  const { decode, rent_ledgers: rentLedgers }: EntryQuery =
+    res.locals.parsedQuery;
+  let keys: ResolvedLookupKey[];
+  try {
+    keys = parseLookupKeys(contract_id, res.locals.parsedBody);
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  const rent = await getRentOptions(rentLedgers);
+  try {
+    if (rent) {
+      assertRentLedgersWithinMaxTtl(rent.settings, rent.ledgers);
+    }
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  const latestLedgerSequence = await getStellarService().getLatestLedger();
+  const uniqueKeyHashes = [...new Set(keys.map(k => k.keyHash))];
+  const rows = await getPrisma().$queryRaw<ContractData[]>(
+    buildContractDataEntriesQuery(
+      contract_id,
+      uniqueKeyHashes,
+      latestLedgerSequence,
+    ),
+  );
+
+  const entriesByKeyHash = new Map(
+    serializeContractDataResults(rows, { decode, rent, keyArgs: true }).map(
+      entry => [entry.key_hash, entry],
+    ),
+  );
+
+  const results: StorageLookupResultDTO[] = keys.map(
+    ({ key, durability, keyHash }) => {
+      const entry = entriesByKeyHash.get(keyHash) ?? null;
+      return {
+        key,
+        durability,
+        key_hash: keyHash,
+        found: entry !== null,
+        entry,
+      };
+    },
+  );
+
+  return res.status(200).json({ contract_id, results });
 };
@@ -0,0 +1,257 @@
+import { Request, Response } from "express";
+import { chunkFootprintEntries } from "../helpers/footprint";
+import { STORAGE_DURABILITIES, StorageDurability } from "../helpers/ledger_key";
+import {
+  buildExtendableEntriesQuery,
+  buildRestorableEntriesQuery,
+} from "../query-builders/footprint";
+import {
+  resolveFootprintEntries,
+  serializeExtendFootprint,
+  serializeRestoreFootprint,
+} from "../serializers/footprint";
+import {
+  MAX_EXPIRING_WITHIN_LEDGERS,
+  MAX_FILTER_KEYS,
+} from "../types/contract_data";
+import {
+  FootprintEntryRow,
+  FootprintSelector,
+  MAX_FOOTPRINT_ENTRIES,
+  MAX_FOOTPRINT_KEY_HASHES,
+} from "../types/footprint";
+import { getPrisma } from "../utils/connect";
+import { getStellarService } from "../utils/stellar";
+
+/**
+ * Parses an optional list of strings from a footprint selector body.
+ *
+ * @param name - Body field name (for error messages)
+ * @param value - Raw body value
+ * @param max - Maximum number of values
+ * @param pattern - Pattern every value must match
+ * @returns Sorted, de-duplicated values, or undefined when not provided
+ * @throws Error when the value is not a list of 1 to `max` matching strings
+ */
+const parseSelectorList = (
+  name: string,
+  value: unknown,
+  max: number,
+  pattern: RegExp,
+): string[] | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.length > max ||
+    !value.every(v => typeof v === "string" && pattern.test(v.trim()))
+  ) {
+    throw new Error(`Invalid ${name}, must be an array of 1 to ${max} values`);
+  }
+  return [...new Set(value.map(v => (v as string).trim()))].sort();
+};
+
+/**
+ * Parses the footprint selector from a request body
+ * (`{ key_symbols?: string[], key_hashes?: string[] }`).
+ *
+ * @param body - Request body; an empty body selects every entry
+ * @returns Parsed selector
+ * @throws Error when a filter is malformed
+ */
+const parseFootprintSelector = (body: unknown): FootprintSelector => {
+  const { key_symbols, key_hashes } = (body ?? {}) as Record<string, unknown>;
+  return {
+    keySymbols: parseSelectorList(
+      "key_symbols",
+      key_symbols,
+      MAX_FILTER_KEYS,
+      /^\S+$/,
+    ),
+    keyHashes: parseSelectorList(
+      "key_hashes",
+      key_hashes,
+      MAX_FOOTPRINT_KEY_HASHES,
+      /^[0-9a-f]{64}$/,
+    ),
+  };
+};
+
+/**
+ * Parses the extend footprint selector from a request body: the footprint
+ * selector plus `durability` (array of durabilities) and `expiring_within`
+ * (ledgers).
+ *
+ * @param body - Request body; an empty body selects every persistent and instance entry
+ * @returns Parsed selector
+ * @throws Error when a filter is malformed
+ */
+const parseExtendSelector = (body: unknown): FootprintSelector => {
+  const { durability, expiring_within } = (body ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const selector = parseFootprintSelector(body);
+
+  if (durability !== undefined) {
+    if (
+      !Array.isArray(durability) ||
+      durability.length === 0 ||
+      !durability.every(d =>
+        (STORAGE_DURABILITIES as readonly unknown[]).includes(d),
+      )
+    ) {
+      throw new Error(
+        `Invalid durability, must be an array of ${STORAGE_DURABILITIES.join(", ")} values`,
+      );
+    }
+    selector.durability = [
+      ...new Set(durability as StorageDurability[]),
+    ].sort();
+  }
+
+  if (expiring_within !== undefined) {
+    if (
+      typeof expiring_within !== "number" ||
+      !Number.isInteger(expiring_within) ||
+      expiring_within < 0 ||
+      expiring_within > MAX_EXPIRING_WITHIN_LEDGERS
+    ) {
+      throw new Error(
+        `Invalid expiring_within=${expiring_within}, must be an integer between 0 and ${MAX_EXPIRING_WITHIN_LEDGERS}`,
+      );
+    }
+    selector.expiringWithin = expiring_within;
+  }
+
+  return selector;
+};
+
+/**
+ * Controller building the footprint of a `RestoreFootprintOp` for the archived
+ * (expired persistent and instance) entries of a contract.
+ *
+ * Rebuilds each entry's `LedgerKey` from its stored key as a read-write
+ * footprint entry. Entries are split into as many footprints as the network's
+ * per-transaction footprint and write limits require, each with
+ * `SorobanTransactionData` XDR that can be simulated to fill in resources and
+ * fees. Entries whose stored key can't be decoded are reported in `skipped`.
+ * At most MAX_FOOTPRINT_ENTRIES entries (by key hash) are covered per request;
+ * `truncated` tells when more matched.
+ *
+ * @example
+ * POST /api/contract/CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU/restore-footprint
+ * { "key_symbols": ["Balance"] }
+ *
+ * @throws {400} When the selector is invalid
+ * @throws {500} When database query or network settings fetch fails
+ */
+export const buildRestoreFootprint = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const { contract_id } = req.params;
+
+  let selector: FootprintSelector;
+  try {
+    selector = parseFootprintSelector(res.locals?.parsedBody ?? req.body);
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  const stellarService = getStellarService();
+  const [latestLedgerSequence, limits] = await Promise.all([
+    stellarService.getLatestLedger(),
+    stellarService.getFootprintLimits(),
+  ]);
+  const rows = await getPrisma().$queryRaw<FootprintEntryRow[]>(
+    buildRestorableEntriesQuery(
+      contract_id,
+      latestLedgerSequence,
+      selector,
+      MAX_FOOTPRINT_ENTRIES + 1,
+    ),
+  );
+  const { entries, skipped } = resolveFootprintEntries(
+    contract_id,
+    rows.slice(0, MAX_FOOTPRINT_ENTRIES),
+  );
+
+  return res
+    .status(200)
+    .json(
+      serializeRestoreFootprint(
+        contract_id,
+        latestLedgerSequence,
+        chunkFootprintEntries(entries, limits, true),
+        skipped,
+        rows.length > MAX_FOOTPRINT_ENTRIES,
+      ),
+    );
+};
+
+/**
+ * Controller building the read-only footprints of `ExtendFootprintTTLOp`s for
+ * the live entries of a contract.
+ *
+ * Selects persistent and instance entries by default, optionally narrowed by
+ * key symbol, key hash, durability and `expiring_within` (entries whose TTL
+ * ends within that many ledgers). Entries are split into as many footprints
+ * as the network's per-transaction footprint limits require, each with
+ * `SorobanTransactionData` XDR that can be simulated to fill in resources and
+ * fees. Entries whose stored key can't be decoded are reported in `skipped`.
+ * At most MAX_FOOTPRINT_ENTRIES entries (by key hash) are covered per request;
+ * `truncated` tells when more matched.
+ *
+ * @example
+ * POST /api/contract/CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU/extend-footprint
+ * { "expiring_within": 17280 }
+ *
+ * @throws {400} When the selector is invalid
+ * @throws {500} When database query or network settings fetch fails
+ */
+export const buildExtendFootprint = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const { contract_id } = req.params;
+
+  let selector: FootprintSelector;
+  try {
+    selector = parseExtendSelector(res.locals?.parsedBody ?? req.body);
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  const stellarService = getStellarService();
+  const [latestLedgerSequence, limits] = await Promise.all([
+    stellarService.getLatestLedger(),
+    stellarService.getFootprintLimits(),
+  ]);
+  const rows = await getPrisma().$queryRaw<FootprintEntryRow[]>(
+    buildExtendableEntriesQuery(
+      contract_id,
+      latestLedgerSequence,
+      selector,
+      MAX_FOOTPRINT_ENTRIES + 1,
+    ),
+  );
+  const { entries, skipped } = resolveFootprintEntries(
+    contract_id,
+    rows.slice(0, MAX_FOOTPRINT_ENTRIES),
+  );
+
+  return res
+    .status(200)
+    .json(
+      serializeExtendFootprint(
+        contract_id,
+        latestLedgerSequence,
+        chunkFootprintEntries(entries, limits),
+        skipped,
+        rows.length > MAX_FOOTPRINT_ENTRIES,
+      ),
+    );
+};
@@ -0,0 +1,36 @@
+import { xdr } from "@stellar/stellar-sdk";
+import { Request, Response } from "express";
+import { computeContractDataKeyHash } from "../helpers/ledger_key";
+import { buildContractDataEntryQuery } from "../query-builders/contract_data";
+import { serializeContractInstance } from "../serializers/instance";
+import { ContractData } from "../types/contract_data";
+import { getPrisma } from "../utils/connect";
+import { getStellarService } from "../utils/stellar";
+
+/**
+ * Returns the instance entry of a contract: its executable (Wasm hash or
+ * Stellar Asset) and decoded instance storage. The entry is looked up by the
+ * key hash of `LedgerKeyContractInstance`, so no storage scan is needed.
+ */
+export const getContractInstance = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const { contract_id } = req.params;
+
+  const keyHash = computeContractDataKeyHash(
+    contract_id,
+    xdr.ScVal.scvLedgerKeyContractInstance(),
+    "instance",
+  );
+  const latestLedgerSequence = await getStellarService().getLatestLedger();
+  const [entry] = await getPrisma().$queryRaw<ContractData[]>(
+    buildContractDataEntryQuery(contract_id, keyHash, latestLedgerSequence),
+  );
+
+  if (!entry) {
+    return res.status(404).json({ error: "Contract instance not found" });
+  }
+
+  return res.status(200).json(serializeContractInstance(entry));
+};
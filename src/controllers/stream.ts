@@ -0,0 +1,158 @@
+import { Request, Response } from "express";
+import { Env } from "../config/env";
+import { buildContractLatestLedgerQuery } from "../query-builders/stream";
+import {
+  formatServerSentEvent,
+  formatStorageChangeEvents,
+  SSE_HEARTBEAT,
+} from "../serializers/stream";
+import { MAX_LEDGER_SEQUENCE } from "../types/contract_data";
+import {
+  STREAM_HEARTBEAT_INTERVAL_MS,
+  STREAM_RETRY_MS,
+  StorageChangeKind,
+  StorageChangeSubscriber,
+} from "../types/stream";
+import { getPrisma } from "../utils/connect";
+import { ConnectionLimiter } from "../utils/connection_limiter";
+import { getStorageChangeFeed } from "../utils/storage_feed";
+
+/**
+ * Open storage streams of this process, capped by STREAM_MAX_CONNECTIONS.
+ */
+let _streamConnections: ConnectionLimiter | undefined;
+
+const getStreamConnections = (): ConnectionLimiter => {
+  if (!_streamConnections) {
+    _streamConnections = new ConnectionLimiter(Env.streamMaxConnections);
+  }
+  return _streamConnections;
+};
+
+/**
+ * Parses the `Last-Event-ID` header of a reconnecting stream client.
+ *
+ * @param lastEventId - Raw header value
+ * @returns Last ledger sequence the client fully received, or undefined when absent
+ * @throws Error when the value is not a ledger sequence
+ */
+const parseLastEventIdHeader = (
+  lastEventId: string | undefined,
+): number | undefined => {
+  if (lastEventId === undefined || lastEventId === "") {
+    return undefined;
+  }
+  const ledger = Number(lastEventId);
+  if (
+    !/^\d+$/.test(lastEventId) ||
+    !Number.isInteger(ledger) ||
+    ledger > MAX_LEDGER_SEQUENCE
+  ) {
+    throw new Error(
+      `Invalid Last-Event-ID=${lastEventId}, must be a ledger sequence between 0 and ${MAX_LEDGER_SEQUENCE}`,
+    );
+  }
+  return ledger;
+};
+
+/**
+ * Controller streaming the storage changes of a contract as Server-Sent Events.
+ *
+ * Sends a `ready` event with the ledger the stream starts after, then an
+ * `entry` event (in the listing's entry shape) for every entry written at a
+ * higher ledger, in (ledger_sequence, key_hash) order. The last entry of each
+ * ledger has the ledger sequence as its event ID; a client reconnecting with
+ * `Last-Event-ID` resumes after that ledger. Only ledgers the indexer has
+ * moved past are sent, so each ledger is complete. New streams start after
+ * the contract's latest such ledger. Idle streams get a heartbeat comment.
+ *
+ * @example
+ * GET /api/contract/CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU/storage/stream
+ *
+ * @throws {400} When `Last-Event-ID` is not a ledger sequence
+ * @throws {503} When the process already serves STREAM_MAX_CONNECTIONS streams, or is shutting down
+ */
+export const streamContractData = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const { contract_id } = req.params;
+
+  let resumeLedger: number | undefined;
+  try {
+    resumeLedger = parseLastEventIdHeader(req.get("Last-Event-ID"));
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  const release = getStreamConnections().acquire();
+  if (!release) {
+    return res
+      .status(503)
+      .json({ error: "Too many open storage streams, try again later" });
+  }
+
+  // Registered before the first await, so a client leaving while the stream
+  // is set up still frees its slot
+  let closed = false;
+  let unsubscribe: (() => void) | undefined;
+  res.on("close", () => {
+    closed = true;
+    unsubscribe?.();
+    release();
+  });
+
+  try {
+    if (resumeLedger === undefined) {
+      const [{ ledger_sequence }] = await getPrisma().$queryRaw<
+        { ledger_sequence: number | null }[]
+      >(buildContractLatestLedgerQuery(contract_id));
+      resumeLedger = ledger_sequence ?? 0;
+    }
+    if (closed) {
+      return;
+    }
+
+    const subscriber: StorageChangeSubscriber = {
+      contractId: contract_id,
+      kind: StorageChangeKind.ENTRY,
+      cursor: { ledger: resumeLedger, keyHash: null },
+      onChanges: (rows, complete) => {
+        // A slow client gets the rows again once its buffer drains
+        if (res.writableNeedDrain) {
+          return false;
+        }
+        res.write(formatStorageChangeEvents(rows, complete));
+        return true;
+      },
+      onClose: () => {
+        res.end();
+      },
+    };
+    unsubscribe = getStorageChangeFeed().subscribe(subscriber);
+  } finally {
+    if (!unsubscribe) {
+      release();
+    }
+  }
+  if (!unsubscribe) {
+    return res.status(503).json({ error: "Storage streams are closed" });
+  }
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  // Keeps nginx-style proxies from buffering the stream
+  res.setHeader("X-Accel-Buffering", "no");
+  res.write(
+    `retry: ${STREAM_RETRY_MS}\n\n` +
+      formatServerSentEvent("ready", { ledger: resumeLedger }, resumeLedger),
+  );
+
+  const heartbeat = setInterval(() => {
+    res.write(SSE_HEARTBEAT);
+  }, STREAM_HEARTBEAT_INTERVAL_MS);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+  });
+};
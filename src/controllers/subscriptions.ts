@@ -0,0 +1,223 @@
+import WebSocket from "ws";
+import {
+  buildContractLatestLedgerQuery,
+  buildLatestTtlLedgerQuery,
+} from "../query-builders/stream";
+import { serializeContractDataResults } from "../serializers/contract_data";
+import { StorageChangeKind } from "../types/stream";
+import {
+  ContractSubscription,
+  MAX_CONTRACT_SUBSCRIPTIONS,
+  SUBSCRIPTION_MAX_BUFFERED_BYTES,
+  SubscriptionServerMessage,
+} from "../types/subscriptions";
+import { getPrisma } from "../utils/connect";
+import { getStorageChangeFeed } from "../utils/storage_feed";
+
+/**
+ * Subscription state of a WebSocket connection.
+ */
+export type SubscriptionSession = {
+  socket: WebSocket;
+  /** Subscriptions by contract ID */
+  subscriptions: Map<string, ContractSubscription>;
+  /** False until the client answers the last ping */
+  alive: boolean;
+  closed: boolean;
+};
+
+/**
+ * Message type of each kind of change.
+ */
+const CHANGE_MESSAGE_TYPES = {
+  [StorageChangeKind.ENTRY]: "storage_change",
+  [StorageChangeKind.TTL]: "ttl_change",
+} as const;
+
+/**
+ * Sends a JSON message to the client, unless the connection is closing.
+ */
+export const sendSubscriptionMessage = (
+  socket: WebSocket,
+  message: SubscriptionServerMessage,
+): void => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+/**
+ * Creates the subscription state of a new connection.
+ */
+export const createSubscriptionSession = (
+  socket: WebSocket,
+): SubscriptionSession => ({
+  socket,
+  subscriptions: new Map(),
+  alive: true,
+  closed: false,
+});
+
+/**
+ * Reads the ledger a subscription to a kind of change starts after: the
+ * contract's latest written ledger for entries, and the latest indexed TTL
+ * extension (of any contract) for TTL changes.
+ */
+const queryLatestChangeLedger = async (
+  kind: StorageChangeKind,
+  contractId: string,
+): Promise<number> => {
+  const [{ ledger_sequence }] = await getPrisma().$queryRaw<
+    { ledger_sequence: number | null }[]
+  >(
+    kind === StorageChangeKind.TTL
+      ? buildLatestTtlLedgerQuery()
+      : buildContractLatestLedgerQuery(contractId),
+  );
+  return ledger_sequence ?? 0;
+};
+
+/**
+ * Subscribes a connection to the storage and TTL changes of a contract made
+ * after its latest indexed ledger, sent as `storage_change` and `ttl_change`
+ * messages in the listing's entry shape. While the client is slow to read,
+ * changes are held back and sent once it catches up.
+ *
+ * @param session - Connection state
+ * @param contractId - Validated contract ID
+ * @param keySymbols - Key symbols to send changes of; every entry when omitted
+ */
+export const subscribeContract = async (
+  session: SubscriptionSession,
+  contractId: string,
+  keySymbols?: string[],
+): Promise<void> => {
+  if (session.subscriptions.has(contractId)) {
+    sendSubscriptionMessage(session.socket, {
+      type: "error",
+      contract_id: contractId,
+      error: `Already subscribed to ${contractId}`,
+    });
+    return;
+  }
+  if (session.subscriptions.size >= MAX_CONTRACT_SUBSCRIPTIONS) {
+    sendSubscriptionMessage(session.socket, {
+      type: "error",
+      contract_id: contractId,
+      error: `Too many subscriptions, at most ${MAX_CONTRACT_SUBSCRIPTIONS} contracts are allowed per connection`,
+    });
+    return;
+  }
+
+  // Registered before querying, so that concurrent messages see it
+  const subscription: ContractSubscription = {
+    keySymbols: keySymbols ? new Set(keySymbols) : null,
+    unsubscribes: [],
+  };
+  session.subscriptions.set(contractId, subscription);
+
+  const kinds = Object.values(StorageChangeKind);
+  let ledgers: number[];
+  try {
+    ledgers = await Promise.all(
+      kinds.map(kind => queryLatestChangeLedger(kind, contractId)),
+    );
+  } catch (e) {
+    session.subscriptions.delete(contractId);
+    throw new Error(`Failed to subscribe to ${contractId}`, { cause: e });
+  }
+  // The client unsubscribed or left while the queries ran
+  if (
+    session.closed ||
+    session.subscriptions.get(contractId) !== subscription
+  ) {
+    return;
+  }
+
+  const feed = getStorageChangeFeed();
+  for (const [index, kind] of kinds.entries()) {
+    const unsubscribe = feed.subscribe({
+      contractId,
+      kind,
+      cursor: { ledger: ledgers[index], keyHash: null },
+      onChanges: rows => {
+        if (session.socket.bufferedAmount > SUBSCRIPTION_MAX_BUFFERED_BYTES) {
+          return false;
+        }
+        const { keySymbols: filter } = subscription;
+        const matching = filter
+          ? rows.filter(row => row.key_symbol && filter.has(row.key_symbol))
+          : rows;
+        if (matching.length > 0) {
+          sendSubscriptionMessage(session.socket, {
+            type: CHANGE_MESSAGE_TYPES[kind],
+            contract_id: contractId,
+            entries: serializeContractDataResults(matching),
+          });
+        }
+        return true;
+      },
+      onClose: () => {
+        session.socket.close(1001, "Server shutting down");
+      },
+    });
+    if (!unsubscribe) {
+      subscription.unsubscribes.forEach(fn => fn());
+      session.subscriptions.delete(contractId);
+      sendSubscriptionMessage(session.socket, {
+        type: "error",
+        contract_id: contractId,
+        error: "Storage streams are closed",
+      });
+      return;
+    }
+    subscription.unsubscribes.push(unsubscribe);
+  }
+
+  sendSubscriptionMessage(session.socket, {
+    type: "subscribed",
+    contract_id: contractId,
+    key_symbols: keySymbols ?? null,
+    ledger: ledgers[0],
+  });
+};
+
+/**
+ * Removes the subscription of a connection to a contract.
+ *
+ * @param session - Connection state
+ * @param contractId - Validated contract ID
+ */
+export const unsubscribeContract = (
+  session: SubscriptionSession,
+  contractId: string,
+): void => {
+  const subscription = session.subscriptions.get(contractId);
+  if (!subscription) {
+    sendSubscriptionMessage(session.socket, {
+      type: "error",
+      contract_id: contractId,
+      error: `Not subscribed to ${contractId}`,
+    });
+    return;
+  }
+  subscription.unsubscribes.forEach(fn => fn());
+  session.subscriptions.delete(contractId);
+  sendSubscriptionMessage(session.socket, {
+    type: "unsubscribed",
+    contract_id: contractId,
+  });
+};
+
+/**
+ * Removes every subscription of a closed connection.
+ */
+export const closeSubscriptionSession = (
+  session: SubscriptionSession,
+): void => {
+  session.closed = true;
+  for (const subscription of session.subscriptions.values()) {
+    subscription.unsubscribes.forEach(fn => fn());
+  }
+  session.subscriptions.clear();
+};
@@ -0,0 +1,145 @@
+import { Request, Response } from "express";
+import { Prisma } from "../../generated/prisma";
+import {
+  assertRentLedgersWithinMaxTtl,
+  parseRentLedgersParam,
+  RentSettings,
+} from "../helpers/rent";
+import {
+  buildStatementTimeoutQuery,
+  isStatementTimeoutError,
+} from "../query-builders/contract_data";
+import {
+  buildSummaryDurabilityQuery,
+  buildSummaryKeySymbolsQuery,
+  buildSummaryRentQuery,
+  buildSummaryTotalsQuery,
+} from "../query-builders/summary";
+import { serializeContractSummary } from "../serializers/summary";
+import {
+  DEFAULT_SUMMARY_TOP_KEYS,
+  MAX_SUMMARY_TOP_KEYS,
+  SUMMARY_STATEMENT_TIMEOUT_MS,
+  SummaryDurabilityRow,
+  SummaryKeySymbolRow,
+  SummaryRentRow,
+  SummaryTotalsRow,
+} from "../types/summary";
+import { getPrisma } from "../utils/connect";
+import { getStellarService } from "../utils/stellar";
+
+/**
+ * Parses and validates the optional `top_keys` query parameter.
+ *
+ * @param topKeys - Raw query value
+ * @returns Number of key symbols to list
+ * @throws Error when the value is not an integer between 1 and MAX_SUMMARY_TOP_KEYS
+ */
+const parseTopKeysParam = (topKeys: unknown): number => {
+  if (topKeys === undefined || topKeys === "") {
+    return DEFAULT_SUMMARY_TOP_KEYS;
+  }
+  const value = typeof topKeys === "number" ? topKeys : Number(topKeys);
+  if (!Number.isInteger(value) || value < 1 || value > MAX_SUMMARY_TOP_KEYS) {
+    throw new Error(
+      `Invalid top_keys=${topKeys}, must be an integer between 1 and ${MAX_SUMMARY_TOP_KEYS}`,
+    );
+  }
+  return value;
+};
+
+/**
+ * Runs a summary query under a statement timeout, as summary queries read
+ * every entry of the contract.
+ * @param query - Summary query
+ * @returns Promise resolving to the query rows
+ */
+const withSummaryTimeout = <T>(query: Prisma.Sql): Promise<T[]> =>
+  getPrisma().$transaction(async tx => {
+    await tx.$queryRaw(
+      buildStatementTimeoutQuery(SUMMARY_STATEMENT_TIMEOUT_MS),
+    );
+    return tx.$queryRaw<T[]>(query);
+  });
+
+/**
+ * Returns storage statistics of a contract: entry counts by durability and
+ * key symbol, live vs expired entries relative to the latest ledger, stored
+ * key/value sizes, the update time range and the TTL range. With
+ * `rent_ledgers`, also estimates the rent of extending every extendable entry.
+ */
+export const getContractSummary = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const { contract_id } = req.params;
+
+  let topKeys: number;
+  let rentLedgers: number | undefined;
+  try {
+    const query = res.locals?.parsedQuery ?? req.query;
+    topKeys = parseTopKeysParam(query.top_keys);
+    rentLedgers = parseRentLedgersParam(query.rent_ledgers);
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  let rentSettings: RentSettings | undefined;
+  if (rentLedgers !== undefined) {
+    rentSettings = await getStellarService().getRentSettings();
+    try {
+      assertRentLedgersWithinMaxTtl(rentSettings, rentLedgers);
+    } catch (e) {
+      return res.status(400).json({ error: (e as Error).message });
+    }
+  }
+
+  const latestLedgerSequence = await getStellarService().getLatestLedger();
+  let results: [
+    SummaryTotalsRow[],
+    SummaryDurabilityRow[],
+    SummaryKeySymbolRow[],
+    SummaryRentRow[],
+  ];
+  try {
+    results = await Promise.all([
+      withSummaryTimeout<SummaryTotalsRow>(
+        buildSummaryTotalsQuery(contract_id, latestLedgerSequence),
+      ),
+      withSummaryTimeout<SummaryDurabilityRow>(
+        buildSummaryDurabilityQuery(contract_id),
+      ),
+      withSummaryTimeout<SummaryKeySymbolRow>(
+        buildSummaryKeySymbolsQuery(contract_id, topKeys),
+      ),
+      rentSettings
+        ? withSummaryTimeout<SummaryRentRow>(
+            buildSummaryRentQuery(contract_id, latestLedgerSequence),
+          )
+        : Promise.resolve([]),
+    ]);
+  } catch (e) {
+    if (isStatementTimeoutError(e)) {
+      return res.status(503).json({
+        error: "Summary timed out, the contract has too many entries",
+      });
+    }
+    throw e;
+  }
+  const [[totals], durabilityRows, keySymbolRows, rentRows] = results;
+
+  return res
+    .status(200)
+    .json(
+      serializeContractSummary(
+        contract_id,
+        latestLedgerSequence,
+        totals,
+        durabilityRows,
+        keySymbolRows,
+        rentSettings && rentLedgers !== undefined
+          ? { settings: rentSettings, ledgers: rentLedgers, rows: rentRows }
+          : undefined,
+      ),
+    );
+};
@@ -0,0 +1,195 @@
+import { randomUUID } from "crypto";
+import { Request, Response } from "express";
+import { assertPublicWebhookUrl } from "../helpers/webhook";
+import { buildContractLatestLedgerQuery } from "../query-builders/stream";
+import {
+  buildDeleteWebhookQuery,
+  buildInsertWebhookQuery,
+  buildWebhookByIdQuery,
+  buildWebhookCountQuery,
+  buildWebhookDeliveriesQuery,
+  buildWebhookRegistrationLockQuery,
+} from "../query-builders/webhook";
+import {
+  serializeWebhook,
+  serializeWebhookDeliveries,
+} from "../serializers/webhook";
+import {
+  DEFAULT_WEBHOOK_DELIVERIES_LIMIT,
+  MAX_WEBHOOKS,
+  MAX_WEBHOOKS_PER_CONTRACT,
+  WebhookDeliveryRow,
+  WebhookDeliveryStatus,
+  WebhookRegistration,
+  WebhookRow,
+} from "../types/webhook";
+import { getPrisma } from "../utils/connect";
+
+/**
+ * Reads a webhook by ID.
+ * @returns The webhook row, or undefined when it doesn't exist
+ */
+const findWebhook = async (id: string): Promise<WebhookRow | undefined> => {
+  const [row] = await getPrisma().$queryRaw<WebhookRow[]>(
+    buildWebhookByIdQuery(id),
+  );
+  return row;
+};
+
+/**
+ * Controller registering a webhook for the storage changes of a contract.
+ *
+ * The webhook receives the entries written after the contract's latest
+ * indexed ledger, optionally narrowed to some key symbols, as signed POST
+ * requests to its URL. The secret is stored to sign deliveries and is never
+ * returned. The URL must resolve to public addresses only.
+ *
+ * @example
+ * POST /api/webhooks
+ * { "contract_id": "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU", "url": "https://example.com/hook", "secret": "…", "key_symbols": ["Balance"] }
+ *
+ * @throws {400} When the URL doesn't resolve to public addresses, or the contract already has MAX_WEBHOOKS_PER_CONTRACT webhooks
+ * @throws {503} When MAX_WEBHOOKS webhooks are registered
+ * @throws {500} When database query fails
+ */
+export const createWebhook = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const { contract_id, url, secret, key_symbols } = (res.locals?.parsedBody ??
+    req.body) as WebhookRegistration;
+
+  try {
+    await assertPublicWebhookUrl(url);
+  } catch (e) {
+    return res.status(400).json({ error: (e as Error).message });
+  }
+
+  const [{ ledger_sequence }] = await getPrisma().$queryRaw<
+    { ledger_sequence: number | null }[]
+  >(buildContractLatestLedgerQuery(contract_id));
+
+  const result = await getPrisma().$transaction(
+    async (
+      tx,
+    ): Promise<{ row: WebhookRow } | { status: number; error: string }> => {
+      await tx.$executeRaw(buildWebhookRegistrationLockQuery());
+      const [{ count, total }] = await tx.$queryRaw<
+        { count: number; total: number }[]
+      >(buildWebhookCountQuery(contract_id));
+      if (count >= MAX_WEBHOOKS_PER_CONTRACT) {
+        return {
+          status: 400,
+          error: `Too many webhooks for ${contract_id}, at most ${MAX_WEBHOOKS_PER_CONTRACT} are allowed per contract`,
+        };
+      }
+      if (total >= MAX_WEBHOOKS) {
+        return {
+          status: 503,
+          error: `Too many webhooks, at most ${MAX_WEBHOOKS} can be registered`,
+        };
+      }
+      const [row] = await tx.$queryRaw<WebhookRow[]>(
+        buildInsertWebhookQuery(
+          randomUUID(),
+          {
+            contract_id,
+            url,
+            secret,
+            key_symbols: key_symbols && [...new Set(key_symbols)].sort(),
+          },
+          ledger_sequence ?? 0,
+        ),
+      );
+      return { row };
+    },
+  );
+
+  if ("error" in result) {
+    return res.status(result.status).json({ error: result.error });
+  }
+  return res.status(201).json(serializeWebhook(result.row));
+};
+
+/**
+ * Controller returning a webhook registration.
+ *
+ * @example
+ * GET /api/webhooks/3f1c2b9e-7c4d-4a53-9a0e-2d6b1f8e5a10
+ *
+ * @throws {404} When the webhook doesn't exist
+ * @throws {500} When database query fails
+ */
+export const getWebhook = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const row = await findWebhook(req.params.webhook_id);
+  if (!row) {
+    return res.status(404).json({ error: "Webhook not found" });
+  }
+  return res.status(200).json(serializeWebhook(row));
+};
+
+/**
+ * Controller deleting a webhook and its delivery log. Pending deliveries are
+ * not sent.
+ *
+ * @example
+ * DELETE /api/webhooks/3f1c2b9e-7c4d-4a53-9a0e-2d6b1f8e5a10
+ *
+ * @throws {404} When the webhook doesn't exist
+ * @throws {500} When database query fails
+ */
+export const deleteWebhook = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const deleted = await getPrisma().$queryRaw<{ id: string }[]>(
+    buildDeleteWebhookQuery(req.params.webhook_id),
+  );
+  if (deleted.length === 0) {
+    return res.status(404).json({ error: "Webhook not found" });
+  }
+  return res.status(204).send();
+};
+
+/**
+ * Controller returning the delivery log of a webhook, newest first: the
+ * status, attempt count and last receiver answer of each delivery.
+ *
+ * @example
+ * GET /api/webhooks/3f1c2b9e-7c4d-4a53-9a0e-2d6b1f8e5a10/deliveries?status=failed&limit=20
+ *
+ * @throws {404} When the webhook doesn't exist
+ * @throws {500} When database query fails
+ */
+export const getWebhookDeliveries = async (
+  req: Request,
+  res: Response,
+): Promise<void | Response> => {
+  const { webhook_id } = req.params;
+  const { status, limit } = (res.locals?.parsedQuery ?? req.query) as {
+    status?: WebhookDeliveryStatus;
+    limit?: number;
+  };
+
+  const row = await findWebhook(webhook_id);
+  if (!row) {
+    return res.status(404).json({ error: "Webhook not found" });
+  }
+  const deliveries = await getPrisma().$queryRaw<
+    Omit<WebhookDeliveryRow, "payload">[]
+  >(
+    buildWebhookDeliveriesQuery(
+      webhook_id,
+      status,
+      limit ?? DEFAULT_WEBHOOK_DELIVERIES_LIMIT,
+    ),
+  );
+
+  return res.status(200).json({
+    webhook_id,
+    deliveries: serializeWebhookDeliveries(deliveries),
+  });
+};
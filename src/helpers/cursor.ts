@@ -9,6 +9,7 @@
 
 import { z } from "zod";
 import { logger } from "../utils/logger";
+import { STORAGE_DURABILITIES } from "./ledger_key";
 
 /**
  * Custom error thrown when a cursor string cannot be decoded or parsed.
@@ -24,14 +25,25 @@ export class InvalidCursorError extends Error {
  * Sort fields that expect a numeric sortValue in the cursor.
  * - ttl: stored as live_until_ledger_sequence (int)
  * - updated_at: stored as Unix timestamp in seconds (int)
+ * - ledger_sequence: stored as int
+ * - size: key plus value XDR size in bytes (int)
  */
-const NUMERIC_SORT_FIELDS: ReadonlySet<string> = new Set(["ttl", "updated_at"]);
+const NUMERIC_SORT_FIELDS: ReadonlySet<string> = new Set([
+  "ttl",
+  "updated_at",
+  "ledger_sequence",
+  "size",
+]);
 
 /**
  * Sort fields that expect a string sortValue in the cursor.
  * - durability: stored as text (e.g. "persistent", "instance", "temporary")
+ * - key_symbol: stored as text, NULL for keys without a leading symbol
  */
-const STRING_SORT_FIELDS: ReadonlySet<string> = new Set(["durability"]);
+const STRING_SORT_FIELDS: ReadonlySet<string> = new Set([
+  "durability",
+  "key_symbol",
+]);
 
 /**
  * All recognized sort fields (used to reject unknown values).
@@ -39,6 +51,9 @@ const STRING_SORT_FIELDS: ReadonlySet<string> = new Set(["durability"]);
 const VALID_SORT_FIELDS: ReadonlySet<string> = new Set([
   "key_hash",
   "durability",
+  "key_symbol",
+  "ledger_sequence",
+  "size",
   "ttl",
   "updated_at",
 ]);
@@ -50,12 +65,34 @@ export type CursorData = {
   cursorType: "next" | "prev";
   sortField?: string;
   sortDirection?: string;
-  filterKey?: string;
+  /** Key symbol list filter (sorted, de-duplicated) the cursor was generated with */
+  filterKey?: string[];
+  /** Key symbol search filters the cursor was generated with */
+  keyPrefix?: string;
+  keyContains?: string;
+  /** Key argument filters (`key_arg.N`, in index order) the cursor was generated with */
+  keyArgs?: string[];
+  /** Decoded value search term the cursor was generated with */
+  valueContains?: string;
+  /** Durability filter (sorted, de-duplicated) the cursor was generated with */
+  durability?: string[];
+  /** Live/expired status filter the cursor was generated with */
+  status?: string;
+  /** `expiring_within` filter (in ledgers) the cursor was generated with */
+  expiringWithin?: number;
+  /** Time range filters (Unix seconds) the cursor was generated with */
+  updatedAfter?: number;
+  updatedBefore?: number;
+  /** Ledger range filters the cursor was generated with */
+  ledgerFrom?: number;
+  ledgerTo?: number;
+  /** Reference ledger pinned by status-filtered listings so pages stay consistent */
+  ledger?: number;
   /** Position information for pagination. Stores the `key_hash` and `sortValue` of the boundary record used for next/prev navigation */
   position: {
     /** Key hash of the boundary record for pagination, used as the primary key */
     keyHash: string;
-    /** The value of the sort field (number for ttl/updated_at, string for durability) */
+    /** The value of the sort field (number for ttl/updated_at/ledger_sequence, string for durability/key_symbol); omitted when NULL */
     sortValue?: number | string | bigint;
   };
 };
@@ -68,7 +105,22 @@ const cursorDataSchema = z
     cursorType: z.enum(["next", "prev"]),
     sortField: z.string().optional(),
     sortDirection: z.enum(["asc", "desc"]).optional(),
-    filterKey: z.string().optional(),
+    // Cursors issued before filter_key accepted a list carry a single string
+    filterKey: z
+      .union([z.array(z.string()), z.string().transform(key => [key])])
+      .optional(),
+    keyPrefix: z.string().optional(),
+    keyContains: z.string().optional(),
+    keyArgs: z.array(z.string()).optional(),
+    valueContains: z.string().optional(),
+    durability: z.array(z.enum(STORAGE_DURABILITIES)).optional(),
+    status: z.enum(["live", "expired"]).optional(),
+    expiringWithin: z.number().int().nonnegative().optional(),
+    ledger: z.number().int().positive().optional(),
+    updatedAfter: z.number().optional(),
+    updatedBefore: z.number().optional(),
+    ledgerFrom: z.number().int().nonnegative().optional(),
+    ledgerTo: z.number().int().nonnegative().optional(),
     position: z.object({
       keyHash: z.string(),
       sortValue: z.union([z.number(), z.string()]).optional(),
@@ -153,7 +205,7 @@ export const encodeCursor = (cursorData: CursorData): string => {
 /**
  * Decodes and validates a pagination cursor from API requests.
  * Validates both structure and type consistency (e.g. numeric sortValue
- * for ttl/updated_at, string sortValue for durability).
+ * for ttl/updated_at/ledger_sequence, string sortValue for durability/key_symbol).
  *
  * @param cursor - Base64 encoded cursor string
  * @returns Validated CursorData
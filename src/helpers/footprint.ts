@@ -0,0 +1,108 @@
+/**
+ * Soroban footprint limit helpers
+ *
+ * A transaction's footprint is bounded by the network's per-transaction
+ * limits; footprints covering more entries are split into several
+ * transactions.
+ */
+
+import { xdr } from "@stellar/stellar-sdk";
+import { CONTRACT_DATA_ENTRY_OVERHEAD_BYTES } from "./rent";
+
+/**
+ * Per-transaction footprint limits, read from the network's contract ledger
+ * cost and ledger cost ext `ConfigSettingEntry`s.
+ */
+export type FootprintLimits = {
+  txMaxFootprintEntries: number;
+  txMaxDiskReadEntries: number;
+  txMaxDiskReadBytes: number;
+  txMaxWriteLedgerEntries: number;
+  txMaxWriteBytes: number;
+};
+
+/**
+ * Builds footprint limits from the network's config setting entries.
+ * @param entries - Config setting entries including contract ledger cost and
+ * ledger cost ext, in any order
+ * @returns Footprint limits
+ * @throws Error when one of the settings is missing
+ */
+export const parseFootprintLimits = (
+  entries: xdr.ConfigSettingEntry[],
+): FootprintLimits => {
+  const find = (id: xdr.ConfigSettingId): xdr.ConfigSettingEntry => {
+    const entry = entries.find(e => e.switch().value === id.value);
+    if (!entry) {
+      throw new Error(`Missing config setting ${id.name}`);
+    }
+    return entry;
+  };
+
+  const ledgerCost = find(
+    xdr.ConfigSettingId.configSettingContractLedgerCostV0(),
+  ).contractLedgerCost();
+  const ledgerCostExt = find(
+    xdr.ConfigSettingId.configSettingContractLedgerCostExtV0(),
+  ).contractLedgerCostExt();
+
+  return {
+    txMaxFootprintEntries: ledgerCostExt.txMaxFootprintEntries(),
+    txMaxDiskReadEntries: ledgerCost.txMaxDiskReadEntries(),
+    txMaxDiskReadBytes: ledgerCost.txMaxDiskReadBytes(),
+    txMaxWriteLedgerEntries: ledgerCost.txMaxWriteLedgerEntries(),
+    txMaxWriteBytes: ledgerCost.txMaxWriteBytes(),
+  };
+};
+
+/**
+ * Splits entries into consecutive chunks that each fit in one transaction's
+ * footprint. Chunks are bounded by the footprint entry limit and, to stay
+ * valid when entries are read from disk, by the disk read entry and byte
+ * limits (using each entry's ledger entry size). Read-write footprints are
+ * also bounded by the write entry and byte limits. An entry larger than the
+ * byte limit on its own gets a chunk of its own.
+ * @param rows - Entries in footprint order
+ * @param limits - Network footprint limits
+ * @param readWrite - Whether every entry is written (e.g. restored)
+ * @returns Chunks of entries, in order
+ */
+export const chunkFootprintEntries = <T extends { size_bytes: number }>(
+  rows: T[],
+  limits: FootprintLimits,
+  readWrite = false,
+): T[][] => {
+  const maxEntries = Math.max(
+    1,
+    Math.min(
+      limits.txMaxFootprintEntries,
+      limits.txMaxDiskReadEntries,
+      readWrite ? limits.txMaxWriteLedgerEntries : Infinity,
+    ),
+  );
+  const maxBytes = Math.min(
+    limits.txMaxDiskReadBytes,
+    readWrite ? limits.txMaxWriteBytes : Infinity,
+  );
+
+  const chunks: T[][] = [];
+  let chunk: T[] = [];
+  let chunkBytes = 0;
+  for (const row of rows) {
+    const entryBytes = row.size_bytes + CONTRACT_DATA_ENTRY_OVERHEAD_BYTES;
+    if (
+      chunk.length > 0 &&
+      (chunk.length >= maxEntries || chunkBytes + entryBytes > maxBytes)
+    ) {
+      chunks.push(chunk);
+      chunk = [];
+      chunkBytes = 0;
+    }
+    chunk.push(row);
+    chunkBytes += entryBytes;
+  }
+  if (chunk.length > 0) {
+    chunks.push(chunk);
+  }
+  return chunks;
+};
@@ -0,0 +1,73 @@
+/**
+ * Contract data ledger key helpers
+ *
+ * Rebuilds the `LedgerKey` of a contract data entry and derives its
+ * `key_hash` the same way the indexer does: hex-encoded SHA-256 of the
+ * LedgerKey XDR.
+ */
+
+import { Address, hash, xdr } from "@stellar/stellar-sdk";
+
+/**
+ * Durability labels stored in `contract_data.durability`.
+ * `instance` is the contract's instance entry, stored on-chain as persistent.
+ */
+export const STORAGE_DURABILITIES = [
+  "persistent",
+  "temporary",
+  "instance",
+] as const;
+
+export type StorageDurability = (typeof STORAGE_DURABILITIES)[number];
+
+/**
+ * Maps a stored durability label to the on-chain `ContractDataDurability`.
+ */
+const toContractDataDurability = (
+  durability: StorageDurability,
+): xdr.ContractDataDurability =>
+  durability === "temporary"
+    ? xdr.ContractDataDurability.temporary()
+    : xdr.ContractDataDurability.persistent();
+
+/**
+ * Builds the `LedgerKey` of a contract data entry.
+ * @param contractId - Contract StrKey (C...)
+ * @param key - Storage key ScVal
+ * @param durability - Stored durability label
+ * @returns LedgerKey for the entry
+ */
+export const buildContractDataLedgerKey = (
+  contractId: string,
+  key: xdr.ScVal,
+  durability: StorageDurability,
+): xdr.LedgerKey =>
+  xdr.LedgerKey.contractData(
+    new xdr.LedgerKeyContractData({
+      contract: new Address(contractId).toScAddress(),
+      key,
+      durability: toContractDataDurability(durability),
+    }),
+  );
+
+/**
+ * Computes the `key_hash` (primary key of `contract_data`) for a ledger key.
+ * @param ledgerKey - LedgerKey of the entry
+ * @returns Lowercase hex SHA-256 of the LedgerKey XDR
+ */
+export const computeLedgerKeyHash = (ledgerKey: xdr.LedgerKey): string =>
+  hash(ledgerKey.toXDR()).toString("hex");
+
+/**
+ * Computes the `key_hash` of a contract data entry from its logical key.
+ * @param contractId - Contract StrKey (C...)
+ * @param key - Storage key ScVal
+ * @param durability - Stored durability label
+ * @returns Lowercase hex SHA-256 of the LedgerKey XDR
+ */
+export const computeContractDataKeyHash = (
+  contractId: string,
+  key: xdr.ScVal,
+  durability: StorageDurability,
+): string =>
+  computeLedgerKeyHash(buildContractDataLedgerKey(contractId, key, durability));
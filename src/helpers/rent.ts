@@ -0,0 +1,226 @@
+/**
+ * Soroban rent fee estimation helpers
+ *
+ * Mirrors the rent part of the Soroban resource fee (protocol 23+): the rent
+ * rate per 1KB follows the average live Soroban state size, and extending an
+ * entry's TTL costs rent for its ledger entry size over the extension plus
+ * the write of its TTL entry.
+ */
+
+import { xdr } from "@stellar/stellar-sdk";
+import { MAX_RENT_LEDGERS } from "../types/contract_data";
+import { StorageDurability } from "./ledger_key";
+
+/**
+ * Network settings needed for rent estimates, read from the network's
+ * `ConfigSettingEntry`s (ledger cost, ledger cost ext, state archival and the
+ * live Soroban state size window).
+ */
+export type RentSettings = {
+  persistentRentRateDenominator: number;
+  tempRentRateDenominator: number;
+  sorobanStateTargetSizeBytes: number;
+  rentFee1KbSorobanStateSizeLow: number;
+  rentFee1KbSorobanStateSizeHigh: number;
+  sorobanStateRentFeeGrowthFactor: number;
+  /** Average of the live Soroban state size window */
+  sorobanStateSizeBytes: number;
+  feeWriteLedgerEntry: number;
+  feeWrite1Kb: number;
+  maxEntryTtl: number;
+};
+
+/**
+ * Bytes a contract data `LedgerEntry` adds around its key and value XDR:
+ * last modified ledger, entry type, entry ext, contract address, durability
+ * and ledger entry ext.
+ */
+export const CONTRACT_DATA_ENTRY_OVERHEAD_BYTES = 56;
+
+/**
+ * Size of the TTL entry written when an entry's TTL is extended.
+ */
+const TTL_ENTRY_SIZE_BYTES = 48n;
+
+/**
+ * Lower bound of the rent rate per 1KB applied by the network.
+ */
+const MINIMUM_RENT_FEE_PER_1KB = 1000n;
+
+/**
+ * Builds rent settings from the network's config setting entries.
+ * @param entries - Contract ledger cost, ledger cost ext, state archival and
+ * live Soroban state size window settings, in any order
+ * @returns Rent settings
+ * @throws Error when one of the settings is missing
+ */
+export const parseRentSettings = (
+  entries: xdr.ConfigSettingEntry[],
+): RentSettings => {
+  const find = (id: xdr.ConfigSettingId): xdr.ConfigSettingEntry => {
+    const entry = entries.find(e => e.switch().value === id.value);
+    if (!entry) {
+      throw new Error(`Missing config setting ${id.name}`);
+    }
+    return entry;
+  };
+
+  const ledgerCost = find(
+    xdr.ConfigSettingId.configSettingContractLedgerCostV0(),
+  ).contractLedgerCost();
+  const ledgerCostExt = find(
+    xdr.ConfigSettingId.configSettingContractLedgerCostExtV0(),
+  ).contractLedgerCostExt();
+  const stateArchival = find(
+    xdr.ConfigSettingId.configSettingStateArchival(),
+  ).stateArchivalSettings();
+  const stateSizeWindow = find(
+    xdr.ConfigSettingId.configSettingLiveSorobanStateSizeWindow(),
+  ).liveSorobanStateSizeWindow();
+
+  const windowTotal = stateSizeWindow.reduce(
+    (total, size) => total + size.toBigInt(),
+    0n,
+  );
+  return {
+    persistentRentRateDenominator: Number(
+      stateArchival.persistentRentRateDenominator().toBigInt(),
+    ),
+    tempRentRateDenominator: Number(
+      stateArchival.tempRentRateDenominator().toBigInt(),
+    ),
+    sorobanStateTargetSizeBytes: Number(
+      ledgerCost.sorobanStateTargetSizeBytes().toBigInt(),
+    ),
+    rentFee1KbSorobanStateSizeLow: Number(
+      ledgerCost.rentFee1KbSorobanStateSizeLow().toBigInt(),
+    ),
+    rentFee1KbSorobanStateSizeHigh: Number(
+      ledgerCost.rentFee1KbSorobanStateSizeHigh().toBigInt(),
+    ),
+    sorobanStateRentFeeGrowthFactor:
+      ledgerCost.sorobanStateRentFeeGrowthFactor(),
+    sorobanStateSizeBytes:
+      stateSizeWindow.length > 0
+        ? Number(windowTotal / BigInt(stateSizeWindow.length))
+        : 0,
+    feeWriteLedgerEntry: Number(ledgerCost.feeWriteLedgerEntry().toBigInt()),
+    feeWrite1Kb: Number(ledgerCostExt.feeWrite1Kb().toBigInt()),
+    maxEntryTtl: stateArchival.maxEntryTtl(),
+  };
+};
+
+/**
+ * Parses and validates the optional `rent_ledgers` query parameter.
+ *
+ * @param rentLedgers - Raw query value
+ * @returns Number of ledgers to estimate rent for, or undefined when not provided
+ * @throws Error when the value is not an integer between 1 and MAX_RENT_LEDGERS
+ */
+export const parseRentLedgersParam = (
+  rentLedgers: unknown,
+): number | undefined => {
+  if (rentLedgers === undefined || rentLedgers === "") {
+    return undefined;
+  }
+  const value =
+    typeof rentLedgers === "number" ? rentLedgers : Number(rentLedgers);
+  if (!Number.isInteger(value) || value < 1 || value > MAX_RENT_LEDGERS) {
+    throw new Error(
+      `Invalid rent_ledgers=${rentLedgers}, must be an integer between 1 and ${MAX_RENT_LEDGERS}`,
+    );
+  }
+  return value;
+};
+
+/**
+ * Throws when an extension is longer than the network allows.
+ * @param settings - Network rent settings
+ * @param ledgers - Requested `rent_ledgers`
+ */
+export const assertRentLedgersWithinMaxTtl = (
+  settings: RentSettings,
+  ledgers: number,
+): void => {
+  if (ledgers > settings.maxEntryTtl) {
+    throw new Error(
+      `Invalid rent_ledgers=${ledgers}, exceeds the network's max entry TTL of ${settings.maxEntryTtl} ledgers`,
+    );
+  }
+};
+
+const divCeil = (numerator: bigint, denominator: bigint): bigint =>
+  (numerator + denominator - 1n) / denominator;
+
+/**
+ * Computes the current rent rate per 1KB (stroops per ledger-KB before the
+ * durability denominator) from the Soroban state size.
+ * @param settings - Network rent settings
+ * @returns Rent fee per 1KB, in stroops
+ */
+export const computeRentFeePer1Kb = (settings: RentSettings): bigint => {
+  const low = BigInt(settings.rentFee1KbSorobanStateSizeLow);
+  const high = BigInt(settings.rentFee1KbSorobanStateSizeHigh);
+  const target = BigInt(Math.max(settings.sorobanStateTargetSizeBytes, 1));
+  const stateSize = BigInt(settings.sorobanStateSizeBytes);
+  const multiplier = high - low;
+
+  const fee =
+    stateSize < target
+      ? divCeil(multiplier * stateSize, target) + low
+      : high +
+        divCeil(
+          multiplier *
+            (stateSize - target) *
+            BigInt(settings.sorobanStateRentFeeGrowthFactor),
+          target,
+        );
+  return fee > MINIMUM_RENT_FEE_PER_1KB ? fee : MINIMUM_RENT_FEE_PER_1KB;
+};
+
+/**
+ * Estimates the rent fee of extending the TTL of contract data entries.
+ * For several entries, sizes are summed before rounding, so the result can be
+ * lower than the sum of per-entry estimates by at most 1 stroop per entry.
+ * @param settings - Network rent settings
+ * @param params.durability - Durability of the entries (instance entries pay persistent rent)
+ * @param params.entries - Number of entries
+ * @param params.sizeBytes - Total key and value XDR size of the entries
+ * @param params.ledgers - Number of ledgers to extend the TTL by
+ * @returns Rent fee in stroops
+ */
+export const estimateRentFee = (
+  settings: RentSettings,
+  {
+    durability,
+    entries,
+    sizeBytes,
+    ledgers,
+  }: {
+    durability: StorageDurability;
+    entries: number;
+    sizeBytes: number;
+    ledgers: number;
+  },
+): number => {
+  if (entries === 0) {
+    return 0;
+  }
+  const count = BigInt(entries);
+  const entrySizeBytes =
+    BigInt(sizeBytes) + count * BigInt(CONTRACT_DATA_ENTRY_OVERHEAD_BYTES);
+  const rentRateDenominator = BigInt(
+    durability === "temporary"
+      ? settings.tempRentRateDenominator
+      : settings.persistentRentRateDenominator,
+  );
+
+  const rent = divCeil(
+    entrySizeBytes * computeRentFeePer1Kb(settings) * BigInt(ledgers),
+    1024n * rentRateDenominator,
+  );
+  const ttlWrites =
+    count * BigInt(settings.feeWriteLedgerEntry) +
+    divCeil(BigInt(settings.feeWrite1Kb) * count * TTL_ENTRY_SIZE_BYTES, 1024n);
+  return Number(rent + ttlWrites);
+};
@@ -0,0 +1,441 @@
+/**
+ * ScVal → typed JSON conversion helpers
+ *
+ * Converts Soroban `ScVal` XDR into a JSON tree that keeps the original
+ * ScVal type of every node, so clients can render storage keys and values
+ * without shipping their own XDR decoder. Large integers are emitted as
+ * decimal strings and addresses as StrKeys to stay lossless in JSON.
+ * The reverse conversion accepts the same format so clients can send keys
+ * back as JSON instead of XDR.
+ */
+
+import {
+  Address,
+  nativeToScVal,
+  scValToBigInt,
+  xdr,
+} from "@stellar/stellar-sdk";
+import { z } from "zod";
+
+/**
+ * Typed JSON representation of a Soroban `ScVal`.
+ */
+export type ScValJson =
+  | { type: "void"; value: null }
+  | { type: "bool"; value: boolean }
+  | { type: "u32" | "i32"; value: number }
+  | {
+      type:
+        | "u64"
+        | "i64"
+        | "timepoint"
+        | "duration"
+        | "u128"
+        | "i128"
+        | "u256"
+        | "i256";
+      value: string;
+    }
+  | { type: "bytes"; value: string }
+  | { type: "string" | "symbol"; value: string }
+  | { type: "address"; value: string }
+  | { type: "vec"; value: ScValJson[] | null }
+  | { type: "map"; value: ScMapEntryJson[] | null }
+  | { type: "error"; value: { type: string; code: number | string } }
+  | { type: "contract_instance"; value: ContractInstanceJson }
+  | { type: "ledger_key_contract_instance"; value: null }
+  | { type: "ledger_key_nonce"; value: string };
+
+export type ScMapEntryJson = {
+  key: ScValJson;
+  value: ScValJson;
+};
+
+export type ContractInstanceJson = {
+  executable:
+    | { type: "wasm"; wasm_hash: string }
+    | { type: "stellar_asset"; wasm_hash: null };
+  storage: ScMapEntryJson[] | null;
+};
+
+/**
+ * Converts a list of `ScMapEntry` into typed JSON key/value pairs.
+ */
+const scMapToJson = (
+  entries: xdr.ScMapEntry[] | null,
+): ScMapEntryJson[] | null =>
+  entries
+    ? entries.map(entry => ({
+        key: scValToJson(entry.key()),
+        value: scValToJson(entry.val()),
+      }))
+    : null;
+
+/**
+ * Converts a decoded `ContractInstance` (executable + instance storage) into JSON.
+ */
+export const contractInstanceToJson = (
+  instance: xdr.ScContractInstance,
+): ContractInstanceJson => {
+  const executable = instance.executable();
+  return {
+    executable:
+      executable.switch() ===
+      xdr.ContractExecutableType.contractExecutableWasm()
+        ? { type: "wasm", wasm_hash: executable.wasmHash().toString("hex") }
+        : { type: "stellar_asset", wasm_hash: null },
+    storage: scMapToJson(instance.storage() ?? null),
+  };
+};
+
+/**
+ * Converts an `ScVal` into its typed JSON representation.
+ * @param val - Decoded ScVal
+ * @returns Typed JSON tree (nested for vec, map and contract instance values)
+ * @throws Error for ScVal types not known to this API
+ */
+export const scValToJson = (val: xdr.ScVal): ScValJson => {
+  switch (val.switch()) {
+    case xdr.ScValType.scvVoid():
+      return { type: "void", value: null };
+    case xdr.ScValType.scvBool():
+      return { type: "bool", value: val.b() };
+    case xdr.ScValType.scvU32():
+      return { type: "u32", value: val.u32() };
+    case xdr.ScValType.scvI32():
+      return { type: "i32", value: val.i32() };
+    case xdr.ScValType.scvU64():
+      return { type: "u64", value: val.u64().toString() };
+    case xdr.ScValType.scvI64():
+      return { type: "i64", value: val.i64().toString() };
+    case xdr.ScValType.scvTimepoint():
+      return { type: "timepoint", value: val.timepoint().toString() };
+    case xdr.ScValType.scvDuration():
+      return { type: "duration", value: val.duration().toString() };
+    case xdr.ScValType.scvU128():
+      return { type: "u128", value: scValToBigInt(val).toString() };
+    case xdr.ScValType.scvI128():
+      return { type: "i128", value: scValToBigInt(val).toString() };
+    case xdr.ScValType.scvU256():
+      return { type: "u256", value: scValToBigInt(val).toString() };
+    case xdr.ScValType.scvI256():
+      return { type: "i256", value: scValToBigInt(val).toString() };
+    case xdr.ScValType.scvBytes():
+      return { type: "bytes", value: val.bytes().toString("hex") };
+    case xdr.ScValType.scvString():
+      return { type: "string", value: val.str().toString() };
+    case xdr.ScValType.scvSymbol():
+      return { type: "symbol", value: val.sym().toString() };
+    case xdr.ScValType.scvAddress():
+      return {
+        type: "address",
+        value: Address.fromScAddress(val.address()).toString(),
+      };
+    case xdr.ScValType.scvVec():
+      return {
+        type: "vec",
+        value: val.vec()?.map(scValToJson) ?? null,
+      };
+    case xdr.ScValType.scvMap():
+      return { type: "map", value: scMapToJson(val.map() ?? null) };
+    case xdr.ScValType.scvError(): {
+      const error = val.error();
+      return {
+        type: "error",
+        value:
+          error.switch() === xdr.ScErrorType.sceContract()
+            ? { type: error.switch().name, code: error.contractCode() }
+            : { type: error.switch().name, code: error.code().name },
+      };
+    }
+    case xdr.ScValType.scvContractInstance():
+      return {
+        type: "contract_instance",
+        value: contractInstanceToJson(val.instance()),
+      };
+    case xdr.ScValType.scvLedgerKeyContractInstance():
+      return { type: "ledger_key_contract_instance", value: null };
+    case xdr.ScValType.scvLedgerKeyNonce():
+      return {
+        type: "ledger_key_nonce",
+        value: val.nonceKey().nonce().toString(),
+      };
+    default:
+      throw new Error(`Unsupported ScVal type: ${val.switch().name}`);
+  }
+};
+
+/**
+ * Decodes a base64 ScVal XDR string into typed JSON.
+ * @param base64Xdr - Base64-encoded ScVal XDR
+ * @returns Typed JSON tree
+ * @throws Error when the input is not a valid ScVal
+ */
+export const decodeScValXdr = (base64Xdr: string): ScValJson =>
+  scValToJson(xdr.ScVal.fromXDR(base64Xdr, "base64"));
+
+/**
+ * Checks whether any address, string, symbol or integer inside a typed JSON
+ * ScVal contains `term` (case-sensitive). Vec items, map keys and values, and
+ * contract instance storage are searched recursively; other types never match.
+ * @param json - Typed JSON tree
+ * @param term - Text to look for
+ * @returns True when a searchable leaf contains the term
+ */
+export const scValContainsText = (json: ScValJson, term: string): boolean => {
+  const mapContainsText = (entries: ScMapEntryJson[] | null) =>
+    (entries ?? []).some(
+      entry =>
+        scValContainsText(entry.key, term) ||
+        scValContainsText(entry.value, term),
+    );
+
+  switch (json.type) {
+    case "address":
+    case "string":
+    case "symbol":
+    case "u64":
+    case "i64":
+    case "timepoint":
+    case "duration":
+    case "u128":
+    case "i128":
+    case "u256":
+    case "i256":
+      return json.value.includes(term);
+    case "u32":
+    case "i32":
+      return String(json.value).includes(term);
+    case "vec":
+      return (json.value ?? []).some(item => scValContainsText(item, term));
+    case "map":
+      return mapContainsText(json.value);
+    case "contract_instance":
+      return mapContainsText(json.value.storage);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Splits a storage key into the arguments following its leading symbol,
+ * e.g. `[Balance, G…]` → `[G…]`. Contract storage keys are usually a symbol
+ * (an enum variant without data) or a vec starting with one.
+ * @param json - Typed JSON of the key
+ * @returns Key arguments; [] for a bare symbol key, null when the key doesn't start with a symbol
+ */
+export const scValKeyArgs = (json: ScValJson): ScValJson[] | null => {
+  if (json.type === "symbol") {
+    return [];
+  }
+  if (json.type === "vec" && json.value?.[0]?.type === "symbol") {
+    return json.value.slice(1);
+  }
+  return null;
+};
+
+const INTEGER_STRING = /^-?\d+$/;
+
+/**
+ * Runtime validation for typed JSON ScVal input (e.g. storage keys sent by clients).
+ * Errors and contract instances are output-only and are not accepted as input.
+ */
+export const scValJsonSchema: z.ZodType<ScValJson> = z.lazy(() =>
+  z.discriminatedUnion("type", [
+    z.object({ type: z.literal("void"), value: z.null() }),
+    z.object({ type: z.literal("bool"), value: z.boolean() }),
+    z.object({ type: z.enum(["u32", "i32"]), value: z.number().int() }),
+    z.object({
+      type: z.enum([
+        "u64",
+        "i64",
+        "timepoint",
+        "duration",
+        "u128",
+        "i128",
+        "u256",
+        "i256",
+      ]),
+      value: z.string().regex(INTEGER_STRING, "Expected an integer string"),
+    }),
+    z.object({
+      type: z.literal("bytes"),
+      value: z.string().regex(/^([0-9a-fA-F]{2})*$/, "Expected a hex string"),
+    }),
+    z.object({ type: z.enum(["string", "symbol"]), value: z.string() }),
+    z.object({ type: z.literal("address"), value: z.string() }),
+    z.object({
+      type: z.literal("vec"),
+      value: z.array(scValJsonSchema).nullable(),
+    }),
+    z.object({
+      type: z.literal("map"),
+      value: z
+        .array(z.object({ key: scValJsonSchema, value: scValJsonSchema }))
+        .nullable(),
+    }),
+    z.object({
+      type: z.literal("ledger_key_contract_instance"),
+      value: z.null(),
+    }),
+    z.object({
+      type: z.literal("ledger_key_nonce"),
+      value: z.string().regex(INTEGER_STRING, "Expected an integer string"),
+    }),
+  ]),
+);
+
+/**
+ * Converts typed JSON back into an `ScVal` (inverse of {@link scValToJson}).
+ * @param json - Typed JSON tree
+ * @returns ScVal
+ * @throws Error for unsupported types or out-of-range values
+ */
+export const jsonToScVal = (json: ScValJson): xdr.ScVal => {
+  switch (json.type) {
+    case "void":
+      return xdr.ScVal.scvVoid();
+    case "bool":
+      return xdr.ScVal.scvBool(json.value);
+    case "u32":
+      return xdr.ScVal.scvU32(json.value);
+    case "i32":
+      return xdr.ScVal.scvI32(json.value);
+    case "u64":
+    case "i64":
+    case "timepoint":
+    case "duration":
+    case "u128":
+    case "i128":
+    case "u256":
+    case "i256":
+      return nativeToScVal(BigInt(json.value), { type: json.type });
+    case "bytes":
+      return xdr.ScVal.scvBytes(Buffer.from(json.value, "hex"));
+    case "string":
+      return xdr.ScVal.scvString(json.value);
+    case "symbol":
+      return xdr.ScVal.scvSymbol(json.value);
+    case "address":
+      return Address.fromString(json.value).toScVal();
+    case "vec":
+      return xdr.ScVal.scvVec(json.value ? json.value.map(jsonToScVal) : null);
+    case "map":
+      return xdr.ScVal.scvMap(
+        json.value
+          ? json.value.map(
+              entry =>
+                new xdr.ScMapEntry({
+                  key: jsonToScVal(entry.key),
+                  val: jsonToScVal(entry.value),
+                }),
+            )
+          : null,
+      );
+    case "ledger_key_contract_instance":
+      return xdr.ScVal.scvLedgerKeyContractInstance();
+    case "ledger_key_nonce":
+      return xdr.ScVal.scvLedgerKeyNonce(
+        new xdr.ScNonceKey({ nonce: xdr.Int64.fromString(json.value) }),
+      );
+    default:
+      throw new Error(
+        `Unsupported ScVal JSON type: ${(json as { type: unknown }).type}`,
+      );
+  }
+};
+
+/**
+ * Scalar ScVal types accepted by {@link parseScValText}.
+ */
+const SCALAR_TEXT_TYPES: ReadonlySet<string> = new Set([
+  "bool",
+  "u32",
+  "i32",
+  "u64",
+  "i64",
+  "timepoint",
+  "duration",
+  "u128",
+  "i128",
+  "u256",
+  "i256",
+  "bytes",
+  "string",
+  "symbol",
+  "address",
+]);
+
+const SYMBOL = /^[a-zA-Z0-9_]{1,32}$/;
+
+/**
+ * Converts the value part of `<type>:<value>` text to its typed JSON value.
+ * Values that don't convert are passed through for schema validation to reject.
+ */
+const scalarTextValue = (type: string, raw: string): unknown => {
+  if (type === "bool") {
+    return raw === "true" ? true : raw === "false" ? false : raw;
+  }
+  if ((type === "u32" || type === "i32") && INTEGER_STRING.test(raw)) {
+    return Number(raw);
+  }
+  return raw;
+};
+
+/**
+ * Parses the compact text form of a scalar ScVal used in query parameters:
+ * `<type>:<value>` (e.g. `u32:5`, `i128:-10`, `bytes:00ff`, `string:hello`),
+ * or a bare value, read as an address when it is a valid StrKey and as a
+ * symbol otherwise.
+ * @param text - ScVal text
+ * @returns ScVal
+ * @throws Error when the text is not a valid scalar ScVal
+ */
+export const parseScValText = (text: string): xdr.ScVal => {
+  const separator = text.indexOf(":");
+  if (separator === -1) {
+    try {
+      return Address.fromString(text).toScVal();
+    } catch {
+      if (!SYMBOL.test(text)) {
+        throw new Error(`"${text}" is neither an address nor a symbol`);
+      }
+      return xdr.ScVal.scvSymbol(text);
+    }
+  }
+
+  const type = text.slice(0, separator);
+  const raw = text.slice(separator + 1);
+  if (!SCALAR_TEXT_TYPES.has(type)) {
+    throw new Error(`Unsupported ScVal type "${type}"`);
+  }
+  const json = scValJsonSchema.safeParse({
+    type,
+    value: scalarTextValue(type, raw),
+  });
+  if (!json.success) {
+    throw new Error(`Invalid ${type} value "${raw}"`);
+  }
+  if (json.data.type === "symbol" && !SYMBOL.test(json.data.value)) {
+    throw new Error(`Invalid symbol value "${raw}"`);
+  }
+  try {
+    const val = jsonToScVal(json.data);
+    // Encoding enforces the integer ranges of each type
+    val.toXDR();
+    return val;
+  } catch {
+    throw new Error(`Invalid ${type} value "${raw}"`);
+  }
+};
+
+/**
+ * Parses a client-supplied ScVal given either as base64 XDR or typed JSON.
+ * @param input - Base64 ScVal XDR string or typed JSON tree
+ * @returns ScVal
+ * @throws Error when the input cannot be converted
+ */
+export const parseScValInput = (input: string | ScValJson): xdr.ScVal =>
+  typeof input === "string"
+    ? xdr.ScVal.fromXDR(input, "base64")
+    : jsonToScVal(input);
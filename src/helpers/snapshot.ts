@@ -0,0 +1,145 @@
+/**
+ * Ledger snapshot helpers
+ *
+ * Converts contract data into the JSON of `soroban-ledger-snapshot`
+ * (`LedgerSnapshot`), the format read by `Env::from_snapshot_file` in
+ * soroban-sdk tests and written by `stellar snapshot create`. Ledger keys
+ * and entries use the serde JSON representation of the Rust `stellar-xdr`
+ * crate: snake_case externally tagged unions, 64-bit and larger integers as
+ * decimal strings, bytes and hashes as hex, and addresses as StrKeys.
+ */
+
+import { Address, scValToBigInt, xdr } from "@stellar/stellar-sdk";
+
+/**
+ * Network TTL settings recorded in a ledger snapshot, read from the network's
+ * state archival `ConfigSettingEntry`.
+ */
+export type SnapshotTtlSettings = {
+  minPersistentEntryTtl: number;
+  minTempEntryTtl: number;
+  maxEntryTtl: number;
+};
+
+/**
+ * Builds the snapshot TTL settings from the network's config setting entries.
+ * @param entries - Config setting entries including state archival, in any order
+ * @returns Snapshot TTL settings
+ * @throws Error when the state archival setting is missing
+ */
+export const parseSnapshotTtlSettings = (
+  entries: xdr.ConfigSettingEntry[],
+): SnapshotTtlSettings => {
+  const id = xdr.ConfigSettingId.configSettingStateArchival();
+  const entry = entries.find(e => e.switch().value === id.value);
+  if (!entry) {
+    throw new Error(`Missing config setting ${id.name}`);
+  }
+  const stateArchival = entry.stateArchivalSettings();
+  return {
+    minPersistentEntryTtl: stateArchival.minPersistentTtl(),
+    minTempEntryTtl: stateArchival.minTemporaryTtl(),
+    maxEntryTtl: stateArchival.maxEntryTtl(),
+  };
+};
+
+/**
+ * Converts the name of an XDR enum value into its serde variant name
+ * (e.g. `sceWasmVm` → `wasm_vm`, `scecArithDomain` → `arith_domain`).
+ */
+const toSerdeVariant = (name: string, prefix: string): string =>
+  name
+    .slice(prefix.length)
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toLowerCase();
+
+/**
+ * Converts a list of `ScMapEntry` into serde JSON.
+ */
+const scMapToSnapshotJson = (entries: xdr.ScMapEntry[] | null): unknown =>
+  entries
+    ? entries.map(entry => ({
+        key: scValToSnapshotJson(entry.key()),
+        val: scValToSnapshotJson(entry.val()),
+      }))
+    : null;
+
+/**
+ * Converts an `ScVal` into its `stellar-xdr` serde JSON representation.
+ * @param val - Decoded ScVal
+ * @returns Serde JSON value
+ * @throws Error for ScVal types not known to this API
+ */
+export const scValToSnapshotJson = (val: xdr.ScVal): unknown => {
+  switch (val.switch()) {
+    case xdr.ScValType.scvVoid():
+      return "void";
+    case xdr.ScValType.scvBool():
+      return { bool: val.b() };
+    case xdr.ScValType.scvU32():
+      return { u32: val.u32() };
+    case xdr.ScValType.scvI32():
+      return { i32: val.i32() };
+    case xdr.ScValType.scvU64():
+      return { u64: val.u64().toString() };
+    case xdr.ScValType.scvI64():
+      return { i64: val.i64().toString() };
+    case xdr.ScValType.scvTimepoint():
+      return { timepoint: val.timepoint().toString() };
+    case xdr.ScValType.scvDuration():
+      return { duration: val.duration().toString() };
+    case xdr.ScValType.scvU128():
+      return { u128: scValToBigInt(val).toString() };
+    case xdr.ScValType.scvI128():
+      return { i128: scValToBigInt(val).toString() };
+    case xdr.ScValType.scvU256():
+      return { u256: scValToBigInt(val).toString() };
+    case xdr.ScValType.scvI256():
+      return { i256: scValToBigInt(val).toString() };
+    case xdr.ScValType.scvBytes():
+      return { bytes: val.bytes().toString("hex") };
+    case xdr.ScValType.scvString():
+      return { string: val.str().toString() };
+    case xdr.ScValType.scvSymbol():
+      return { symbol: val.sym().toString() };
+    case xdr.ScValType.scvAddress():
+      return { address: Address.fromScAddress(val.address()).toString() };
+    case xdr.ScValType.scvVec():
+      return { vec: val.vec()?.map(scValToSnapshotJson) ?? null };
+    case xdr.ScValType.scvMap():
+      return { map: scMapToSnapshotJson(val.map() ?? null) };
+    case xdr.ScValType.scvError(): {
+      const error = val.error();
+      return {
+        error: {
+          [toSerdeVariant(error.switch().name, "sce")]:
+            error.switch() === xdr.ScErrorType.sceContract()
+              ? error.contractCode()
+              : toSerdeVariant(error.code().name, "scec"),
+        },
+      };
+    }
+    case xdr.ScValType.scvContractInstance(): {
+      const instance = val.instance();
+      const executable = instance.executable();
+      return {
+        contract_instance: {
+          executable:
+            executable.switch() ===
+            xdr.ContractExecutableType.contractExecutableWasm()
+              ? { wasm: executable.wasmHash().toString("hex") }
+              : "stellar_asset",
+          storage: scMapToSnapshotJson(instance.storage() ?? null),
+        },
+      };
+    }
+    case xdr.ScValType.scvLedgerKeyContractInstance():
+      return "ledger_key_contract_instance";
+    case xdr.ScValType.scvLedgerKeyNonce():
+      return {
+        ledger_key_nonce: { nonce: val.nonceKey().nonce().toString() },
+      };
+    default:
+      throw new Error(`Unsupported ScVal type: ${val.switch().name}`);
+  }
+};
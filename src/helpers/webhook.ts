@@ -0,0 +1,178 @@
+/**
+ * Webhook delivery helpers
+ *
+ * Signs delivery payloads, schedules retries, checks registration API keys
+ * and keeps webhook targets off private networks. Receivers verify a delivery
+ * by computing the HMAC-SHA256 of `<timestamp>.<body>` with their secret and
+ * comparing it with the signature header.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import { request as httpRequest, OutgoingHttpHeaders } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP, LookupFunction } from "net";
+import { WEBHOOK_RETRY_MAX_DELAY_MS } from "../types/webhook";
+
+/**
+ * Address ranges webhooks may not target: unspecified, loopback, private,
+ * carrier-grade NAT, link-local, multicast, reserved and NAT64 addresses.
+ * IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+ */
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Computes the signature header of a delivery.
+ * @param secret - Signing secret of the webhook
+ * @param timestamp - Unix seconds sent in the timestamp header
+ * @param body - Request body, exactly as sent
+ * @returns `sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">`
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+): string =>
+  `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+/**
+ * Delay before retrying a delivery, doubling with every failed attempt.
+ * @param attempts - Attempts made so far (at least 1)
+ * @param baseMs - Delay after the first failed attempt
+ * @returns Delay in milliseconds, at most WEBHOOK_RETRY_MAX_DELAY_MS
+ */
+export const webhookRetryDelayMs = (attempts: number, baseMs: number): number =>
+  Math.min(baseMs * 2 ** (attempts - 1), WEBHOOK_RETRY_MAX_DELAY_MS);
+
+/**
+ * Resolves the host of a webhook URL and checks that every address it
+ * resolves to is public.
+ * @param url - Webhook URL
+ * @returns The checked addresses, for postWebhook to connect to
+ * @throws Error when the host doesn't resolve or resolves to a non-public address
+ */
+export const assertPublicWebhookUrl = async (
+  url: string,
+): Promise<LookupAddress[]> => {
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: LookupAddress[];
+  if (isIP(host)) {
+    addresses = [{ address: host, family: isIP(host) }];
+  } else {
+    try {
+      addresses = await lookup(host, { all: true, verbatim: true });
+    } catch {
+      throw new Error(`Webhook host ${host} could not be resolved`);
+    }
+  }
+  for (const { address, family } of addresses) {
+    if (NON_PUBLIC_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")) {
+      throw new Error(
+        `Webhook host ${host} resolves to the non-public address ${address}`,
+      );
+    }
+  }
+  return addresses;
+};
+
+/**
+ * Lookup answering with already checked addresses, so the connection can't
+ * reach an address the host resolves to afterwards (DNS rebinding).
+ */
+const pinnedLookup =
+  (addresses: LookupAddress[]): LookupFunction =>
+  (hostname, options, callback) => {
+    const matching = options.family
+      ? addresses.filter(({ family }) => family === options.family)
+      : addresses;
+    if (matching.length === 0) {
+      callback(
+        Object.assign(new Error(`No checked address for ${hostname}`), {
+          code: "ENOTFOUND",
+        }),
+        "",
+      );
+    } else if (options.all) {
+      callback(null, matching);
+    } else {
+      callback(null, matching[0].address, matching[0].family);
+    }
+  };
+
+/**
+ * Posts a body to a webhook URL, connecting only to the given addresses. The
+ * Host header and TLS server name stay those of the URL. Redirects are not
+ * followed.
+ * @param url - Webhook URL
+ * @param addresses - Addresses of the URL's host, as checked by assertPublicWebhookUrl
+ * @param headers - Request headers
+ * @param body - Request body
+ * @param timeoutMs - Time allowed until the response status is received
+ * @returns Response status code
+ * @throws Error when the request fails or times out
+ */
+export const postWebhook = (
+  url: string,
+  addresses: LookupAddress[],
+  headers: OutgoingHttpHeaders,
+  body: string,
+  timeoutMs: number,
+): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = target.protocol === "https:" ? httpsRequest : httpRequest;
+    const req = request(
+      target,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: pinnedLookup(addresses),
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      res => {
+        // Only the status matters
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+
+/**
+ * Checks an API key against the configured keys in constant time.
+ * @param key - Key sent by the client
+ * @param apiKeys - Accepted keys
+ * @returns True when the key is one of `apiKeys`
+ */
+export const isWebhookApiKey = (key: string, apiKeys: string[]): boolean => {
+  const digest = createHash("sha256").update(key).digest();
+  return apiKeys.some(apiKey =>
+    timingSafeEqual(digest, createHash("sha256").update(apiKey).digest()),
+  );
+};
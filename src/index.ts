@@ -2,7 +2,6 @@
 import { Sentry } from "./instrument";
 
 import cors from "cors";
-import type { NextFunction, Request, Response } from "express";
 import express from "express";
 import rateLimit from "express-rate-limit";
 import helmet from "helmet";
@@ -11,10 +10,22 @@ import proxyAddr from "proxy-addr";
 
 import packageJson from "../package.json";
 import { Env } from "./config/env";
+import { buildWebhookTablesExistQuery } from "./query-builders/webhook";
 import contractRoutes from "./routes/contract_data";
+import instanceRoutes from "./routes/instance";
+import summaryRoutes from "./routes/summary";
+import footprintRoutes from "./routes/footprint";
 import keysRoutes from "./routes/keys";
+import {
+  attachSubscriptionServer,
+  closeSubscriptionServer,
+} from "./routes/subscriptions";
+import webhookRoutes from "./routes/webhook";
 import { connect } from "./utils/connect";
+import { errorHandler } from "./utils/error_handler";
 import { logger, pinoHttpOptions } from "./utils/logger";
+import { getStorageChangeFeed } from "./utils/storage_feed";
+import { getWebhookDispatcher } from "./utils/webhook_dispatcher";
 
 // ── App Setup ────────────────────────────────────────────────────────
 
@@ -24,8 +35,15 @@ const app = express();
 
 const trustProxyCidrs = Env.trustProxy;
 app.set("trust proxy", proxyAddr.compile(trustProxyCidrs)); // Trust proxy CIDRs
-app.use(cors({ origin: Env.corsOrigins, methods: ["GET", "OPTIONS"] })); // Allow CORS for specified origins
+// Allow CORS for specified origins
+app.use(
+  cors({
+    origin: Env.corsOrigins,
+    methods: ["GET", "POST", "DELETE", "OPTIONS"],
+  }),
+);
 app.use(helmet()); // Sets security headers
+app.use(express.json({ limit: "100kb" })); // Parses JSON request bodies
 app.use(pinoHttp(pinoHttpOptions)); // HTTP request logger
 
 app.use(
@@ -67,6 +85,12 @@ app.get("/health", (_, res) => {
 
 app.use("/api", contractRoutes);
 app.use("/api", keysRoutes);
+app.use("/api", instanceRoutes);
+app.use("/api", summaryRoutes);
+app.use("/api", footprintRoutes);
+if (Env.webhooksEnabled) {
+  app.use("/api", webhookRoutes);
+}
 
 // ── Error Handling ───────────────────────────────────────────────────
 
@@ -74,19 +98,7 @@ app.use("/api", keysRoutes);
 Sentry.setupExpressErrorHandler(app);
 
 // Global error handler — prevents unhandled exceptions from leaking to clients
-app.use(
-  (err: unknown, req: Request, res: Response, next: NextFunction): void => {
-    if (res.headersSent) {
-      next(err);
-      return;
-    }
-    req.log.error(
-      { err, method: req.method, url: req.originalUrl },
-      "Unhandled error",
-    );
-    res.status(500).json({ error: "Internal Server Error" });
-  },
-);
+app.use(errorHandler);
 
 // ── Database ─────────────────────────────────────────────────────────
 
@@ -100,6 +112,17 @@ async function initializeDatabase() {
 
   logger.info("Database connected successfully");
 
+  if (Env.webhooksEnabled) {
+    const [{ present }] = await prisma.$queryRaw<{ present: boolean }[]>(
+      buildWebhookTablesExistQuery(),
+    );
+    if (!present) {
+      throw new Error(
+        "WEBHOOKS_ENABLED is set but the webhook tables are missing, apply the migrations in prisma/migrations",
+      );
+    }
+  }
+
   if (Env.debug) {
     const tables = await prisma.$queryRaw`
     SELECT table_name
@@ -113,6 +136,8 @@ async function initializeDatabase() {
 // ── Server Lifecycle ─────────────────────────────────────────────────
 
 let server: ReturnType<typeof app.listen> | null = null;
+let subscriptionServer: ReturnType<typeof attachSubscriptionServer> | null =
+  null;
 
 async function startServer() {
   try {
@@ -123,6 +148,10 @@ async function startServer() {
     });
     server.requestTimeout = 60_000;
     server.headersTimeout = 65_000;
+    subscriptionServer = attachSubscriptionServer(server);
+    if (Env.webhooksEnabled) {
+      getWebhookDispatcher().start();
+    }
   } catch (error) {
     Sentry.captureException(error);
     await Sentry.flush(2000);
@@ -141,6 +170,13 @@ async function gracefulShutdown() {
 
   logger.info("Shutting down gracefully...");
 
+  // Open storage streams would otherwise keep the server from closing
+  getStorageChangeFeed().close();
+  if (subscriptionServer) {
+    closeSubscriptionServer(subscriptionServer);
+  }
+  const webhookDispatcherClosed = getWebhookDispatcher().close();
+
   if (server) {
     const s = server;
     await Promise.race([
@@ -159,6 +195,9 @@ async function gracefulShutdown() {
     ]);
   }
 
+  // Lets the webhook deliveries in progress record their outcome
+  await webhookDispatcherClosed;
+
   if (closeDbConnection) {
     try {
       await closeDbConnection();
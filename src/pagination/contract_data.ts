@@ -13,11 +13,11 @@ import {
  * - Date objects become Unix timestamps (seconds) for unambiguous numeric comparison
  * - Other types (number, string) pass through unchanged
  */
-function extractSortValue(
+export function extractSortValue(
   record: ContractData,
   sortDbField: SortDbField,
 ): CursorData["position"]["sortValue"] {
-  const raw = (record as any)[sortDbField];
+  const raw = record[sortDbField];
   if (raw == null) {
     return undefined;
   }
@@ -50,11 +50,16 @@ export const buildPaginationLinkHref = (
  * Builds pagination links (self, next, prev) for the API response.
  * @param requestParams - Request parameters including contract ID, cursor, limit, and sorting
  * @param results - Array of `ContractData` objects from the database query
+ * @param latestLedgerSequence - Reference ledger of this page, pinned in cursors of status-filtered listings
+ * @param scanBoundary - Last row read by a `value_contains` scan that hit its row cap; the link in the
+ * scan direction (next, or prev for prev cursors) resumes after it instead of after the last match
  * @returns PaginationLinks object with href strings
  */
 export const buildPaginationLinks = (
   requestParams: RequestParams,
   results: ContractData[],
+  latestLedgerSequence?: number,
+  scanBoundary?: ContractData,
 ): PaginationLinks => {
   const {
     contractId,
@@ -64,8 +69,26 @@ export const buildPaginationLinks = (
     sortDirection,
     sortField,
     filterKey,
+    keyPrefix,
+    keyContains,
+    keyArgs,
+    valueContains,
+    durability,
+    status,
+    expiringWithin,
+    updatedAfter,
+    updatedBefore,
+    ledgerFrom,
+    ledgerTo,
+    decode,
+    rentLedgers,
+    includeCount,
+    fields,
     pathPrefix,
+    cursorData,
   } = requestParams;
+  const hasStatusFilter = status !== undefined || expiringWithin !== undefined;
+  const scansBackwards = cursorData?.cursorType === "prev";
 
   // Shared params for all links (self, next, prev)
   const queryParams = {
@@ -75,7 +98,32 @@ export const buildPaginationLinks = (
       ? { sort_by: sortField as string }
       : {}),
     ...(cursor ? { cursor: cursor } : {}),
-    ...(filterKey ? { filter_key: filterKey } : {}),
+    ...(filterKey ? { filter_key: filterKey.join(",") } : {}),
+    ...(keyPrefix ? { key_prefix: keyPrefix } : {}),
+    ...(keyContains ? { key_contains: keyContains } : {}),
+    ...Object.fromEntries(
+      (keyArgs ?? []).map((arg, index) => [`key_arg.${index}`, arg]),
+    ),
+    ...(valueContains ? { value_contains: valueContains } : {}),
+    ...(durability ? { durability: durability.join(",") } : {}),
+    ...(status ? { status: status as string } : {}),
+    ...(expiringWithin !== undefined
+      ? { expiring_within: expiringWithin.toString() }
+      : {}),
+    ...(updatedAfter !== undefined
+      ? { updated_after: updatedAfter.toString() }
+      : {}),
+    ...(updatedBefore !== undefined
+      ? { updated_before: updatedBefore.toString() }
+      : {}),
+    ...(ledgerFrom !== undefined ? { ledger_from: ledgerFrom.toString() } : {}),
+    ...(ledgerTo !== undefined ? { ledger_to: ledgerTo.toString() } : {}),
+    ...(decode ? { decode: decode as string } : {}),
+    ...(rentLedgers !== undefined
+      ? { rent_ledgers: rentLedgers.toString() }
+      : {}),
+    ...(includeCount ? { include_count: includeCount as string } : {}),
+    ...(fields ? { fields: fields.join(",") } : {}),
   };
   const baseUrl = `${pathPrefix ?? ""}/api/contract/${contractId}/storage`;
 
@@ -87,13 +135,30 @@ export const buildPaginationLinks = (
   };
 
   // (optional) links.next:
-  if (results.length >= limit) {
-    const lastRecord = results[results.length - 1];
+  const lastRecord =
+    scanBoundary && !scansBackwards
+      ? scanBoundary
+      : limit > 0 && results.length >= limit
+        ? results[results.length - 1]
+        : undefined;
+  if (lastRecord) {
     const nextCursor = encodeCursor({
       cursorType: "next",
       sortField: sortField !== SortField.KEY_HASH ? sortField : undefined,
       sortDirection,
-      filterKey: filterKey ?? undefined,
+      filterKey,
+      keyPrefix,
+      keyContains,
+      keyArgs,
+      valueContains,
+      durability: durability ?? undefined,
+      status: status ?? undefined,
+      expiringWithin,
+      updatedAfter,
+      updatedBefore,
+      ledgerFrom,
+      ledgerTo,
+      ledger: hasStatusFilter ? latestLedgerSequence : undefined,
       position: {
         keyHash: lastRecord.key_hash,
         sortValue:
@@ -111,13 +176,30 @@ export const buildPaginationLinks = (
   }
 
   // (optional) links.prev:
-  if (cursor && results.length > 0) {
-    const firstRecord = results[0];
+  const firstRecord =
+    scanBoundary && scansBackwards
+      ? scanBoundary
+      : cursor && results.length > 0
+        ? results[0]
+        : undefined;
+  if (firstRecord) {
     const prevCursor = encodeCursor({
       cursorType: "prev",
       sortField: sortField !== SortField.KEY_HASH ? sortField : undefined,
       sortDirection,
-      filterKey: filterKey ?? undefined,
+      filterKey,
+      keyPrefix,
+      keyContains,
+      keyArgs,
+      valueContains,
+      durability: durability ?? undefined,
+      status: status ?? undefined,
+      expiringWithin,
+      updatedAfter,
+      updatedBefore,
+      ledgerFrom,
+      ledgerTo,
+      ledger: hasStatusFilter ? latestLedgerSequence : undefined,
       position: {
         keyHash: firstRecord.key_hash,
         sortValue:
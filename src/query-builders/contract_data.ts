@@ -1,6 +1,10 @@
+import { xdr } from "@stellar/stellar-sdk";
 import { Prisma } from "../../generated/prisma";
 import { CursorData } from "../helpers/cursor";
+import { StorageDurability } from "../helpers/ledger_key";
 import {
+  ContractDataField,
+  EntryStatus,
   SortDbField,
   SortDirection,
   SortField,
@@ -26,14 +30,216 @@ export interface ContractDataQueryConfig {
   sortDbField: SortDbField;
   sortDirection: SortDirection;
   sortField: SortField;
-  filterKey?: string;
+  /** Exact `key_symbol` matches */
+  filterKey?: string[];
+  /** Case-sensitive prefix match on `key_symbol` */
+  keyPrefix?: string;
+  /** Case-sensitive substring match on `key_symbol` */
+  keyContains?: string;
+  /** Exact matches on the key arguments following the leading symbol, in order from the first */
+  keyArgs?: xdr.ScVal[];
+  durability?: StorageDurability[];
+  /** Live/expired status relative to `latestLedgerSequence` */
+  status?: EntryStatus;
+  /** Only live entries whose TTL ends within this many ledgers of `latestLedgerSequence` */
+  expiringWithin?: number;
+  /** Unix seconds, inclusive lower bound on `closed_at` */
+  updatedAfter?: number;
+  /** Unix seconds, exclusive upper bound on `closed_at` */
+  updatedBefore?: number;
+  /** Inclusive bounds on `ledger_sequence` */
+  ledgerFrom?: number;
+  ledgerTo?: number;
+  /** Selected DTO fields; `key`/`val` are only read when their DTO fields are selected */
+  fields?: ContractDataField[];
 }
 
-const SELECT_COLUMNS =
-  "cd.contract_id, cd.ledger_sequence, cd.key_hash, cd.durability, cd.key_symbol, cd.key, cd.val, cd.closed_at, cd.live_until_ledger_sequence";
+/**
+ * Optional WHERE filters applied identically in every query branch.
+ */
+export type ContractDataFilters = Pick<
+  ContractDataQueryConfig,
+  | "filterKey"
+  | "keyPrefix"
+  | "keyContains"
+  | "keyArgs"
+  | "durability"
+  | "status"
+  | "expiringWithin"
+  | "latestLedgerSequence"
+  | "updatedAfter"
+  | "updatedBefore"
+  | "ledgerFrom"
+  | "ledgerTo"
+>;
+
+/**
+ * True when the newest `ttl` row (joined as `t`) should win over the TTL
+ * stored on the contract_data row: TTL extensions only write the ttl table,
+ * so whichever was written at the later ledger carries the current TTL.
+ * @param alias - Alias of the contract_data row
+ */
+const ttlRowIsNewer = (alias: string): string =>
+  `t.live_until_ledger_sequence IS NOT NULL AND (${alias}.live_until_ledger_sequence IS NULL OR t.ledger_sequence >= ${alias}.ledger_sequence)`;
+
+/**
+ * Effective TTL of a contract_data row: the newest TTL across both tables.
+ * @param alias - Alias of the contract_data row
+ */
+const effectiveLiveUntil = (alias: string): string =>
+  `CASE WHEN ${ttlRowIsNewer(alias)} THEN t.live_until_ledger_sequence ELSE ${alias}.live_until_ledger_sequence END`;
+
+/**
+ * Effective `live_until_ledger_sequence`, its `ttl_source`, and
+ * `last_modified_ledger`, the latest ledger that wrote either the entry or its TTL.
+ * @param alias - Alias of the contract_data row
+ */
+const effectiveTtlColumns = (alias: string): string =>
+  `${effectiveLiveUntil(alias)} AS live_until_ledger_sequence,
+        CASE WHEN ${ttlRowIsNewer(alias)} THEN 'ttl' WHEN ${alias}.live_until_ledger_sequence IS NOT NULL THEN 'contract_data' END AS ttl_source,
+        GREATEST(${alias}.ledger_sequence, t.ledger_sequence) AS last_modified_ledger`;
+
+/**
+ * Joins the newest `ttl` row of a contract_data row as `t`, a primary key
+ * probe per row.
+ * @param alias - Alias of the contract_data row
+ */
+const latestTtlJoin = (alias: string): string => `LEFT JOIN LATERAL (
+        SELECT ttl.ledger_sequence, ttl.live_until_ledger_sequence
+        FROM ttl
+        WHERE ttl.key_hash = ${alias}.key_hash
+        ORDER BY ttl.ledger_sequence DESC
+        LIMIT 1
+      ) t ON true`;
+
+/**
+ * Byte length of the XDR stored in a key/val column, which holds the UTF-8
+ * bytes of its base64 encoding. XDR lengths are multiples of 4, which makes
+ * the base64 padding implied by the encoded length, so no value is decoded or
+ * detoasted.
+ */
+export const xdrByteLength = (column: string): string =>
+  `(octet_length(${column}) * 3 / 4) / 4 * 4`;
+
+/**
+ * Key plus value XDR size of a contract_data row.
+ * @param alias - Alias of the contract_data row
+ */
+const sizeBytes = (alias: string): string =>
+  `(COALESCE(${xdrByteLength(`${alias}.key`)}, 0) + COALESCE(${xdrByteLength(`${alias}.val`)}, 0))::int`;
 
 /**
- * Builds an ORDER BY clause for contract_data (or CTE alias).
+ * contract_data with its effective TTL, aliased as `cd`.
+ * `live_until_ledger_sequence` is replaced by the newest TTL across both
+ * tables, so `expired`, the status filters, the ttl sort and its cursors all
+ * reflect extensions; `ttl_source` tells which table it came from, and
+ * `last_modified_ledger` is the latest ledger that wrote either the entry or
+ * its TTL; `size_bytes` is the key plus value XDR size. Postgres flattens
+ * this subquery, so contract_id and key_hash predicates and the stored sort
+ * columns still use their indexes; the ttl lookup is a primary key probe per
+ * row, made only for the rows a page reads.
+ */
+export const CONTRACT_DATA_WITH_TTL = `(
+      SELECT c.contract_id, c.ledger_sequence, c.key_hash, c.durability, c.key_symbol, c.key, c.val, c.closed_at,
+        ${effectiveTtlColumns("c")},
+        ${sizeBytes("c")} AS size_bytes
+      FROM contract_data c
+      ${latestTtlJoin("c")}
+    ) cd`;
+
+/**
+ * TTL extensions written after their entry, with the entry's columns, aliased
+ * as `cd` with the columns of `CONTRACT_DATA_WITH_TTL`: the TTL and
+ * `last_modified_ledger` come from the ttl row. Postgres flattens this
+ * subquery, so filters and order on `cd.last_modified_ledger` and
+ * `cd.key_hash` are served by idx_ttl_ledger_sequence_key_hash, with a
+ * primary key probe of contract_data per extension.
+ */
+export const TTL_EXTENSIONS_WITH_ENTRY = `(
+      SELECT c.contract_id, c.ledger_sequence, t.key_hash, c.durability, c.key_symbol, c.key, c.val, c.closed_at,
+        t.live_until_ledger_sequence,
+        'ttl' AS ttl_source,
+        t.ledger_sequence AS last_modified_ledger,
+        ${sizeBytes("c")} AS size_bytes
+      FROM ttl t
+      JOIN contract_data c ON c.key_hash = t.key_hash
+      WHERE t.ledger_sequence > c.ledger_sequence
+    ) cd`;
+
+/**
+ * Every column of `CONTRACT_DATA_WITH_TTL` (and `TTL_EXTENSIONS_WITH_ENTRY`)
+ * returned for an entry.
+ */
+export const SELECT_COLUMNS =
+  "cd.contract_id, cd.ledger_sequence, cd.key_hash, cd.durability, cd.key_symbol, cd.key, cd.val, cd.closed_at, cd.live_until_ledger_sequence, cd.ttl_source, cd.last_modified_ledger, cd.size_bytes";
+
+/**
+ * Columns that are always selected: small, and needed for sorting, cursors and `expired`.
+ */
+const BASE_COLUMNS =
+  "cd.contract_id, cd.ledger_sequence, cd.key_hash, cd.durability, cd.key_symbol, cd.closed_at, cd.live_until_ledger_sequence, cd.ttl_source, cd.last_modified_ledger, cd.size_bytes";
+
+/**
+ * Builds the column list for a field projection. The key and value blobs make
+ * up most of a row, so they are only read when their DTO field is selected.
+ * @param fields - Selected DTO fields; all columns when undefined
+ * @returns Column list for SELECT
+ */
+function selectColumns(fields?: ContractDataField[]): string {
+  if (!fields) {
+    return SELECT_COLUMNS;
+  }
+  return [
+    BASE_COLUMNS,
+    ...(fields.includes("key") || fields.includes("key_args")
+      ? ["cd.key"]
+      : []),
+    ...(fields.includes("value") ? ["cd.val"] : []),
+  ].join(", ");
+}
+
+/**
+ * Selects a page of entries with their `expired` column.
+ * @param fields - Selected DTO fields
+ * @param latestLedgerSequence - Used to compute the `expired` column
+ * @param where - Contract, filter and cursor predicates
+ * @param orderByClause - Order in which the page is read
+ * @param limit - Page size
+ * @returns Prisma.Sql for the page rows, aliased `cd`
+ */
+function selectPage(
+  fields: ContractDataField[] | undefined,
+  latestLedgerSequence: number,
+  where: Prisma.Sql,
+  orderByClause: string,
+  limit: number,
+): Prisma.Sql {
+  return Prisma.sql`
+    SELECT ${Prisma.raw(selectColumns(fields))},
+      COALESCE(cd.live_until_ledger_sequence < ${latestLedgerSequence}, false) AS expired
+    FROM ${Prisma.raw(CONTRACT_DATA_WITH_TTL)}
+    ${where}
+    ${Prisma.raw(orderByClause)}
+    LIMIT ${limit}
+  `;
+}
+
+/**
+ * Returns the rows of a page read in cursor order in the requested order.
+ * @param page - Page query from selectPage
+ * @param orderByClause - Response order, on `pr.` columns
+ * @returns Prisma.Sql for the page rows
+ */
+function inResponseOrder(page: Prisma.Sql, orderByClause: string): Prisma.Sql {
+  return Prisma.sql`
+    SELECT pr.*
+    FROM (${page}) pr
+    ${Prisma.raw(orderByClause)}
+  `;
+}
+
+/**
+ * Builds an ORDER BY clause for contract_data (or the page alias).
  * @param direction - ASC or DESC
  * @param sortDbField - DB column used for sort (e.g. closed_at, durability)
  * @param sortField - API sort field; KEY_HASH uses key_hash only
@@ -60,19 +266,120 @@ function orderBy(
 }
 
 /**
- * Builds an optional WHERE fragment for key_symbol filtering.
+ * Escapes LIKE wildcards (`%`, `_`) and the escape character itself so user
+ * input is matched literally. Symbols may legitimately contain `_`.
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Builds optional WHERE fragments for key_symbol, durability, TTL status, and
+ * closed_at / ledger_sequence range filtering.
+ * Status predicates use the effective TTL and mirror the `expired` column: a
+ * NULL TTL counts as live.
+ * closed_at ranges are served by idx_contract_data_contract_id_closed_at, and
+ * key_symbol searches are evaluated within the contract's range of
+ * idx_contract_data_contract_id_key_symbol.
  * Returns empty SQL when no filter is applied.
  */
-function filterClause(filterKey?: string): Prisma.Sql {
-  if (!filterKey) {
+function filterClause({
+  filterKey,
+  keyPrefix,
+  keyContains,
+  keyArgs,
+  durability,
+  status,
+  expiringWithin,
+  latestLedgerSequence,
+  updatedAfter,
+  updatedBefore,
+  ledgerFrom,
+  ledgerTo,
+}: ContractDataFilters): Prisma.Sql {
+  const clauses: Prisma.Sql[] = [];
+  if (filterKey && filterKey.length > 0) {
+    clauses.push(Prisma.sql`AND cd.key_symbol IN (${Prisma.join(filterKey)})`);
+  }
+  if (keyPrefix) {
+    clauses.push(
+      Prisma.sql`AND cd.key_symbol LIKE ${`${escapeLikePattern(keyPrefix)}%`}`,
+    );
+  }
+  if (keyContains) {
+    clauses.push(
+      Prisma.sql`AND cd.key_symbol LIKE ${`%${escapeLikePattern(keyContains)}%`}`,
+    );
+  }
+  if (keyArgs && keyArgs.length > 0) {
+    clauses.push(keyArgsClause(keyArgs));
+  }
+  if (durability && durability.length > 0) {
+    clauses.push(Prisma.sql`AND cd.durability IN (${Prisma.join(durability)})`);
+  }
+  if (status === EntryStatus.EXPIRED) {
+    clauses.push(
+      Prisma.sql`AND cd.live_until_ledger_sequence < ${latestLedgerSequence}`,
+    );
+  } else if (status === EntryStatus.LIVE) {
+    clauses.push(
+      Prisma.sql`AND (cd.live_until_ledger_sequence IS NULL OR cd.live_until_ledger_sequence >= ${latestLedgerSequence})`,
+    );
+  }
+  if (expiringWithin !== undefined) {
+    clauses.push(
+      Prisma.sql`AND cd.live_until_ledger_sequence BETWEEN ${latestLedgerSequence} AND ${latestLedgerSequence + expiringWithin}`,
+    );
+  }
+  if (updatedAfter !== undefined) {
+    clauses.push(Prisma.sql`AND cd.closed_at >= to_timestamp(${updatedAfter})`);
+  }
+  if (updatedBefore !== undefined) {
+    clauses.push(Prisma.sql`AND cd.closed_at < to_timestamp(${updatedBefore})`);
+  }
+  if (ledgerFrom !== undefined) {
+    clauses.push(Prisma.sql`AND cd.ledger_sequence >= ${ledgerFrom}`);
+  }
+  if (ledgerTo !== undefined) {
+    clauses.push(Prisma.sql`AND cd.ledger_sequence <= ${ledgerTo}`);
+  }
+  if (clauses.length === 0) {
     return Prisma.empty;
   }
-  return Prisma.sql`AND cd.key_symbol = ${filterKey}`;
+  return Prisma.join(clauses, " ");
+}
+
+/**
+ * Raw XDR of the stored key (`cd.key` holds the UTF-8 bytes of its base64 encoding).
+ */
+const RAW_KEY = "decode(convert_from(cd.key, 'UTF8'), 'base64')";
+
+/**
+ * Matches keys of the form `[Symbol, arg0, arg1, …]` whose leading arguments
+ * equal `keyArgs`. The key XDR starts with the vec header (type, present flag,
+ * length: 12 bytes) and the symbol (type, length, padded bytes), so the
+ * arguments begin right after the symbol; XDR encodings are self-delimiting,
+ * so comparing the concatenated argument encodings there is an exact match.
+ * The CASE keeps `get_byte` from reading past the end of short keys.
+ * @param keyArgs - Leading key arguments
+ * @returns SQL AND fragment
+ */
+function keyArgsClause(keyArgs: xdr.ScVal[]): Prisma.Sql {
+  const encoded = Buffer.concat(keyArgs.map(arg => arg.toXDR()));
+  const rawKey = Prisma.raw(RAW_KEY);
+  return Prisma.sql`AND CASE
+      WHEN octet_length(${rawKey}) >= 20
+        AND substring(${rawKey} from 1 for 8) = decode('0000001000000001', 'hex')
+        AND substring(${rawKey} from 13 for 4) = decode('0000000f', 'hex')
+      THEN substring(${rawKey} from 21 + ((get_byte(${rawKey}, 19) + 3) / 4) * 4 for ${encoded.length}) = ${encoded}
+      ELSE false
+    END`;
 }
 
 /**
  * First-page contract data query (no cursor). Parameterized for $queryRaw.
- * @returns Prisma.Sql for a single SELECT from contract_data with `expired` column.
+ * @param fields - Selected DTO fields
+ * @returns Prisma.Sql for the page rows with their effective TTL and `expired` column.
  */
 function queryWithoutCursor(
   contractId: string,
@@ -81,27 +388,29 @@ function queryWithoutCursor(
   sortDbField: SortDbField,
   sortDirection: SortDirection,
   sortField: SortField,
-  filterKey?: string,
+  filters: ContractDataFilters,
+  fields: ContractDataField[] | undefined,
 ): Prisma.Sql {
   const orderByClause = orderBy(sortDirection, sortDbField, sortField, "cd.");
-  return Prisma.sql`
-    SELECT ${Prisma.raw(SELECT_COLUMNS)},
-      COALESCE(cd.live_until_ledger_sequence < ${latestLedgerSequence}, false) AS expired
-    FROM contract_data cd
-    WHERE cd.contract_id = ${contractId}
-    ${filterClause(filterKey)}
-    ${Prisma.raw(orderByClause)}
-    LIMIT ${limit}
-  `;
+  return selectPage(
+    fields,
+    latestLedgerSequence,
+    Prisma.sql`
+      WHERE cd.contract_id = ${contractId}
+      ${filterClause(filters)}
+    `,
+    orderByClause,
+    limit,
+  );
 }
 
 /**
  * Cursor-paginated contract data query when sort is by a field other than key_hash.
- * Uses a CTE to fetch the page then applies the requested order for the response.
+ * Fetches the page in cursor order, then applies the requested order for the response.
  * @param cursorKeyHash - key_hash of the cursor row
  * @param cursorSortValue - sort column value at the cursor (for tiebreaker)
- * @param cursorType - "next" or "prev" (inverts comparison in CTE)
- * @returns Prisma.Sql for WITH ... SELECT from paginated_result
+ * @param cursorType - "next" or "prev" (inverts comparison in the page query)
+ * @returns Prisma.Sql for the page rows with their effective TTL and `expired` column
  */
 function queryWithCursorSortField(
   contractId: string,
@@ -113,17 +422,18 @@ function queryWithCursorSortField(
   cursorKeyHash: string,
   cursorSortValue: number | string | bigint,
   cursorType: "next" | "prev",
-  filterKey?: string,
+  filters: ContractDataFilters,
+  fields: ContractDataField[] | undefined,
 ): Prisma.Sql {
-  const directionInCTE =
+  const directionInPage =
     cursorType === "next"
       ? sortDirection
       : sortDirection === SortDirection.ASC
         ? SortDirection.DESC
         : SortDirection.ASC;
-  const op: ">" | "<" = directionInCTE === SortDirection.DESC ? "<" : ">";
-  const orderByInCTE = orderBy(directionInCTE, sortDbField, sortField, "cd.");
-  const orderByFinal = orderBy(sortDirection, sortDbField, sortField, "");
+  const op: ">" | "<" = directionInPage === SortDirection.DESC ? "<" : ">";
+  const orderByInPage = orderBy(directionInPage, sortDbField, sortField, "cd.");
+  const orderByFinal = orderBy(sortDirection, sortDbField, sortField, "pr.");
   const sortCol = `cd.${sortDbField}`;
 
   // Convert Unix timestamp back to timestamptz for closed_at comparisons
@@ -136,33 +446,30 @@ function queryWithCursorSortField(
 
   // Row-value comparison returns NULL for NULL sort columns; include them explicitly for ASC (NULLS LAST)
   const cursorCondition =
-    directionInCTE === SortDirection.ASC
+    directionInPage === SortDirection.ASC
       ? Prisma.sql`(${rowComparison} OR ${Prisma.raw(sortCol)} IS NULL)`
       : rowComparison;
 
-  return Prisma.sql`
-    WITH paginated_result AS (
-      SELECT ${Prisma.raw(SELECT_COLUMNS)}
-      FROM contract_data cd
+  const page = selectPage(
+    fields,
+    latestLedgerSequence,
+    Prisma.sql`
       WHERE cd.contract_id = ${contractId}
-      ${filterClause(filterKey)}
+      ${filterClause(filters)}
         AND ${cursorCondition}
-      ${Prisma.raw(orderByInCTE)}
-      LIMIT ${limit}
-    )
-    SELECT pr.*,
-      COALESCE(pr.live_until_ledger_sequence < ${latestLedgerSequence}, false) AS expired
-    FROM paginated_result pr
-    ${Prisma.raw(orderByFinal)}
-  `;
+    `,
+    orderByInPage,
+    limit,
+  );
+  return inResponseOrder(page, orderByFinal);
 }
 
 /**
  * Cursor-paginated contract data query when sort is by key_hash only.
- * Uses a CTE to fetch the page then applies the requested order for the response.
+ * Fetches the page in cursor order, then applies the requested order for the response.
  * @param cursorKeyHash - key_hash of the cursor row
- * @param cursorType - "next" or "prev" (inverts comparison in CTE)
- * @returns Prisma.Sql for WITH ... SELECT from paginated_result
+ * @param cursorType - "next" or "prev" (inverts comparison in the page query)
+ * @returns Prisma.Sql for the page rows with their effective TTL and `expired` column
  */
 function queryWithCursorKeyHash(
   contractId: string,
@@ -173,33 +480,31 @@ function queryWithCursorKeyHash(
   sortField: SortField,
   cursorKeyHash: string,
   cursorType: "next" | "prev",
-  filterKey?: string,
+  filters: ContractDataFilters,
+  fields: ContractDataField[] | undefined,
 ): Prisma.Sql {
-  const directionInCTE =
+  const directionInPage =
     cursorType === "next"
       ? sortDirection
       : sortDirection === SortDirection.ASC
         ? SortDirection.DESC
         : SortDirection.ASC;
-  const op = directionInCTE === SortDirection.DESC ? "<" : ">";
-  const orderByInCTE = orderBy(directionInCTE, sortDbField, sortField, "cd.");
-  const orderByFinal = orderBy(sortDirection, sortDbField, sortField, "");
+  const op = directionInPage === SortDirection.DESC ? "<" : ">";
+  const orderByInPage = orderBy(directionInPage, sortDbField, sortField, "cd.");
+  const orderByFinal = orderBy(sortDirection, sortDbField, sortField, "pr.");
 
-  return Prisma.sql`
-    WITH paginated_result AS (
-      SELECT ${Prisma.raw(SELECT_COLUMNS)}
-      FROM contract_data cd
+  const page = selectPage(
+    fields,
+    latestLedgerSequence,
+    Prisma.sql`
       WHERE cd.contract_id = ${contractId}
-      ${filterClause(filterKey)}
+      ${filterClause(filters)}
         AND cd.key_hash ${Prisma.raw(op)} ${cursorKeyHash}
-      ${Prisma.raw(orderByInCTE)}
-      LIMIT ${limit}
-    )
-    SELECT pr.*,
-      COALESCE(pr.live_until_ledger_sequence < ${latestLedgerSequence}, false) AS expired
-    FROM paginated_result pr
-    ${Prisma.raw(orderByFinal)}
-  `;
+    `,
+    orderByInPage,
+    limit,
+  );
+  return inResponseOrder(page, orderByFinal);
 }
 
 function queryWithCursorNullSortField(
@@ -211,39 +516,37 @@ function queryWithCursorNullSortField(
   sortField: SortField,
   cursorKeyHash: string,
   cursorType: "next" | "prev",
-  filterKey?: string,
+  filters: ContractDataFilters,
+  fields: ContractDataField[] | undefined,
 ): Prisma.Sql {
-  const directionInCTE =
+  const directionInPage =
     cursorType === "next"
       ? sortDirection
       : sortDirection === SortDirection.ASC
         ? SortDirection.DESC
         : SortDirection.ASC;
-  const keyOp = directionInCTE === SortDirection.DESC ? "<" : ">";
-  const orderByInCTE = orderBy(directionInCTE, sortDbField, sortField, "cd.");
-  const orderByFinal = orderBy(sortDirection, sortDbField, sortField, "");
+  const keyOp = directionInPage === SortDirection.DESC ? "<" : ">";
+  const orderByInPage = orderBy(directionInPage, sortDbField, sortField, "cd.");
+  const orderByFinal = orderBy(sortDirection, sortDbField, sortField, "pr.");
   const sortCol = `cd.${sortDbField}`;
 
   const cursorCondition =
-    directionInCTE === SortDirection.ASC
+    directionInPage === SortDirection.ASC
       ? Prisma.sql`${Prisma.raw(sortCol)} IS NULL AND cd.key_hash ${Prisma.raw(keyOp)} ${cursorKeyHash}`
       : Prisma.sql`(${Prisma.raw(sortCol)} IS NULL AND cd.key_hash ${Prisma.raw(keyOp)} ${cursorKeyHash}) OR ${Prisma.raw(sortCol)} IS NOT NULL`;
 
-  return Prisma.sql`
-    WITH paginated_result AS (
-      SELECT ${Prisma.raw(SELECT_COLUMNS)}
-      FROM contract_data cd
+  const page = selectPage(
+    fields,
+    latestLedgerSequence,
+    Prisma.sql`
       WHERE cd.contract_id = ${contractId}
-      ${filterClause(filterKey)}
+      ${filterClause(filters)}
         AND (${cursorCondition})
-      ${Prisma.raw(orderByInCTE)}
-      LIMIT ${limit}
-    )
-    SELECT pr.*,
-      COALESCE(pr.live_until_ledger_sequence < ${latestLedgerSequence}, false) AS expired
-    FROM paginated_result pr
-    ${Prisma.raw(orderByFinal)}
-  `;
+    `,
+    orderByInPage,
+    limit,
+  );
+  return inResponseOrder(page, orderByFinal);
 }
 
 /**
@@ -258,15 +561,40 @@ export const buildContractDataQuery = (
   const {
     contractId,
     cursorData,
+    durability,
+    expiringWithin,
     filterKey,
+    keyArgs,
+    keyContains,
+    keyPrefix,
     latestLedgerSequence,
     limit,
     sortDbField,
     sortDirection,
     sortField,
+    status,
+    updatedAfter,
+    updatedBefore,
+    ledgerFrom,
+    ledgerTo,
+    fields,
   } = config;
 
   assertValidSortDbField(sortDbField);
+  const filters: ContractDataFilters = {
+    filterKey,
+    keyPrefix,
+    keyContains,
+    keyArgs,
+    durability,
+    status,
+    expiringWithin,
+    latestLedgerSequence,
+    updatedAfter,
+    updatedBefore,
+    ledgerFrom,
+    ledgerTo,
+  };
 
   if (!cursorData) {
     // First query (not paginated)
@@ -277,7 +605,8 @@ export const buildContractDataQuery = (
       sortDbField,
       sortDirection,
       sortField,
-      filterKey,
+      filters,
+      fields,
     );
   }
 
@@ -297,7 +626,8 @@ export const buildContractDataQuery = (
       sortField,
       keyHash,
       cursorData.cursorType,
-      filterKey,
+      filters,
+      fields,
     );
   }
 
@@ -312,7 +642,8 @@ export const buildContractDataQuery = (
       sortField,
       keyHash,
       cursorData.cursorType,
-      filterKey,
+      filters,
+      fields,
     );
   }
 
@@ -327,6 +658,124 @@ export const buildContractDataQuery = (
     keyHash,
     sortValue,
     cursorData.cursorType,
-    filterKey,
+    filters,
+    fields,
   );
 };
+
+/**
+ * Builds a count query for the storage endpoint that stops counting after
+ * `maxRows + 1` matching rows, so large contracts never trigger a full scan.
+ * @param contractId - Contract whose entries are counted
+ * @param filters - Same WHERE filters as the listing
+ * @param maxRows - Largest total that is counted exactly
+ * @returns Prisma.Sql returning a single `total` row (at most maxRows + 1)
+ */
+export const buildContractDataCountQuery = (
+  contractId: string,
+  filters: ContractDataFilters,
+  maxRows: number,
+): Prisma.Sql => Prisma.sql`
+    SELECT count(*)::int AS total
+    FROM (
+      SELECT 1
+      FROM ${Prisma.raw(CONTRACT_DATA_WITH_TTL)}
+      WHERE cd.contract_id = ${contractId}
+      ${filterClause(filters)}
+      LIMIT ${maxRows + 1}
+    ) capped
+  `;
+
+/**
+ * Builds an EXPLAIN query whose plan carries the planner's row estimate for
+ * the storage listing (`QUERY PLAN`[0].Plan["Plan Rows"]). Nothing is scanned.
+ * @param contractId - Contract whose entries are estimated
+ * @param filters - Same WHERE filters as the listing
+ * @returns Prisma.Sql returning the JSON query plan
+ */
+export const buildContractDataCountEstimateQuery = (
+  contractId: string,
+  filters: ContractDataFilters,
+): Prisma.Sql => Prisma.sql`
+    EXPLAIN (FORMAT JSON)
+    SELECT 1
+    FROM ${Prisma.raw(CONTRACT_DATA_WITH_TTL)}
+    WHERE cd.contract_id = ${contractId}
+    ${filterClause(filters)}
+  `;
+
+/**
+ * Builds the lookup query for a set of entries of one contract by key_hash.
+ * Matching on both key_hash and contract_id ensures entries owned by another
+ * contract are never returned. Rows come back in no particular order.
+ * @param contractId - Contract that must own the entries
+ * @param keyHashes - Primary keys of the contract_data rows (non-empty)
+ * @param latestLedgerSequence - Used to compute the `expired` column
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildContractDataEntriesQuery = (
+  contractId: string,
+  keyHashes: string[],
+  latestLedgerSequence: number,
+): Prisma.Sql => {
+  if (keyHashes.length === 0) {
+    throw new Error("At least one key hash is required");
+  }
+  return Prisma.sql`
+    SELECT ${Prisma.raw(SELECT_COLUMNS)},
+      COALESCE(cd.live_until_ledger_sequence < ${latestLedgerSequence}, false) AS expired
+    FROM ${Prisma.raw(CONTRACT_DATA_WITH_TTL)}
+    WHERE cd.key_hash IN (${Prisma.join(keyHashes)})
+      AND cd.contract_id = ${contractId}
+  `;
+};
+
+/**
+ * Builds the single-entry lookup query for the storage endpoint.
+ * @param contractId - Contract that must own the entry
+ * @param keyHash - Primary key of the contract_data row
+ * @param latestLedgerSequence - Used to compute the `expired` column
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildContractDataEntryQuery = (
+  contractId: string,
+  keyHash: string,
+  latestLedgerSequence: number,
+): Prisma.Sql =>
+  buildContractDataEntriesQuery(contractId, [keyHash], latestLedgerSequence);
+
+/**
+ * Builds a statement limiting how long the queries of the current transaction may run.
+ * Must be executed inside a transaction: the setting is transaction-local.
+ * @param timeoutMs - Statement timeout in milliseconds
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildStatementTimeoutQuery = (timeoutMs: number): Prisma.Sql =>
+  Prisma.sql`SELECT set_config('statement_timeout', ${String(timeoutMs)}, true)`;
+
+/**
+ * Builds a query returning the PostgreSQL backend process ID of the current connection.
+ * @returns Prisma.Sql safe for prisma.$queryRaw
+ */
+export const buildBackendPidQuery = (): Prisma.Sql =>
+  Prisma.sql`SELECT pg_backend_pid() AS pid`;
+
+/**
+ * Returns true when a query was cancelled by PostgreSQL's statement timeout
+ * (SQLSTATE 57014), as surfaced directly or wrapped by Prisma.
+ */
+export const isStatementTimeoutError = (err: unknown): boolean => {
+  const { code, meta } = (err ?? {}) as {
+    code?: unknown;
+    meta?: { code?: unknown };
+  };
+  return code === "57014" || meta?.code === "57014";
+};
+
+/**
+ * Builds a query cancelling the statement running on another backend.
+ * @param pid - Backend process ID from buildBackendPidQuery
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildCancelBackendQuery = (pid: number): Prisma.Sql =>
+  Prisma.sql`SELECT pg_cancel_backend(${pid}::int)`;
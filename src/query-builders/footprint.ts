@@ -0,0 +1,100 @@
+import { Prisma } from "../../generated/prisma";
+import {
+  DEFAULT_EXTEND_DURABILITIES,
+  FootprintSelector,
+} from "../types/footprint";
+import { CONTRACT_DATA_WITH_TTL } from "./contract_data";
+
+/**
+ * Builds the WHERE filters of a footprint selector.
+ * @param selector - Key symbol, key hash, durability and expiry filters
+ * @param latestLedgerSequence - Reference ledger for `expiringWithin`
+ * @returns SQL fragment (empty when the selector has no filters)
+ */
+function selectorClause(
+  { keySymbols, keyHashes, durability, expiringWithin }: FootprintSelector,
+  latestLedgerSequence: number,
+): Prisma.Sql {
+  const clauses: Prisma.Sql[] = [];
+  if (keySymbols && keySymbols.length > 0) {
+    clauses.push(Prisma.sql`AND cd.key_symbol IN (${Prisma.join(keySymbols)})`);
+  }
+  if (keyHashes && keyHashes.length > 0) {
+    clauses.push(Prisma.sql`AND cd.key_hash IN (${Prisma.join(keyHashes)})`);
+  }
+  if (durability && durability.length > 0) {
+    clauses.push(Prisma.sql`AND cd.durability IN (${Prisma.join(durability)})`);
+  }
+  if (expiringWithin !== undefined) {
+    clauses.push(
+      Prisma.sql`AND cd.live_until_ledger_sequence BETWEEN ${latestLedgerSequence} AND ${latestLedgerSequence + expiringWithin}`,
+    );
+  }
+  if (clauses.length === 0) {
+    return Prisma.empty;
+  }
+  return Prisma.join(clauses, " ");
+}
+
+/**
+ * Builds the query of archived entries a `RestoreFootprintOp` can restore:
+ * persistent and instance entries whose effective TTL ended before the
+ * reference ledger. Entries without a stored key can't be rebuilt into a
+ * `LedgerKey` and are skipped.
+ * @param contractId - Contract owning the entries
+ * @param latestLedgerSequence - Reference ledger for expiry
+ * @param selector - Optional key symbol and key hash filters
+ * @param limit - Maximum number of rows
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildRestorableEntriesQuery = (
+  contractId: string,
+  latestLedgerSequence: number,
+  selector: FootprintSelector,
+  limit: number,
+): Prisma.Sql => Prisma.sql`
+    SELECT cd.contract_id, cd.durability, cd.key_hash, cd.key_symbol, cd.key,
+      cd.live_until_ledger_sequence, cd.size_bytes
+    FROM ${Prisma.raw(CONTRACT_DATA_WITH_TTL)}
+    WHERE cd.contract_id = ${contractId}
+      AND cd.durability IN ('persistent', 'instance')
+      AND cd.live_until_ledger_sequence < ${latestLedgerSequence}
+      AND cd.key IS NOT NULL
+      ${selectorClause(selector, latestLedgerSequence)}
+    ORDER BY cd.key_hash ASC
+    LIMIT ${limit}
+  `;
+
+/**
+ * Builds the query of live entries an `ExtendFootprintTTLOp` can extend:
+ * entries of the selected durabilities whose effective TTL hasn't ended
+ * before the reference ledger (entries without a known TTL count as live).
+ * Entries without a stored key are skipped.
+ * @param contractId - Contract owning the entries
+ * @param latestLedgerSequence - Reference ledger for expiry
+ * @param selector - Filters; `durability` defaults to DEFAULT_EXTEND_DURABILITIES
+ * @param limit - Maximum number of rows
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildExtendableEntriesQuery = (
+  contractId: string,
+  latestLedgerSequence: number,
+  selector: FootprintSelector,
+  limit: number,
+): Prisma.Sql => Prisma.sql`
+    SELECT cd.contract_id, cd.durability, cd.key_hash, cd.key_symbol, cd.key,
+      cd.live_until_ledger_sequence, cd.size_bytes
+    FROM ${Prisma.raw(CONTRACT_DATA_WITH_TTL)}
+    WHERE cd.contract_id = ${contractId}
+      AND (cd.live_until_ledger_sequence IS NULL OR cd.live_until_ledger_sequence >= ${latestLedgerSequence})
+      AND cd.key IS NOT NULL
+      ${selectorClause(
+        {
+          ...selector,
+          durability: selector.durability ?? DEFAULT_EXTEND_DURABILITIES,
+        },
+        latestLedgerSequence,
+      )}
+    ORDER BY cd.key_hash ASC
+    LIMIT ${limit}
+  `;
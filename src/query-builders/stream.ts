@@ -0,0 +1,131 @@
+import { Prisma } from "../../generated/prisma";
+import { StorageChangeKind, StreamCursor } from "../types/stream";
+import {
+  CONTRACT_DATA_WITH_TTL,
+  SELECT_COLUMNS,
+  TTL_EXTENSIONS_WITH_ENTRY,
+} from "./contract_data";
+
+/**
+ * Highest ledger the indexer has written a row at, in either of its tables,
+ * served by idx_contract_data_ledger_sequence and
+ * idx_ttl_ledger_sequence_key_hash. The indexer writes ledgers in order, so
+ * every ledger below it is settled: no more rows of it will be written. Rows
+ * of this ledger itself may still be on their way.
+ */
+const INDEXED_LEDGER = `GREATEST(
+      (SELECT MAX(ledger_sequence) FROM contract_data),
+      (SELECT MAX(ledger_sequence) FROM ttl)
+    )`;
+
+/**
+ * Builds the query of the highest ledger the indexer has written a row at
+ * (null when nothing is indexed). Changes are only read up to the ledger
+ * before it.
+ * @returns Prisma.Sql safe for prisma.$queryRaw
+ */
+export const buildIndexedLedgerQuery = (): Prisma.Sql => Prisma.sql`
+    SELECT ${Prisma.raw(INDEXED_LEDGER)} AS ledger_sequence
+  `;
+
+/**
+ * Builds the query of the highest settled ledger that wrote an entry of a
+ * contract (null when the contract has no entries below the indexed ledger),
+ * served by idx_contract_data_contract_id_ledger_sequence. Changes are
+ * followed from there, so rows of a ledger still being indexed aren't missed.
+ * @param contractId - Contract ID
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildContractLatestLedgerQuery = (
+  contractId: string,
+): Prisma.Sql => Prisma.sql`
+    SELECT MAX(ledger_sequence) AS ledger_sequence
+    FROM contract_data
+    WHERE contract_id = ${contractId}
+      AND ledger_sequence < ${Prisma.raw(INDEXED_LEDGER)}
+  `;
+
+/**
+ * Builds the query of the highest settled ledger of an indexed TTL extension,
+ * across every contract (null when none is indexed), served by
+ * idx_ttl_ledger_sequence_key_hash. The ttl table has no contract_id, so TTL
+ * subscriptions start from this watermark instead of a per-contract ledger.
+ * @returns Prisma.Sql safe for prisma.$queryRaw
+ */
+export const buildLatestTtlLedgerQuery = (): Prisma.Sql => Prisma.sql`
+    SELECT MAX(ledger_sequence) AS ledger_sequence
+    FROM ttl
+    WHERE ledger_sequence < ${Prisma.raw(INDEXED_LEDGER)}
+  `;
+
+/**
+ * Rows each kind of change is read from, and the ledger column ordering them.
+ * Entry changes are ordered by the ledger that wrote the entry; an entry and
+ * the TTL written with it are an entry change. TTL changes are extensions
+ * written after the entry itself, ordered by the ledger of the extension.
+ */
+const CHANGE_SOURCES: Record<
+  StorageChangeKind,
+  { source: string; ledgerColumn: string }
+> = {
+  [StorageChangeKind.ENTRY]: {
+    source: CONTRACT_DATA_WITH_TTL,
+    ledgerColumn: "ledger_sequence",
+  },
+  [StorageChangeKind.TTL]: {
+    source: TTL_EXTENSIONS_WITH_ENTRY,
+    ledgerColumn: "last_modified_ledger",
+  },
+};
+
+/**
+ * Builds the query of the changes after each cursor, for several contracts
+ * at once: for every cursor, up to `limit` changed rows of its contract in
+ * (change ledger, key_hash) order after the cursor position and up to
+ * `settledLedger`. Rows are tagged with the index of their cursor in
+ * `cursor_index`. Entry changes are served by
+ * idx_contract_data_contract_id_ledger_sequence; TTL changes walk the ttl
+ * table from the cursor ledger through idx_ttl_ledger_sequence_key_hash,
+ * keeping the extensions of the contract's entries. The feed moves cursors to
+ * the settled ledger once read, so the walk only covers new extensions.
+ * @param kind - Kind of change
+ * @param cursors - Contract and position of each cursor (non-empty)
+ * @param settledLedger - Last ledger to read, below the indexed ledger
+ * @param latestLedgerSequence - Used to compute the `expired` column
+ * @param limit - Maximum number of rows per cursor
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildStorageChangesQuery = (
+  kind: StorageChangeKind,
+  cursors: (StreamCursor & { contractId: string })[],
+  settledLedger: number,
+  latestLedgerSequence: number,
+  limit: number,
+): Prisma.Sql => {
+  if (cursors.length === 0) {
+    throw new Error("At least one cursor is required");
+  }
+  const { source, ledgerColumn } = CHANGE_SOURCES[kind];
+  const values = Prisma.join(
+    cursors.map(
+      ({ contractId, ledger, keyHash }, index) =>
+        Prisma.sql`(${index}::int, ${contractId}::text, ${ledger}::int, ${keyHash}::text)`,
+    ),
+  );
+  return Prisma.sql`
+    SELECT changes.*
+    FROM (VALUES ${values}) AS s(cursor_index, contract_id, ledger_sequence, key_hash)
+    CROSS JOIN LATERAL (
+      SELECT s.cursor_index, ${Prisma.raw(SELECT_COLUMNS)},
+        COALESCE(cd.live_until_ledger_sequence < ${latestLedgerSequence}, false) AS expired
+      FROM ${Prisma.raw(source)}
+      WHERE cd.contract_id = s.contract_id
+        AND (cd.${Prisma.raw(ledgerColumn)} > s.ledger_sequence
+          OR (cd.${Prisma.raw(ledgerColumn)} = s.ledger_sequence AND cd.key_hash > s.key_hash))
+        AND cd.${Prisma.raw(ledgerColumn)} <= ${settledLedger}
+      ORDER BY cd.${Prisma.raw(ledgerColumn)} ASC, cd.key_hash ASC
+      LIMIT ${limit}
+    ) changes
+    ORDER BY changes.cursor_index, changes.${Prisma.raw(ledgerColumn)}, changes.key_hash
+  `;
+};
@@ -0,0 +1,79 @@
+import { Prisma } from "../../generated/prisma";
+import { CONTRACT_DATA_WITH_TTL, xdrByteLength } from "./contract_data";
+
+/**
+ * Builds the contract-wide totals of the summary endpoint: entry counts,
+ * live/expired split on the effective TTL, stored XDR sizes, update time
+ * range and effective TTL range, consistent with the rent query.
+ * @param contractId - Contract to summarize
+ * @param latestLedgerSequence - Reference ledger for the live/expired split
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildSummaryTotalsQuery = (
+  contractId: string,
+  latestLedgerSequence: number,
+): Prisma.Sql => Prisma.sql`
+    SELECT count(*)::int AS total,
+      count(*) FILTER (WHERE cd.live_until_ledger_sequence < ${latestLedgerSequence})::int AS expired,
+      COALESCE(sum(${Prisma.raw(xdrByteLength("cd.key"))}), 0)::bigint AS key_bytes,
+      COALESCE(sum(${Prisma.raw(xdrByteLength("cd.val"))}), 0)::bigint AS value_bytes,
+      min(cd.closed_at) AS earliest_closed_at,
+      max(cd.closed_at) AS latest_closed_at,
+      min(cd.live_until_ledger_sequence) AS min_ttl,
+      max(cd.live_until_ledger_sequence) AS max_ttl
+    FROM ${Prisma.raw(CONTRACT_DATA_WITH_TTL)}
+    WHERE cd.contract_id = ${contractId}
+  `;
+
+/**
+ * Builds the entry count per durability. Served from the
+ * (contract_id, durability, key_hash) index.
+ * @param contractId - Contract to summarize
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildSummaryDurabilityQuery = (contractId: string): Prisma.Sql =>
+  Prisma.sql`
+    SELECT durability, count(*)::int AS count
+    FROM contract_data
+    WHERE contract_id = ${contractId}
+    GROUP BY durability
+  `;
+
+/**
+ * Builds the most frequent key symbols with their entry counts (ties by symbol).
+ * Served from the (contract_id, key_symbol) index.
+ * @param contractId - Contract to summarize
+ * @param limit - Number of symbols to return
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildSummaryKeySymbolsQuery = (
+  contractId: string,
+  limit: number,
+): Prisma.Sql => Prisma.sql`
+    SELECT key_symbol, count(*)::int AS count
+    FROM contract_data
+    WHERE contract_id = ${contractId}
+      AND key_symbol IS NOT NULL
+    GROUP BY key_symbol
+    ORDER BY count DESC, key_symbol ASC
+    LIMIT ${limit}
+  `;
+
+/**
+ * Builds the entry count and stored XDR size per durability of the entries a
+ * TTL extension applies to (expired temporary entries can't be extended).
+ * @param contractId - Contract to summarize
+ * @param latestLedgerSequence - Reference ledger for expiry
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildSummaryRentQuery = (
+  contractId: string,
+  latestLedgerSequence: number,
+): Prisma.Sql => Prisma.sql`
+    SELECT cd.durability, count(*)::int AS count,
+      COALESCE(sum(cd.size_bytes), 0)::bigint AS size_bytes
+    FROM ${Prisma.raw(CONTRACT_DATA_WITH_TTL)}
+    WHERE cd.contract_id = ${contractId}
+      AND NOT (cd.durability = 'temporary' AND COALESCE(cd.live_until_ledger_sequence < ${latestLedgerSequence}, false))
+    GROUP BY cd.durability
+  `;
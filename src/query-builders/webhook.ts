@@ -0,0 +1,242 @@
+import { Prisma } from "../../generated/prisma";
+import { StreamCursor } from "../types/stream";
+import {
+  NewWebhookDelivery,
+  WebhookDeliveryResult,
+  WebhookDeliveryStatus,
+  WebhookRegistration,
+} from "../types/webhook";
+
+/**
+ * Advisory lock key of the webhook dispatcher, held while changes are turned
+ * into deliveries so that a single process dispatches each change.
+ */
+const WEBHOOK_DISPATCH_LOCK_KEY = 0x77656268; // "webh"
+
+/**
+ * Advisory lock key held while a registration is counted and inserted, so
+ * that concurrent registrations can't exceed the limits.
+ */
+const WEBHOOK_REGISTRATION_LOCK_KEY = 0x77656272; // "webr"
+
+/**
+ * Builds the check that the webhook tables exist.
+ * @returns Prisma.Sql safe for prisma.$queryRaw, returning `present`
+ */
+export const buildWebhookTablesExistQuery = (): Prisma.Sql => Prisma.sql`
+    SELECT to_regclass('webhook') IS NOT NULL
+      AND to_regclass('webhook_delivery') IS NOT NULL AS present
+  `;
+
+/**
+ * Builds the check that any webhook is registered.
+ * @returns Prisma.Sql safe for prisma.$queryRaw, returning `present`
+ */
+export const buildAnyWebhookQuery = (): Prisma.Sql => Prisma.sql`
+    SELECT EXISTS (SELECT 1 FROM webhook) AS present
+  `;
+
+/**
+ * Builds the insert of a webhook registration, starting after `cursorLedger`.
+ * @param id - New webhook ID
+ * @param registration - Validated registration
+ * @param cursorLedger - Ledger changes are dispatched after
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized), returning the row
+ */
+export const buildInsertWebhookQuery = (
+  id: string,
+  registration: WebhookRegistration,
+  cursorLedger: number,
+): Prisma.Sql => Prisma.sql`
+    INSERT INTO webhook (id, contract_id, key_symbols, url, secret, cursor_ledger)
+    VALUES (
+      ${id}::uuid,
+      ${registration.contract_id},
+      ${registration.key_symbols ?? []}::text[],
+      ${registration.url},
+      ${registration.secret},
+      ${cursorLedger}
+    )
+    RETURNING *
+  `;
+
+/**
+ * Builds the lock serializing webhook registrations until the end of the
+ * transaction.
+ * @returns Prisma.Sql for prisma.$executeRaw
+ */
+export const buildWebhookRegistrationLockQuery = (): Prisma.Sql => Prisma.sql`
+    SELECT pg_advisory_xact_lock(${WEBHOOK_REGISTRATION_LOCK_KEY})
+  `;
+
+/**
+ * Builds the count of the webhooks registered for a contract (`count`) and
+ * in total (`total`).
+ * @param contractId - Contract ID
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildWebhookCountQuery = (contractId: string): Prisma.Sql =>
+  Prisma.sql`
+    SELECT COUNT(*) FILTER (WHERE contract_id = ${contractId})::int AS count,
+      COUNT(*)::int AS total
+    FROM webhook
+  `;
+
+/**
+ * Builds the query of a webhook by ID.
+ * @param id - Webhook ID
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildWebhookByIdQuery = (id: string): Prisma.Sql => Prisma.sql`
+    SELECT *
+    FROM webhook
+    WHERE id = ${id}::uuid
+  `;
+
+/**
+ * Builds the deletion of a webhook; its deliveries are deleted with it.
+ * @param id - Webhook ID
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized), returning the deleted ID
+ */
+export const buildDeleteWebhookQuery = (id: string): Prisma.Sql => Prisma.sql`
+    DELETE FROM webhook
+    WHERE id = ${id}::uuid
+    RETURNING id
+  `;
+
+/**
+ * Builds the query of the delivery log of a webhook, newest first.
+ * @param webhookId - Webhook ID
+ * @param status - Only deliveries with this status, when given
+ * @param limit - Maximum number of deliveries
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized)
+ */
+export const buildWebhookDeliveriesQuery = (
+  webhookId: string,
+  status: WebhookDeliveryStatus | undefined,
+  limit: number,
+): Prisma.Sql => Prisma.sql`
+    SELECT id, webhook_id, ledger_sequence, entry_count, status, attempts,
+      next_attempt_at, last_attempt_at, response_status, error, created_at
+    FROM webhook_delivery
+    WHERE webhook_id = ${webhookId}::uuid
+      ${status ? Prisma.sql`AND status = ${status}` : Prisma.empty}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${limit}
+  `;
+
+/**
+ * Builds the attempt to take the dispatch lock for the current transaction.
+ * @returns Prisma.Sql for prisma.$queryRaw, returning `locked`
+ */
+export const buildWebhookDispatchLockQuery = (): Prisma.Sql => Prisma.sql`
+    SELECT pg_try_advisory_xact_lock(${WEBHOOK_DISPATCH_LOCK_KEY}) AS locked
+  `;
+
+/**
+ * Builds the query of every webhook with its dispatch cursor.
+ * @returns Prisma.Sql for prisma.$queryRaw
+ */
+export const buildWebhookCursorsQuery = (): Prisma.Sql => Prisma.sql`
+    SELECT id, contract_id, key_symbols, cursor_ledger, cursor_key_hash
+    FROM webhook
+    ORDER BY id
+  `;
+
+/**
+ * Builds the insert of new pending deliveries, due right away.
+ * @param deliveries - Deliveries to insert (non-empty)
+ * @returns Prisma.Sql safe for prisma.$executeRaw (parameterized)
+ */
+export const buildInsertWebhookDeliveriesQuery = (
+  deliveries: NewWebhookDelivery[],
+): Prisma.Sql => {
+  if (deliveries.length === 0) {
+    throw new Error("At least one delivery is required");
+  }
+  const values = Prisma.join(
+    deliveries.map(
+      d =>
+        Prisma.sql`(${d.id}::uuid, ${d.webhookId}::uuid, ${d.ledgerSequence}, ${d.entryCount}, ${d.payload}, ${WebhookDeliveryStatus.PENDING}, now())`,
+    ),
+  );
+  return Prisma.sql`
+    INSERT INTO webhook_delivery
+      (id, webhook_id, ledger_sequence, entry_count, payload, status, next_attempt_at)
+    VALUES ${values}
+  `;
+};
+
+/**
+ * Builds the update of the dispatch cursors of several webhooks.
+ * @param cursors - New position of each webhook (non-empty)
+ * @returns Prisma.Sql safe for prisma.$executeRaw (parameterized)
+ */
+export const buildUpdateWebhookCursorsQuery = (
+  cursors: (StreamCursor & { webhookId: string })[],
+): Prisma.Sql => {
+  if (cursors.length === 0) {
+    throw new Error("At least one cursor is required");
+  }
+  const values = Prisma.join(
+    cursors.map(
+      ({ webhookId, ledger, keyHash }) =>
+        Prisma.sql`(${webhookId}::uuid, ${ledger}::int, ${keyHash}::text)`,
+    ),
+  );
+  return Prisma.sql`
+    UPDATE webhook AS w
+    SET cursor_ledger = c.ledger, cursor_key_hash = c.key_hash
+    FROM (VALUES ${values}) AS c(id, ledger, key_hash)
+    WHERE w.id = c.id
+  `;
+};
+
+/**
+ * Builds the claim of the due pending deliveries, oldest first: their next
+ * attempt is pushed back by `leaseMs`, so that a delivery whose attempt never
+ * completes (e.g. the process stopped) is retried once the lease ends.
+ * Deliveries claimed by another process are skipped.
+ * @param limit - Maximum number of deliveries
+ * @param leaseMs - Time the claim holds
+ * @returns Prisma.Sql safe for prisma.$queryRaw (parameterized), returning the claimed deliveries and their targets
+ */
+export const buildClaimWebhookDeliveriesQuery = (
+  limit: number,
+  leaseMs: number,
+): Prisma.Sql => Prisma.sql`
+    UPDATE webhook_delivery AS d
+    SET next_attempt_at = now() + ${leaseMs} * interval '1 millisecond'
+    FROM webhook AS w
+    WHERE d.webhook_id = w.id
+      AND d.id IN (
+        SELECT id
+        FROM webhook_delivery
+        WHERE status = ${WebhookDeliveryStatus.PENDING}
+          AND next_attempt_at <= now()
+        ORDER BY next_attempt_at
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+    RETURNING d.id, d.webhook_id, d.payload, d.attempts, w.url, w.secret
+  `;
+
+/**
+ * Builds the update recording the outcome of a delivery attempt.
+ * @param id - Delivery ID
+ * @param result - Outcome of the attempt
+ * @returns Prisma.Sql safe for prisma.$executeRaw (parameterized)
+ */
+export const buildRecordWebhookAttemptQuery = (
+  id: string,
+  result: WebhookDeliveryResult,
+): Prisma.Sql => Prisma.sql`
+    UPDATE webhook_delivery
+    SET status = ${result.status},
+      attempts = ${result.attempts},
+      last_attempt_at = now(),
+      next_attempt_at = now() + ${result.retryDelayMs ?? 0} * interval '1 millisecond',
+      response_status = ${result.responseStatus},
+      error = ${result.error}
+    WHERE id = ${id}::uuid
+  `;
@@ -2,7 +2,35 @@ import express, { NextFunction, Request, Response, Router } from "express";
 import { z } from "zod";
 
 import { StrKey } from "@stellar/stellar-sdk";
-import { getContractDataByContractId } from "../controllers/contract_data";
+import {
+  exportContractData,
+  getContractDataByContractId,
+  getContractDataEntryByKeyHash,
+  lookupContractDataEntries,
+} from "../controllers/contract_data";
+import { streamContractData } from "../controllers/stream";
+import { STORAGE_DURABILITIES } from "../helpers/ledger_key";
+import { scValJsonSchema } from "../helpers/scval";
+import {
+  CONTRACT_DATA_FIELDS,
+  ContractDataField,
+  CountMode,
+  DecodeFormat,
+  EntryStatus,
+  ExportFormat,
+  MAX_EXPIRING_WITHIN_LEDGERS,
+  MAX_FILTER_KEYS,
+  MAX_KEY_SEARCH_LENGTH,
+  MAX_LEDGER_SEQUENCE,
+  MAX_RENT_LEDGERS,
+  MAX_STORAGE_LOOKUP_KEYS,
+  MAX_VALUE_CONTAINS_LENGTH,
+  MIN_KEY_CONTAINS_LENGTH,
+  MIN_KEY_PREFIX_LENGTH,
+  MIN_VALUE_CONTAINS_LENGTH,
+  SortDirection,
+  SortField,
+} from "../types/contract_data";
 
 const router: Router = express.Router();
 
@@ -19,28 +47,274 @@ export const requestParamsSchema = z.object({
     .refine(v => StrKey.isValidContract(v), "Invalid Stellar contract ID"),
 });
 
+/**
+ * Validation schema for single-entry route parameters.
+ *
+ * Extends the contract ID validation with the entry's key hash (hex SHA-256).
+ */
+export const entryParamsSchema = requestParamsSchema.extend({
+  key_hash: z
+    .string()
+    .trim()
+    .regex(/^[0-9a-f]{64}$/, "Invalid key hash"),
+});
+
+/**
+ * A timestamp given as Unix seconds or an ISO 8601 date string, parsed to Unix seconds.
+ */
+const unixOrIsoTimestamp = z
+  .string()
+  .trim()
+  .refine(
+    v => /^\d+$/.test(v) || !Number.isNaN(Date.parse(v)),
+    "Expected Unix seconds or an ISO 8601 date",
+  )
+  .transform(v => (/^\d+$/.test(v) ? Number(v) : Date.parse(v) / 1000));
+
+/**
+ * A comma-separated list of `values`, parsed to its distinct values, sorted
+ * so that equivalent lists compare equal (e.g. in cursors).
+ */
+const commaSeparatedList = <T extends string>(
+  values: readonly [T, ...T[]],
+  message: string,
+) =>
+  z
+    .string()
+    .transform(v =>
+      v
+        .split(",")
+        .map(item => item.trim())
+        .filter(Boolean),
+    )
+    .pipe(z.array(z.enum(values, { error: message })).min(1, message))
+    .transform(v => [...new Set(v)].sort());
+
+/**
+ * Number of ledgers to estimate TTL extension rent for (`rent_ledgers`).
+ */
+export const rentLedgersSchema = z.coerce
+  .number()
+  .int()
+  .min(1)
+  .max(MAX_RENT_LEDGERS)
+  .optional();
+
+/**
+ * Query parameters shared by the storage listing and export: sorting, key
+ * symbol, key argument, value, status and range filters, opt-in decoded XDR
+ * output, opt-in rent estimates and field selection.
+ */
+const storageQueryFields = z.object({
+  order: z.enum(SortDirection).default(SortDirection.DESC),
+  sort_by: z.enum(SortField).default(SortField.KEY_HASH),
+  filter_key: z
+    .union([z.string(), z.array(z.string())])
+    .transform(v => {
+      const keys = (Array.isArray(v) ? v : [v])
+        .flatMap(k => k.split(","))
+        .map(k => k.trim())
+        .filter(Boolean);
+      return keys.length > 0 ? [...new Set(keys)].sort() : undefined;
+    })
+    .refine(
+      v => v === undefined || v.length <= MAX_FILTER_KEYS,
+      `Too many filter_key values, at most ${MAX_FILTER_KEYS} are allowed`,
+    )
+    .optional(),
+  key_prefix: z
+    .string()
+    .trim()
+    .min(MIN_KEY_PREFIX_LENGTH)
+    .max(MAX_KEY_SEARCH_LENGTH)
+    .optional(),
+  key_contains: z
+    .string()
+    .trim()
+    .min(MIN_KEY_CONTAINS_LENGTH)
+    .max(MAX_KEY_SEARCH_LENGTH)
+    .optional(),
+  value_contains: z
+    .string()
+    .trim()
+    .min(MIN_VALUE_CONTAINS_LENGTH)
+    .max(MAX_VALUE_CONTAINS_LENGTH)
+    .optional(),
+  durability: commaSeparatedList(
+    STORAGE_DURABILITIES,
+    `Invalid durability, must be a comma-separated list of ${STORAGE_DURABILITIES.join(", ")}`,
+  ).optional(),
+  status: z.enum(EntryStatus).optional(),
+  expiring_within: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_EXPIRING_WITHIN_LEDGERS)
+    .optional(),
+  updated_after: unixOrIsoTimestamp.optional(),
+  updated_before: unixOrIsoTimestamp.optional(),
+  ledger_from: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_LEDGER_SEQUENCE)
+    .optional(),
+  ledger_to: z.coerce.number().int().min(0).max(MAX_LEDGER_SEQUENCE).optional(),
+  decode: z.enum(DecodeFormat).optional(),
+  rent_ledgers: rentLedgersSchema,
+  // `key_hash` is always part of a selection
+  fields: commaSeparatedList(
+    CONTRACT_DATA_FIELDS,
+    `Invalid fields, must be a comma-separated list of ${CONTRACT_DATA_FIELDS.join(", ")}`,
+  )
+    .transform(v => [...new Set<ContractDataField>(["key_hash", ...v])].sort())
+    .optional(),
+});
+
+/**
+ * Checks the combinations of storage query parameters that can't be used together.
+ */
+const refineStorageQuery = (
+  q: z.output<typeof storageQueryFields>,
+  ctx: z.RefinementCtx,
+): void => {
+  if (q.expiring_within !== undefined && q.status === EntryStatus.EXPIRED) {
+    ctx.addIssue({
+      code: "custom",
+      message:
+        "expiring_within only matches live entries and cannot be combined with status=expired",
+      path: ["expiring_within"],
+    });
+  }
+  if (
+    q.updated_after !== undefined &&
+    q.updated_before !== undefined &&
+    q.updated_after >= q.updated_before
+  ) {
+    ctx.addIssue({
+      code: "custom",
+      message: "updated_after must be earlier than updated_before",
+      path: ["updated_after"],
+    });
+  }
+  if (
+    q.ledger_from !== undefined &&
+    q.ledger_to !== undefined &&
+    q.ledger_from > q.ledger_to
+  ) {
+    ctx.addIssue({
+      code: "custom",
+      message: "ledger_from must be less than or equal to ledger_to",
+      path: ["ledger_from"],
+    });
+  }
+  if (q.fields?.includes("rent_fee") && q.rent_ledgers === undefined) {
+    ctx.addIssue({
+      code: "custom",
+      message: "fields=rent_fee requires rent_ledgers",
+      path: ["fields"],
+    });
+  }
+};
+
 /**
  * Validation schema for query parameters.
  *
  * Supports pagination with cursor-based navigation, configurable result limits,
- * sorting order, and multiple sort field options.
- */
-const requestQuerySchema = z.object({
-  limit: z.coerce.number().int().min(1).max(200).default(20),
-  order: z.enum(["asc", "desc"]).default("desc"),
-  cursor: z.string().trim().optional(),
-  sort_by: z.enum(["durability", "key_hash", "ttl", "updated_at"]).optional(),
-  filter_key: z.string().trim().optional(),
+ * sorting order, multiple sort field options, key symbol and key argument
+ * filters, opt-in decoded XDR output, opt-in rent estimates, and opt-in totals (`limit=0` returns only the total).
+ */
+export const contractDataQuerySchema = storageQueryFields
+  .extend({
+    limit: z.coerce.number().int().min(0).max(200).default(20),
+    cursor: z.string().trim().optional(),
+    include_count: z.enum(CountMode).optional(),
+  })
+  // Keeps the dynamic `key_arg.N` parameters, which the controller validates
+  .loose()
+  .refine(q => q.limit > 0 || q.include_count !== undefined, {
+    message: "limit=0 is only allowed together with include_count",
+    path: ["limit"],
+  })
+  .refine(
+    q => q.value_contains === undefined || q.include_count === undefined,
+    {
+      message:
+        "include_count cannot be combined with value_contains, values are matched after decoding",
+      path: ["include_count"],
+    },
+  )
+  .superRefine(refineStorageQuery);
+
+/**
+ * Parsed storage listing query parameters.
+ */
+export type ContractDataQuery = z.output<typeof contractDataQuerySchema>;
+
+/**
+ * Validation schema for storage export query parameters: the listing's
+ * filters and output options plus the output `format`, without pagination.
+ */
+export const exportQuerySchema = storageQueryFields
+  .extend({
+    format: z.enum(ExportFormat).default(ExportFormat.NDJSON),
+  })
+  // Keeps the dynamic `key_arg.N` parameters, which the controller validates
+  .loose()
+  .superRefine(refineStorageQuery);
+
+/**
+ * Parsed storage export query parameters.
+ */
+export type ExportQuery = z.output<typeof exportQuerySchema>;
+
+/**
+ * Validation schema for single-entry query parameters.
+ */
+export const entryQuerySchema = z.object({
+  decode: z.enum(DecodeFormat).optional(),
+  rent_ledgers: rentLedgersSchema,
 });
 
+/**
+ * Parsed single-entry and lookup query parameters.
+ */
+export type EntryQuery = z.output<typeof entryQuerySchema>;
+
+/**
+ * Validation schema for the storage lookup request body.
+ *
+ * Each key is given either as base64 ScVal XDR or as typed ScVal JSON,
+ * together with the durability of the entry (defaults to persistent).
+ */
+export const lookupRequestBodySchema = z.object({
+  keys: z
+    .array(
+      z.object({
+        key: z.union([z.string().trim().min(1), scValJsonSchema]),
+        durability: z.enum(STORAGE_DURABILITIES).default("persistent"),
+      }),
+    )
+    .min(1)
+    .max(MAX_STORAGE_LOOKUP_KEYS),
+});
+
+/**
+ * Parsed storage lookup request body.
+ */
+export type LookupRequestBody = z.output<typeof lookupRequestBodySchema>;
+
 /**
  * Parses Zod validation errors into a client-friendly response payload.
  *
  * @param err - The Zod validation error to parse
- * @param paramType - The type of parameter being validated (e.g., "query", "path")
+ * @param paramType - The type of parameter being validated (e.g., "query", "path", "body")
  * @returns A structured error response with message and flattened issue details
  */
-const parseValidationError = (err: z.ZodError, paramType: "query" | "path") => {
+const parseValidationError = (
+  err: z.ZodError,
+  paramType: "query" | "path" | "body",
+) => {
   return {
     message: `Invalid ${paramType} parameters`,
     issues: err.issues.map(i => ({
@@ -55,15 +329,20 @@ const parseValidationError = (err: z.ZodError, paramType: "query" | "path") => {
  * Creates Express middleware that validates request parameters against a Zod schema.
  *
  * @param schema - The Zod schema to validate parameters against
- * @param paramType - The type of parameter to validate ("path" or "query")
+ * @param paramType - The type of parameter to validate ("path", "query" or "body")
  * @returns Express middleware function that validates and returns 400 on validation errors
  */
 export const validateParamsMiddleware = (
   schema: z.ZodTypeAny,
-  paramType: "query" | "path",
+  paramType: "query" | "path" | "body",
 ) => {
   return (req: Request, res: Response, next: NextFunction) => {
-    const target = paramType === "path" ? req.params : req.query;
+    const target =
+      paramType === "path"
+        ? req.params
+        : paramType === "body"
+          ? req.body
+          : req.query;
     const parsed = schema.safeParse(target);
     if (!parsed.success) {
       return res
@@ -72,6 +351,8 @@ export const validateParamsMiddleware = (
     }
     if (paramType === "path") {
       res.locals.parsedParams = parsed.data;
+    } else if (paramType === "body") {
+      res.locals.parsedBody = parsed.data;
     } else {
       res.locals.parsedQuery = parsed.data;
     }
@@ -79,12 +360,46 @@ export const validateParamsMiddleware = (
   };
 };
 
-// Route supports query parameters: ?cursor=xxx&limit=10&order=desc&sort_by=xxx
+// Route supports query parameters: ?cursor=xxx&limit=10&order=desc&sort_by=xxx&filter_key=a,b&key_prefix=xxx&key_contains=xxx&key_arg.0=xxx&value_contains=xxx&durability=xxx&status=live&expiring_within=N
+//   &updated_after=xxx&updated_before=xxx&ledger_from=N&ledger_to=N&decode=json&rent_ledgers=N&include_count=exact&fields=key_hash,ttl
 router.get(
   "/contract/:contract_id/storage",
   validateParamsMiddleware(requestParamsSchema, "path"),
-  validateParamsMiddleware(requestQuerySchema, "query"),
+  validateParamsMiddleware(contractDataQuerySchema, "query"),
   getContractDataByContractId,
 );
 
+// Route supports the listing's query parameters except cursor, limit and include_count, plus ?format=ndjson|csv|snapshot
+router.get(
+  "/contract/:contract_id/storage/export",
+  validateParamsMiddleware(requestParamsSchema, "path"),
+  validateParamsMiddleware(exportQuerySchema, "query"),
+  exportContractData,
+);
+
+// Server-Sent Events; resumes after the ledger in the Last-Event-ID header
+router.get(
+  "/contract/:contract_id/storage/stream",
+  validateParamsMiddleware(requestParamsSchema, "path"),
+  streamContractData,
+);
+
+// Body: { "keys": [{ "key": "<base64 xdr>" | <ScVal JSON>, "durability": "persistent" }] }
+// Route supports query parameters: ?decode=json&rent_ledgers=N
+router.post(
+  "/contract/:contract_id/storage/lookup",
+  validateParamsMiddleware(requestParamsSchema, "path"),
+  validateParamsMiddleware(entryQuerySchema, "query"),
+  validateParamsMiddleware(lookupRequestBodySchema, "body"),
+  lookupContractDataEntries,
+);
+
+// Route supports query parameters: ?decode=json&rent_ledgers=N
+router.get(
+  "/contract/:contract_id/storage/:key_hash",
+  validateParamsMiddleware(entryParamsSchema, "path"),
+  validateParamsMiddleware(entryQuerySchema, "query"),
+  getContractDataEntryByKeyHash,
+);
+
 export default router;
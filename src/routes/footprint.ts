@@ -0,0 +1,81 @@
+import express, { Router } from "express";
+import { z } from "zod";
+
+import { requestParamsSchema, validateParamsMiddleware } from "./contract_data";
+
+import {
+  buildExtendFootprint,
+  buildRestoreFootprint,
+} from "../controllers/footprint";
+import { STORAGE_DURABILITIES } from "../helpers/ledger_key";
+import {
+  MAX_EXPIRING_WITHIN_LEDGERS,
+  MAX_FILTER_KEYS,
+  MAX_KEY_SEARCH_LENGTH,
+} from "../types/contract_data";
+import { MAX_FOOTPRINT_KEY_HASHES } from "../types/footprint";
+
+const router: Router = express.Router();
+
+/**
+ * Fields of footprint selector request bodies: entries can be narrowed by key
+ * symbol and/or explicit key hashes.
+ */
+const footprintSelectorFields = z.object({
+  key_symbols: z
+    .array(z.string().trim().min(1).max(MAX_KEY_SEARCH_LENGTH))
+    .min(1)
+    .max(MAX_FILTER_KEYS)
+    .optional(),
+  key_hashes: z
+    .array(
+      z
+        .string()
+        .trim()
+        .regex(/^[0-9a-f]{64}$/, "Invalid key hash"),
+    )
+    .min(1)
+    .max(MAX_FOOTPRINT_KEY_HASHES)
+    .optional(),
+});
+
+/**
+ * Validation schema for restore footprint request bodies; an empty (or
+ * missing) body selects every archived entry of the contract.
+ */
+const footprintSelectorSchema = footprintSelectorFields.default({});
+
+/**
+ * Validation schema for extend footprint request bodies, which can also
+ * narrow entries by durability and by TTL ending within a number of ledgers;
+ * an empty (or missing) body selects every live persistent and instance entry.
+ */
+const extendFootprintSelectorSchema = footprintSelectorFields
+  .extend({
+    durability: z.array(z.enum(STORAGE_DURABILITIES)).min(1).optional(),
+    expiring_within: z
+      .number()
+      .int()
+      .min(0)
+      .max(MAX_EXPIRING_WITHIN_LEDGERS)
+      .optional(),
+  })
+  .default({});
+
+// Body: { "key_symbols": ["Balance"], "key_hashes": ["<hex>"] } (both optional)
+router.post(
+  "/contract/:contract_id/restore-footprint",
+  validateParamsMiddleware(requestParamsSchema, "path"),
+  validateParamsMiddleware(footprintSelectorSchema, "body"),
+  buildRestoreFootprint,
+);
+
+// Body: { "key_symbols": ["Balance"], "key_hashes": ["<hex>"], "durability": ["persistent"], "expiring_within": 17280 } (all optional)
+router.post(
+  "/contract/:contract_id/extend-footprint",
+  validateParamsMiddleware(requestParamsSchema, "path"),
+  validateParamsMiddleware(extendFootprintSelectorSchema, "body"),
+  buildExtendFootprint,
+);
+
+export default router;
@@ -0,0 +1,15 @@
+import express, { Router } from "express";
+
+import { requestParamsSchema, validateParamsMiddleware } from "./contract_data";
+
+import { getContractInstance } from "../controllers/instance";
+
+const router: Router = express.Router();
+
+router.get(
+  "/contract/:contract_id/instance",
+  validateParamsMiddleware(requestParamsSchema, "path"),
+  getContractInstance,
+);
+
+export default router;
@@ -0,0 +1,222 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import WebSocket, { RawData, WebSocketServer } from "ws";
+import { z } from "zod";
+
+import { requestParamsSchema } from "./contract_data";
+
+import { Env } from "../config/env";
+import {
+  closeSubscriptionSession,
+  createSubscriptionSession,
+  sendSubscriptionMessage,
+  SubscriptionSession,
+  subscribeContract,
+  unsubscribeContract,
+} from "../controllers/subscriptions";
+import { MAX_FILTER_KEYS, MAX_KEY_SEARCH_LENGTH } from "../types/contract_data";
+import {
+  SUBSCRIPTION_MAX_PAYLOAD_BYTES,
+  SUBSCRIPTION_PING_INTERVAL_MS,
+  SUBSCRIPTIONS_PATH,
+} from "../types/subscriptions";
+import { ConnectionLimiter } from "../utils/connection_limiter";
+import { logger } from "../utils/logger";
+
+/**
+ * Decides whether a WebSocket upgrade request may connect (e.g. by checking
+ * a token or the Origin header). Rejected requests get a 401 response.
+ */
+export type SubscriptionAuthenticator = (
+  req: IncomingMessage,
+) => boolean | Promise<boolean>;
+
+export type SubscriptionServerOptions = {
+  authenticate?: SubscriptionAuthenticator;
+};
+
+/**
+ * Validation schema for client messages.
+ */
+export const subscriptionMessageSchema = z.discriminatedUnion("type", [
+  requestParamsSchema.extend({
+    type: z.literal("subscribe"),
+    key_symbols: z
+      .array(z.string().trim().min(1).max(MAX_KEY_SEARCH_LENGTH))
+      .min(1)
+      .max(MAX_FILTER_KEYS)
+      .optional(),
+  }),
+  requestParamsSchema.extend({
+    type: z.literal("unsubscribe"),
+  }),
+]);
+
+/**
+ * Writes an HTTP error response on a refused upgrade and closes the socket.
+ */
+const rejectUpgrade = (socket: Duplex, status: number, reason: string) => {
+  socket.end(
+    `HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`,
+  );
+};
+
+/**
+ * Handles a client message of a subscription connection.
+ */
+const handleSubscriptionMessage = async (
+  session: SubscriptionSession,
+  data: RawData,
+  isBinary: boolean,
+): Promise<void> => {
+  let message: unknown;
+  try {
+    message = isBinary ? undefined : JSON.parse(data.toString());
+  } catch {
+    message = undefined;
+  }
+  if (message === undefined) {
+    sendSubscriptionMessage(session.socket, {
+      type: "error",
+      error: "Messages must be JSON text",
+    });
+    return;
+  }
+
+  const parsed = subscriptionMessageSchema.safeParse(message);
+  if (!parsed.success) {
+    sendSubscriptionMessage(session.socket, {
+      type: "error",
+      error: "Invalid message",
+      issues: parsed.error.issues.map(i => ({
+        path: i.path.join("."),
+        message: i.message,
+        code: i.code,
+      })),
+    });
+    return;
+  }
+
+  if (parsed.data.type === "subscribe") {
+    await subscribeContract(
+      session,
+      parsed.data.contract_id,
+      parsed.data.key_symbols,
+    );
+  } else {
+    unsubscribeContract(session, parsed.data.contract_id);
+  }
+};
+
+/**
+ * Serves WebSocket subscriptions to storage changes on `SUBSCRIPTIONS_PATH`
+ * of an HTTP server.
+ *
+ * Clients send `{ "type": "subscribe", "contract_id": "C...", "key_symbols":
+ * ["Balance"] }` (key_symbols optional) and `{ "type": "unsubscribe",
+ * "contract_id": "C..." }`, and receive `storage_change` and `ttl_change`
+ * messages for the contracts they subscribed to. Upgrades are refused with
+ * 401 when `authenticate` rejects them and 503 above WS_MAX_CONNECTIONS open
+ * connections. Connections that stop answering pings are terminated.
+ *
+ * @param server - HTTP server receiving the upgrade requests
+ * @param options - Optional authentication hook
+ * @returns The WebSocket server
+ */
+export const attachSubscriptionServer = (
+  server: Server,
+  options: SubscriptionServerOptions = {},
+): WebSocketServer => {
+  const wss = new WebSocketServer({
+    noServer: true,
+    maxPayload: SUBSCRIPTION_MAX_PAYLOAD_BYTES,
+  });
+  const connections = new ConnectionLimiter(Env.wsMaxConnections);
+  const sessions = new Set<SubscriptionSession>();
+
+  const onConnection = (socket: WebSocket, release: () => void) => {
+    const session = createSubscriptionSession(socket);
+    sessions.add(session);
+
+    socket.on("pong", () => {
+      session.alive = true;
+    });
+    socket.on("message", (data, isBinary) => {
+      handleSubscriptionMessage(session, data, isBinary).catch(err => {
+        logger.error({ err }, "Subscription message failed");
+        sendSubscriptionMessage(socket, {
+          type: "error",
+          error: "Internal Server Error",
+        });
+      });
+    });
+    socket.on("error", err => {
+      logger.warn({ err }, "Subscription connection error");
+    });
+    socket.on("close", () => {
+      sessions.delete(session);
+      closeSubscriptionSession(session);
+      release();
+    });
+  };
+
+  server.on(
+    "upgrade",
+    async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(req.url ?? "/", "http://localhost");
+      if (pathname !== SUBSCRIPTIONS_PATH) {
+        rejectUpgrade(socket, 404, "Not Found");
+        return;
+      }
+
+      try {
+        if (options.authenticate && !(await options.authenticate(req))) {
+          rejectUpgrade(socket, 401, "Unauthorized");
+          return;
+        }
+      } catch (err) {
+        logger.error({ err }, "Subscription authentication failed");
+        rejectUpgrade(socket, 500, "Internal Server Error");
+        return;
+      }
+
+      const release = connections.acquire();
+      if (!release) {
+        rejectUpgrade(socket, 503, "Service Unavailable");
+        return;
+      }
+      // A client gone before the upgrade completes frees its slot
+      socket.once("close", release);
+      wss.handleUpgrade(req, socket, head, ws => {
+        onConnection(ws, release);
+      });
+    },
+  );
+
+  const ping = setInterval(() => {
+    for (const session of sessions) {
+      if (!session.alive) {
+        session.socket.terminate();
+      } else {
+        session.alive = false;
+        session.socket.ping();
+      }
+    }
+  }, SUBSCRIPTION_PING_INTERVAL_MS);
+  ping.unref();
+  wss.on("close", () => {
+    clearInterval(ping);
+  });
+
+  return wss;
+};
+
+/**
+ * Closes every subscription connection and stops the WebSocket server.
+ */
+export const closeSubscriptionServer = (wss: WebSocketServer): void => {
+  for (const client of wss.clients) {
+    client.close(1001, "Server shutting down");
+  }
+  wss.close();
+};
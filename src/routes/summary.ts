@@ -0,0 +1,31 @@
+import express, { Router } from "express";
+import { z } from "zod";
+
+import {
+  rentLedgersSchema,
+  requestParamsSchema,
+  validateParamsMiddleware,
+} from "./contract_data";
+
+import { getContractSummary } from "../controllers/summary";
+import { MAX_SUMMARY_TOP_KEYS } from "../types/summary";
+
+const router: Router = express.Router();
+
+/**
+ * Validation schema for summary query parameters.
+ */
+const summaryQuerySchema = z.object({
+  top_keys: z.coerce.number().int().min(1).max(MAX_SUMMARY_TOP_KEYS).optional(),
+  rent_ledgers: rentLedgersSchema,
+});
+
+// Route supports query parameters: ?top_keys=N&rent_ledgers=N
+router.get(
+  "/contract/:contract_id/summary",
+  validateParamsMiddleware(requestParamsSchema, "path"),
+  validateParamsMiddleware(summaryQuerySchema, "query"),
+  getContractSummary,
+);
+
+export default router;
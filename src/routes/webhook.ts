@@ -0,0 +1,114 @@
+import express, { NextFunction, Request, Response, Router } from "express";
+import { z } from "zod";
+
+import { requestParamsSchema, validateParamsMiddleware } from "./contract_data";
+
+import { Env } from "../config/env";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  getWebhookDeliveries,
+} from "../controllers/webhook";
+import { isWebhookApiKey } from "../helpers/webhook";
+import { MAX_FILTER_KEYS, MAX_KEY_SEARCH_LENGTH } from "../types/contract_data";
+import {
+  DEFAULT_WEBHOOK_DELIVERIES_LIMIT,
+  MAX_WEBHOOK_DELIVERIES_LIMIT,
+  MAX_WEBHOOK_SECRET_LENGTH,
+  MAX_WEBHOOK_URL_LENGTH,
+  MIN_WEBHOOK_SECRET_LENGTH,
+  WebhookDeliveryStatus,
+} from "../types/webhook";
+
+const router: Router = express.Router();
+
+/**
+ * Refuses requests without one of the WEBHOOK_API_KEYS as a bearer token.
+ * Every request is refused when no key is configured. Applies to every
+ * webhook route: registrations hold their receiver's URL and delivery
+ * payloads.
+ */
+const requireWebhookApiKey = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  const key = req.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!key || !isWebhookApiKey(key, Env.webhookApiKeys)) {
+    res.status(401).json({ error: "Missing or invalid API key" });
+    return;
+  }
+  next();
+};
+
+/**
+ * Validation schema for webhook registration bodies.
+ */
+const webhookRegistrationSchema = requestParamsSchema.extend({
+  url: z
+    .url({ protocol: /^https?$/, error: "Invalid URL, must be http or https" })
+    .max(MAX_WEBHOOK_URL_LENGTH),
+  secret: z
+    .string()
+    .min(MIN_WEBHOOK_SECRET_LENGTH)
+    .max(MAX_WEBHOOK_SECRET_LENGTH),
+  key_symbols: z
+    .array(z.string().trim().min(1).max(MAX_KEY_SEARCH_LENGTH))
+    .min(1)
+    .max(MAX_FILTER_KEYS)
+    .optional(),
+});
+
+/**
+ * Validation schema for webhook route parameters.
+ */
+const webhookParamsSchema = z.object({
+  webhook_id: z.uuid("Invalid webhook ID"),
+});
+
+/**
+ * Validation schema for delivery log query parameters.
+ */
+const webhookDeliveriesQuerySchema = z.object({
+  status: z.enum(WebhookDeliveryStatus).optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_WEBHOOK_DELIVERIES_LIMIT)
+    .default(DEFAULT_WEBHOOK_DELIVERIES_LIMIT),
+});
+
+// Body: { "contract_id": "C...", "url": "https://...", "secret": "...", "key_symbols": ["Balance"] } (key_symbols optional)
+router.post(
+  "/webhooks",
+  requireWebhookApiKey,
+  validateParamsMiddleware(webhookRegistrationSchema, "body"),
+  createWebhook,
+);
+
+router.get(
+  "/webhooks/:webhook_id",
+  requireWebhookApiKey,
+  validateParamsMiddleware(webhookParamsSchema, "path"),
+  getWebhook,
+);
+
+router.delete(
+  "/webhooks/:webhook_id",
+  requireWebhookApiKey,
+  validateParamsMiddleware(webhookParamsSchema, "path"),
+  deleteWebhook,
+);
+
+// Route supports query parameters: ?status=pending|succeeded|failed&limit=20
+router.get(
+  "/webhooks/:webhook_id/deliveries",
+  requireWebhookApiKey,
+  validateParamsMiddleware(webhookParamsSchema, "path"),
+  validateParamsMiddleware(webhookDeliveriesQuerySchema, "query"),
+  getWebhookDeliveries,
+);
+
+export default router;
@@ -1,23 +1,252 @@
-import { ContractData, ContractDataDTO } from "../types/contract_data";
+import { StorageDurability } from "../helpers/ledger_key";
+import { estimateRentFee, RentSettings } from "../helpers/rent";
+import { decodeScValXdr, ScValJson, scValKeyArgs } from "../helpers/scval";
+import {
+  ContractData,
+  ContractDataDTO,
+  ContractDataField,
+  DecodeFormat,
+  ExportFormat,
+} from "../types/contract_data";
+
+/**
+ * Options controlling optional fields of the serialized output.
+ */
+export type SerializeOptions = {
+  /** When set to `json`, adds `key_decoded`, `value_decoded` and `decode_error` */
+  decode?: DecodeFormat;
+  /** When set, adds `rent_fee` for extending each entry by `ledgers` ledgers */
+  rent?: { settings: RentSettings; ledgers: number };
+  /** When set, adds `key_args`, decoded from the key XDR */
+  keyArgs?: boolean;
+};
+
+/**
+ * Decodes the stored key and value XDR of a single row into typed JSON.
+ * Failures are reported per row so that one malformed entry never fails the page.
+ */
+const decodeRow = (
+  key: string | null,
+  value: string | null,
+): Pick<ContractDataDTO, "key_decoded" | "value_decoded" | "decode_error"> => {
+  const errors: string[] = [];
+  const decode = (xdr: string | null, field: string): ScValJson | null => {
+    if (xdr === null) {
+      return null;
+    }
+    try {
+      return decodeScValXdr(xdr);
+    } catch (e) {
+      errors.push(`Failed to decode ${field}: ${(e as Error).message}`);
+      return null;
+    }
+  };
+
+  const key_decoded = decode(key, "key");
+  const value_decoded = decode(value, "value");
+  return {
+    key_decoded,
+    value_decoded,
+    decode_error: errors.length > 0 ? errors.join("; ") : null,
+  };
+};
+
+/**
+ * Decodes the key arguments following the leading symbol of a stored key.
+ * Undecodable keys yield null; `decode=json` reports their error.
+ */
+const decodeKeyArgs = (key: string | null): ScValJson[] | null => {
+  if (key === null) {
+    return null;
+  }
+  try {
+    return scValKeyArgs(decodeScValXdr(key));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Estimates the rent of extending a single entry; expired temporary entries
+ * are deleted rather than extended, so they have no estimate.
+ */
+const rentFee = (
+  row: ContractData,
+  { settings, ledgers }: NonNullable<SerializeOptions["rent"]>,
+): number | null => {
+  if (row.durability === "temporary" && row.expired) {
+    return null;
+  }
+  return estimateRentFee(settings, {
+    durability: (row.durability ?? "persistent") as StorageDurability,
+    entries: 1,
+    sizeBytes: row.size_bytes,
+    ledgers,
+  });
+};
 
 /**
  * Serializes contract_data DB rows for API response.
  * Converts buffers to strings, timestamps to Unix format, and calculates expiration status.
+ * `ttl` is the effective TTL, including extensions recorded only in the ttl table.
  * @param results - Array of raw database results
+ * @param options - Optional output settings (e.g. `decode=json`, rent estimates, `key_args`)
  * @returns Array of serialized contract data objects
  */
 export const serializeContractDataResults = (
   results: ContractData[],
+  options: SerializeOptions = {},
 ): ContractDataDTO[] => {
-  return results.map((row: ContractData) => ({
-    durability: row.durability,
-    expired: row.expired ?? null,
-    key_hash: row.key_hash,
+  return results.map((row: ContractData) => {
     // The DB stores key/val as UTF-8 bytes of base64-encoded XDR strings (e.g. "AAAAAwAAAAg=").
     // Buffer.from() is needed because Prisma returns Bytes as Uint8Array, not Buffer.
-    key: row.key ? Buffer.from(row.key).toString("utf8") : null,
-    ttl: row.live_until_ledger_sequence,
-    updated: Math.floor(row.closed_at.getTime() / 1000),
-    value: row.val ? Buffer.from(row.val).toString("utf8") : null,
-  }));
+    const key = row.key ? Buffer.from(row.key).toString("utf8") : null;
+    const value = row.val ? Buffer.from(row.val).toString("utf8") : null;
+
+    return {
+      contract_id: row.contract_id,
+      durability: row.durability,
+      expired: row.expired ?? null,
+      key_hash: row.key_hash,
+      key,
+      ...(options.keyArgs ? { key_args: decodeKeyArgs(key) } : {}),
+      key_symbol: row.key_symbol,
+      last_modified_ledger: row.last_modified_ledger,
+      ledger_sequence: row.ledger_sequence,
+      size_bytes: row.size_bytes,
+      ttl: row.live_until_ledger_sequence,
+      ttl_source: row.ttl_source ?? null,
+      updated: Math.floor(row.closed_at.getTime() / 1000),
+      value,
+      ...(options.rent ? { rent_fee: rentFee(row, options.rent) } : {}),
+      ...(options.decode === DecodeFormat.JSON ? decodeRow(key, value) : {}),
+    };
+  });
+};
+
+/**
+ * Fields kept by a `fields=` selection. `key_hash` is always kept and decoded
+ * fields follow their source field.
+ */
+const projectedFieldSet = (fields: ContractDataField[]): Set<string> => {
+  const keep = new Set<string>(["key_hash", ...fields]);
+  if (keep.has("key")) {
+    keep.add("key_decoded");
+  }
+  if (keep.has("value")) {
+    keep.add("value_decoded");
+  }
+  if (keep.has("key") || keep.has("value")) {
+    keep.add("decode_error");
+  }
+  return keep;
 };
+
+/**
+ * Restricts serialized contract data to the selected fields (`fields=` parameter).
+ * `key_hash` is always kept. Decoded fields follow their source: `key_decoded`
+ * stays with `key`, `value_decoded` with `value`, and `decode_error` with either.
+ * @param dtos - Serialized contract data objects
+ * @param fields - Selected fields
+ * @returns Contract data objects with only the selected fields
+ */
+export const projectContractDataResults = (
+  dtos: ContractDataDTO[],
+  fields: ContractDataField[],
+): Partial<ContractDataDTO>[] => {
+  const keep = projectedFieldSet(fields);
+  return dtos.map(
+    dto =>
+      Object.fromEntries(
+        Object.entries(dto).filter(([field]) => keep.has(field)),
+      ) as Partial<ContractDataDTO>,
+  );
+};
+
+/**
+ * Columns of the CSV storage export, in serialized entry order.
+ */
+const CSV_COLUMNS: (keyof ContractDataDTO)[] = [
+  "contract_id",
+  "durability",
+  "expired",
+  "key_hash",
+  "key",
+  "key_args",
+  "key_symbol",
+  "last_modified_ledger",
+  "ledger_sequence",
+  "size_bytes",
+  "ttl",
+  "ttl_source",
+  "updated",
+  "value",
+  "rent_fee",
+  "key_decoded",
+  "value_decoded",
+  "decode_error",
+];
+
+/**
+ * Returns the CSV export columns matching the serialized entries: `rent_fee`
+ * only with rent estimates, `key_args` only when decoded, decoded fields only
+ * with `decode=json`, and only the selected fields when `fields=` is set.
+ * @param options - Serialization options of the export
+ * @param fields - Selected fields, if any
+ * @returns Column names in output order
+ */
+export const contractDataCsvColumns = (
+  options: SerializeOptions,
+  fields?: ContractDataField[],
+): (keyof ContractDataDTO)[] => {
+  const keep = fields ? projectedFieldSet(fields) : undefined;
+  const decoded = new Set(["key_decoded", "value_decoded", "decode_error"]);
+  return CSV_COLUMNS.filter(
+    column =>
+      (column !== "rent_fee" || options.rent !== undefined) &&
+      (column !== "key_args" || options.keyArgs === true) &&
+      (!decoded.has(column) || options.decode === DecodeFormat.JSON) &&
+      (!keep || keep.has(column)),
+  );
+};
+
+/**
+ * Formats a CSV cell (RFC 4180): null becomes an empty cell, objects are
+ * JSON-encoded, and cells with separators, quotes or line breaks are quoted.
+ */
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Formats one CSV line, terminated by CRLF.
+ * @param cells - Cell values in column order
+ * @returns CSV line
+ */
+export const formatCsvRow = (cells: unknown[]): string =>
+  `${cells.map(csvCell).join(",")}\r\n`;
+
+/**
+ * Formats serialized entries as export output.
+ * @param dtos - Serialized (and projected) entries
+ * @param format - Export format
+ * @param columns - CSV columns (ignored for NDJSON)
+ * @returns One line per entry
+ */
+export const formatContractDataExport = (
+  dtos: Partial<ContractDataDTO>[],
+  format: ExportFormat,
+  columns: (keyof ContractDataDTO)[],
+): string =>
+  dtos
+    .map(dto =>
+      format === ExportFormat.CSV
+        ? formatCsvRow(columns.map(column => dto[column]))
+        : `${JSON.stringify(dto)}\n`,
+    )
+    .join("");
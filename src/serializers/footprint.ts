@@ -0,0 +1,164 @@
+import { SorobanDataBuilder, xdr } from "@stellar/stellar-sdk";
+import {
+  buildContractDataLedgerKey,
+  StorageDurability,
+} from "../helpers/ledger_key";
+import {
+  ExtendFootprintDTO,
+  FootprintChunkDTO,
+  FootprintEntryDTO,
+  FootprintEntryRow,
+  RestoreFootprintDTO,
+  SkippedFootprintEntryDTO,
+} from "../types/footprint";
+
+/**
+ * Footprint entry together with its rebuilt `LedgerKey`.
+ */
+export type ResolvedFootprintEntry = {
+  entry: FootprintEntryDTO;
+  ledgerKey: xdr.LedgerKey;
+  /** Stored key and value size, for chunking */
+  size_bytes: number;
+};
+
+/**
+ * Rebuilds the `LedgerKey` of a footprint entry from its stored key XDR.
+ * @param contractId - Contract owning the entry
+ * @param row - Entry row
+ * @returns Serialized entry together with its LedgerKey
+ * @throws Error when the stored key is missing or isn't valid ScVal XDR
+ */
+const toFootprintEntry = (
+  contractId: string,
+  row: FootprintEntryRow,
+): ResolvedFootprintEntry => {
+  if (!row.key) {
+    throw new Error("Missing stored key");
+  }
+  // key holds the UTF-8 bytes of the base64 ScVal XDR
+  const key = Buffer.from(row.key).toString("utf8");
+  const ledgerKey = buildContractDataLedgerKey(
+    contractId,
+    xdr.ScVal.fromXDR(key, "base64"),
+    row.durability as StorageDurability,
+  );
+  return {
+    entry: {
+      key_hash: row.key_hash,
+      durability: row.durability,
+      key_symbol: row.key_symbol,
+      key,
+      ledger_key: ledgerKey.toXDR("base64"),
+      ttl: row.live_until_ledger_sequence,
+      size_bytes: row.size_bytes,
+    },
+    ledgerKey,
+    size_bytes: row.size_bytes,
+  };
+};
+
+/**
+ * Rebuilds the `LedgerKey`s of footprint entries. Entries whose stored key
+ * can't be decoded are skipped and reported rather than failing the request.
+ * @param contractId - Contract owning the entries
+ * @param rows - Entry rows in footprint order
+ * @returns Resolved entries in footprint order, and the skipped ones
+ */
+export const resolveFootprintEntries = (
+  contractId: string,
+  rows: FootprintEntryRow[],
+): {
+  entries: ResolvedFootprintEntry[];
+  skipped: SkippedFootprintEntryDTO[];
+} => {
+  const entries: ResolvedFootprintEntry[] = [];
+  const skipped: SkippedFootprintEntryDTO[] = [];
+  for (const row of rows) {
+    try {
+      entries.push(toFootprintEntry(contractId, row));
+    } catch (e) {
+      skipped.push({
+        key_hash: row.key_hash,
+        error: `Failed to decode key: ${(e as Error).message}`,
+      });
+    }
+  }
+  return { entries, skipped };
+};
+
+/**
+ * Serializes one chunk of entries into a footprint with its
+ * `SorobanTransactionData`.
+ */
+const serializeFootprintChunk = (
+  entries: ResolvedFootprintEntry[],
+  readWrite: boolean,
+): FootprintChunkDTO => {
+  const ledgerKeys = entries.map(({ ledgerKey }) => ledgerKey);
+  const encoded = ledgerKeys.map(ledgerKey => ledgerKey.toXDR("base64"));
+  const builder = new SorobanDataBuilder();
+  return {
+    entries: entries.map(({ entry }) => entry),
+    footprint: {
+      read_only: readWrite ? [] : encoded,
+      read_write: readWrite ? encoded : [],
+    },
+    soroban_data: (readWrite
+      ? builder.setReadWrite(ledgerKeys)
+      : builder.setReadOnly(ledgerKeys)
+    )
+      .build()
+      .toXDR("base64"),
+  };
+};
+
+/**
+ * Serializes archived entries into restore footprints, one per chunk: every
+ * entry is read-write, as `RestoreFootprintOp` requires.
+ * @param contractId - Contract owning the entries
+ * @param ledger - Reference ledger the entries were found expired at
+ * @param chunks - Resolved entries, split per transaction
+ * @param skipped - Matched entries whose key couldn't be decoded
+ * @param truncated - Whether more entries matched than the footprints cover
+ * @returns Footprints with their `SorobanTransactionData` and covered entries
+ */
+export const serializeRestoreFootprint = (
+  contractId: string,
+  ledger: number,
+  chunks: ResolvedFootprintEntry[][],
+  skipped: SkippedFootprintEntryDTO[],
+  truncated: boolean,
+): RestoreFootprintDTO => ({
+  contract_id: contractId,
+  ledger,
+  entry_count: chunks.reduce((count, entries) => count + entries.length, 0),
+  truncated,
+  footprints: chunks.map(entries => serializeFootprintChunk(entries, true)),
+  skipped,
+});
+
+/**
+ * Serializes live entries into extend footprints, one per chunk: every entry
+ * is read-only, as `ExtendFootprintTTLOp` requires.
+ * @param contractId - Contract owning the entries
+ * @param ledger - Reference ledger the entries were found live at
+ * @param chunks - Resolved entries, split per transaction
+ * @param skipped - Matched entries whose key couldn't be decoded
+ * @param truncated - Whether more entries matched than the footprints cover
+ * @returns Footprints with their `SorobanTransactionData` and covered entries
+ */
+export const serializeExtendFootprint = (
+  contractId: string,
+  ledger: number,
+  chunks: ResolvedFootprintEntry[][],
+  skipped: SkippedFootprintEntryDTO[],
+  truncated: boolean,
+): ExtendFootprintDTO => ({
+  contract_id: contractId,
+  ledger,
+  entry_count: chunks.reduce((count, entries) => count + entries.length, 0),
+  truncated,
+  footprints: chunks.map(entries => serializeFootprintChunk(entries, false)),
+  skipped,
+});
@@ -0,0 +1,37 @@
+import { decodeScValXdr } from "../helpers/scval";
+import { ContractData } from "../types/contract_data";
+import { ContractInstanceDTO } from "../types/instance";
+
+/**
+ * Serializes the instance entry of a contract for API response.
+ * Decodes the stored `ContractInstance` value into its executable and
+ * instance storage; TTL fields match the storage endpoint.
+ * @param row - contract_data row of the instance entry
+ * @returns Serialized contract instance
+ * @throws Error when the stored value is not a contract instance
+ */
+export const serializeContractInstance = (
+  row: ContractData,
+): ContractInstanceDTO => {
+  const value = row.val
+    ? decodeScValXdr(Buffer.from(row.val).toString("utf8"))
+    : null;
+  if (value?.type !== "contract_instance") {
+    throw new Error(
+      `Instance entry ${row.key_hash} does not hold a contract instance`,
+    );
+  }
+
+  return {
+    contract_id: row.contract_id,
+    key_hash: row.key_hash,
+    executable: value.value.executable.type,
+    wasm_hash: value.value.executable.wasm_hash,
+    storage: value.value.storage ?? [],
+    ttl: row.live_until_ledger_sequence,
+    ttl_source: row.ttl_source ?? null,
+    expired: row.expired ?? null,
+    updated: Math.floor(row.closed_at.getTime() / 1000),
+    last_modified_ledger: row.last_modified_ledger,
+  };
+};
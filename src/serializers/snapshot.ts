@@ -0,0 +1,73 @@
+import { xdr } from "@stellar/stellar-sdk";
+import { scValToSnapshotJson } from "../helpers/snapshot";
+import { ContractData } from "../types/contract_data";
+import { LedgerSnapshotEntry, LedgerSnapshotHeader } from "../types/snapshot";
+
+/**
+ * Closes the `ledger_entries` array and the snapshot object.
+ */
+export const LEDGER_SNAPSHOT_END = "]}";
+
+/**
+ * Serializes a contract_data row as a ledger snapshot entry. Instance entries
+ * are persistent entries on the ledger.
+ * @param row - Entry row; `key` and `val` must be set
+ * @returns Ledger snapshot entry
+ */
+export const serializeLedgerSnapshotEntry = (
+  row: ContractData,
+): LedgerSnapshotEntry => {
+  // key and val hold the UTF-8 bytes of the base64 ScVal XDR
+  const decode = (value: Buffer | null) =>
+    scValToSnapshotJson(
+      xdr.ScVal.fromXDR(
+        Buffer.from(value as Buffer).toString("utf8"),
+        "base64",
+      ),
+    );
+  const ledgerKey = {
+    contract: row.contract_id,
+    key: decode(row.key),
+    durability: row.durability === "temporary" ? "temporary" : "persistent",
+  };
+
+  return [
+    { contract_data: ledgerKey },
+    [
+      {
+        last_modified_ledger_seq: row.ledger_sequence,
+        data: {
+          contract_data: { ext: "v0", ...ledgerKey, val: decode(row.val) },
+        },
+        ext: "v0",
+      },
+      row.live_until_ledger_sequence,
+    ],
+  ];
+};
+
+/**
+ * Formats the start of a ledger snapshot, up to and including its first
+ * ledger entry. Further entries are appended with
+ * `formatLedgerSnapshotEntries`, then the snapshot is closed with
+ * `LEDGER_SNAPSHOT_END`.
+ * @param header - Ledger info of the snapshot
+ * @param firstEntry - First ledger entry
+ * @returns JSON text
+ */
+export const formatLedgerSnapshotStart = (
+  header: LedgerSnapshotHeader,
+  firstEntry: LedgerSnapshotEntry,
+): string =>
+  `${JSON.stringify(header).slice(0, -1)},"ledger_entries":[${JSON.stringify(
+    firstEntry,
+  )}`;
+
+/**
+ * Formats ledger entries following earlier entries of a snapshot.
+ * @param entries - Ledger entries
+ * @returns JSON text, each entry preceded by a comma
+ */
+export const formatLedgerSnapshotEntries = (
+  entries: LedgerSnapshotEntry[],
+): string => entries.map(entry => `,${JSON.stringify(entry)}`).join("");
@@ -0,0 +1,47 @@
+import { ContractData } from "../types/contract_data";
+import { serializeContractDataResults } from "./contract_data";
+
+/**
+ * Comment line sent on idle streams; EventSource clients ignore it.
+ */
+export const SSE_HEARTBEAT = ": heartbeat\n\n";
+
+/**
+ * Formats a Server-Sent Event. `data` is JSON-encoded on a single line.
+ * @param event - Event name
+ * @param data - Event payload
+ * @param id - Event ID, stored by the client and sent back as `Last-Event-ID` on reconnect
+ * @returns Event text, terminated by a blank line
+ */
+export const formatServerSentEvent = (
+  event: string,
+  data: unknown,
+  id?: number,
+): string =>
+  `event: ${event}\n${id !== undefined ? `id: ${id}\n` : ""}data: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * Formats changed rows as `entry` events in the listing's entry shape. The
+ * last entry of each ledger carries the ledger sequence as its event ID, so a
+ * client resuming with `Last-Event-ID` only skips ledgers it fully received.
+ * @param rows - Changed rows in (ledger_sequence, key_hash) order
+ * @param complete - False when rows of the last ledger may still follow
+ * @returns Event text
+ */
+export const formatStorageChangeEvents = (
+  rows: ContractData[],
+  complete: boolean,
+): string =>
+  serializeContractDataResults(rows)
+    .map((entry, index) => {
+      const next = rows[index + 1];
+      const endsLedger = next
+        ? next.ledger_sequence !== entry.ledger_sequence
+        : complete;
+      return formatServerSentEvent(
+        "entry",
+        entry,
+        endsLedger ? entry.ledger_sequence : undefined,
+      );
+    })
+    .join("");
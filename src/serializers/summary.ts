@@ -0,0 +1,77 @@
+import { STORAGE_DURABILITIES, StorageDurability } from "../helpers/ledger_key";
+import { estimateRentFee, RentSettings } from "../helpers/rent";
+import {
+  ContractSummaryDTO,
+  SummaryDurabilityRow,
+  SummaryKeySymbolRow,
+  SummaryRentRow,
+  SummaryTotalsRow,
+} from "../types/summary";
+
+const toUnixSeconds = (date: Date | null): number | null =>
+  date ? Math.floor(date.getTime() / 1000) : null;
+
+/**
+ * Serializes the summary aggregates of a contract for API response.
+ * Every known durability is listed, with 0 when the contract has no such entries.
+ * @param contractId - Summarized contract
+ * @param ledger - Reference ledger of the live/expired split
+ * @param totals - Contract-wide totals row
+ * @param durabilityRows - Entry counts per durability
+ * @param keySymbolRows - Most frequent key symbols
+ * @param rent - Rent settings, extension and extendable entries per durability, when `rent_ledgers` is requested
+ * @returns Serialized summary
+ */
+export const serializeContractSummary = (
+  contractId: string,
+  ledger: number,
+  totals: SummaryTotalsRow,
+  durabilityRows: SummaryDurabilityRow[],
+  keySymbolRows: SummaryKeySymbolRow[],
+  rent?: { settings: RentSettings; ledgers: number; rows: SummaryRentRow[] },
+): ContractSummaryDTO => {
+  const entriesByDurability = Object.fromEntries(
+    STORAGE_DURABILITIES.map(durability => [durability, 0]),
+  ) as Record<StorageDurability, number>;
+  for (const row of durabilityRows) {
+    if (STORAGE_DURABILITIES.includes(row.durability as StorageDurability)) {
+      entriesByDurability[row.durability as StorageDurability] = row.count;
+    }
+  }
+
+  return {
+    contract_id: contractId,
+    ledger,
+    total_entries: totals.total,
+    live_entries: totals.total - totals.expired,
+    expired_entries: totals.expired,
+    entries_by_durability: entriesByDurability,
+    top_key_symbols: keySymbolRows.map(({ key_symbol, count }) => ({
+      key_symbol,
+      count,
+    })),
+    key_bytes: Number(totals.key_bytes),
+    value_bytes: Number(totals.value_bytes),
+    earliest_updated: toUnixSeconds(totals.earliest_closed_at),
+    latest_updated: toUnixSeconds(totals.latest_closed_at),
+    min_ttl: totals.min_ttl,
+    max_ttl: totals.max_ttl,
+    ...(rent
+      ? {
+          rent_ledgers: rent.ledgers,
+          rent_fee: rent.rows.reduce(
+            (total, row) =>
+              total +
+              estimateRentFee(rent.settings, {
+                durability: (row.durability ??
+                  "persistent") as StorageDurability,
+                entries: row.count,
+                sizeBytes: Number(row.size_bytes),
+                ledgers: rent.ledgers,
+              }),
+            0,
+          ),
+        }
+      : {}),
+  };
+};
@@ -0,0 +1,73 @@
+import { ContractData } from "../types/contract_data";
+import {
+  WebhookDeliveryDTO,
+  WebhookDeliveryRow,
+  WebhookDeliveryStatus,
+  WebhookDTO,
+  WebhookRow,
+} from "../types/webhook";
+import { serializeContractDataResults } from "./contract_data";
+
+/** Converts a timestamp to Unix seconds. */
+const toUnix = (date: Date): number => Math.floor(date.getTime() / 1000);
+
+/**
+ * Serializes a webhook row for API response, without its secret.
+ * @param row - Raw database row
+ * @returns Serialized webhook
+ */
+export const serializeWebhook = (row: WebhookRow): WebhookDTO => ({
+  id: row.id,
+  contract_id: row.contract_id,
+  key_symbols: row.key_symbols.length > 0 ? row.key_symbols : null,
+  url: row.url,
+  ledger: row.cursor_ledger,
+  created: toUnix(row.created_at),
+});
+
+/**
+ * Serializes delivery log rows for API response. `next_attempt` is only set
+ * for pending deliveries.
+ * @param rows - Raw database rows
+ * @returns Serialized deliveries
+ */
+export const serializeWebhookDeliveries = (
+  rows: Omit<WebhookDeliveryRow, "payload">[],
+): WebhookDeliveryDTO[] =>
+  rows.map(row => ({
+    id: row.id,
+    ledger: row.ledger_sequence,
+    entry_count: row.entry_count,
+    status: row.status,
+    attempts: row.attempts,
+    response_status: row.response_status,
+    error: row.error,
+    created: toUnix(row.created_at),
+    last_attempt: row.last_attempt_at ? toUnix(row.last_attempt_at) : null,
+    next_attempt:
+      row.status === WebhookDeliveryStatus.PENDING
+        ? toUnix(row.next_attempt_at)
+        : null,
+  }));
+
+/**
+ * Formats the request body of a delivery: the changed entries in the
+ * listing's entry shape.
+ * @param deliveryId - Delivery ID
+ * @param webhook - Webhook the delivery belongs to
+ * @param rows - Changed rows in (ledger_sequence, key_hash) order (non-empty)
+ * @returns JSON body
+ */
+export const formatWebhookPayload = (
+  deliveryId: string,
+  webhook: Pick<WebhookRow, "id" | "contract_id">,
+  rows: ContractData[],
+): string =>
+  JSON.stringify({
+    id: deliveryId,
+    type: "storage_change",
+    webhook_id: webhook.id,
+    contract_id: webhook.contract_id,
+    ledger: rows[rows.length - 1].ledger_sequence,
+    entries: serializeContractDataResults(rows),
+  });
@@ -1,4 +1,6 @@
 import { CursorData } from "../helpers/cursor";
+import { StorageDurability } from "../helpers/ledger_key";
+import { ScValJson } from "../helpers/scval";
 
 export enum SortDirection {
   ASC = "asc",
@@ -8,15 +10,162 @@ export enum SortDirection {
 export enum SortField {
   DURABILITY = "durability",
   KEY_HASH = "key_hash",
+  KEY_SYMBOL = "key_symbol",
+  LEDGER_SEQUENCE = "ledger_sequence",
+  SIZE = "size",
   TTL = "ttl",
   UPDATED_AT = "updated_at",
 }
 
+/**
+ * TTL status of an entry relative to the latest ledger.
+ */
+export enum EntryStatus {
+  LIVE = "live",
+  EXPIRED = "expired",
+}
+
+/**
+ * Table the effective TTL of an entry was read from.
+ */
+export enum TtlSource {
+  CONTRACT_DATA = "contract_data",
+  TTL = "ttl",
+}
+
+/**
+ * Optional decoded representations of the stored key/value XDR.
+ */
+export enum DecodeFormat {
+  JSON = "json",
+}
+
+/**
+ * Storage entry fields that can be selected with the `fields` parameter.
+ * `key_hash` is always returned because pagination cursors depend on it.
+ */
+export const CONTRACT_DATA_FIELDS = [
+  "contract_id",
+  "durability",
+  "expired",
+  "key",
+  "key_args",
+  "key_hash",
+  "key_symbol",
+  "last_modified_ledger",
+  "ledger_sequence",
+  "rent_fee",
+  "size_bytes",
+  "ttl",
+  "ttl_source",
+  "updated",
+  "value",
+] as const;
+
+export type ContractDataField = (typeof CONTRACT_DATA_FIELDS)[number];
+
+/**
+ * How the optional `total` of a storage listing is computed.
+ * - exact: COUNT(*) up to COUNT_EXACT_THRESHOLD rows, planner estimate above it
+ * - estimate: planner row estimate only (never scans)
+ */
+export enum CountMode {
+  EXACT = "exact",
+  ESTIMATE = "estimate",
+}
+
+/**
+ * Output formats of the storage export.
+ * - ndjson: one JSON entry per line, in the listing's entry shape
+ * - csv: header row followed by one row per entry; nested values are JSON-encoded
+ * - snapshot: soroban-sdk / stellar-cli ledger snapshot JSON, always including the instance entry
+ */
+export enum ExportFormat {
+  NDJSON = "ndjson",
+  CSV = "csv",
+  SNAPSHOT = "snapshot",
+}
+
+/**
+ * Largest total counted exactly by `include_count=exact`; larger totals fall back to the planner estimate.
+ */
+export const COUNT_EXACT_THRESHOLD = 50_000;
+
+/**
+ * Upper bound for the `expiring_within` filter, in ledgers (well above the network's max entry TTL).
+ */
+export const MAX_EXPIRING_WITHIN_LEDGERS = 10_000_000;
+
+/**
+ * Upper bound for the `rent_ledgers` extension of rent estimates, in ledgers.
+ * Requests above the network's max entry TTL are rejected once the rent settings are known.
+ */
+export const MAX_RENT_LEDGERS = 10_000_000;
+
+/**
+ * Largest ledger sequence accepted by ledger range filters (ledger sequences are uint32, stored as int4).
+ */
+export const MAX_LEDGER_SEQUENCE = 2_147_483_647;
+
+/**
+ * Maximum number of keys accepted by a single storage lookup request.
+ */
+export const MAX_STORAGE_LOOKUP_KEYS = 100;
+
+/**
+ * Maximum number of key symbols accepted by the `filter_key` list.
+ */
+export const MAX_FILTER_KEYS = 50;
+
+/**
+ * Maximum number of leading key arguments (`key_arg.0` … `key_arg.7`) accepted by the key argument filter.
+ */
+export const MAX_KEY_ARGS = 8;
+
+/**
+ * Minimum lengths of the `key_prefix` and `key_contains` search terms.
+ * Short substring terms match most rows and degrade into full contract scans.
+ */
+export const MIN_KEY_PREFIX_LENGTH = 2;
+export const MIN_KEY_CONTAINS_LENGTH = 3;
+
+/**
+ * Maximum length of a key search term (Soroban symbols are at most 32 characters).
+ */
+export const MAX_KEY_SEARCH_LENGTH = 32;
+
+/**
+ * Length bounds of the `value_contains` search term (long enough for a StrKey or i256).
+ */
+export const MIN_VALUE_CONTAINS_LENGTH = 2;
+export const MAX_VALUE_CONTAINS_LENGTH = 128;
+
+/**
+ * Rows fetched per query while scanning decoded values for `value_contains`.
+ */
+export const VALUE_SCAN_BATCH_SIZE = 500;
+
+/**
+ * Interactive transaction timeout of a single storage export batch query.
+ */
+export const EXPORT_BATCH_TIMEOUT_MS = 30_000;
+
+/**
+ * Statement timeout applied to listings with a `key_prefix`/`key_contains`/`key_arg` filter,
+ * and to `sort_by=size`, `sort_by=ttl`, `status` and `expiring_within` listings, whose size or
+ * effective TTL is computed per row rather than indexed.
+ * Kept below Prisma's default interactive transaction timeout (5s).
+ */
+export const LISTING_STATEMENT_TIMEOUT_MS = 3_000;
+
 export const VALID_SORT_DB_FIELDS = [
   "durability",
   "key_hash",
+  "key_symbol",
+  "ledger_sequence",
   "live_until_ledger_sequence",
   "closed_at",
+  "size_bytes",
 ] as const;
 
 export type SortDbField = (typeof VALID_SORT_DB_FIELDS)[number];
@@ -24,6 +173,9 @@ export type SortDbField = (typeof VALID_SORT_DB_FIELDS)[number];
 export const APIFieldToDBFieldMap: Record<SortField, SortDbField> = {
   [SortField.DURABILITY]: "durability",
   [SortField.KEY_HASH]: "key_hash",
+  [SortField.KEY_SYMBOL]: "key_symbol",
+  [SortField.LEDGER_SEQUENCE]: "ledger_sequence",
+  [SortField.SIZE]: "size_bytes",
   [SortField.TTL]: "live_until_ledger_sequence",
   [SortField.UPDATED_AT]: "closed_at",
 };
@@ -48,7 +200,33 @@ export type RequestParams = {
   sortDirection: SortDirection;
   sortField: SortField;
   sortDbField: SortDbField;
-  filterKey?: string;
+  /** Exact `key_symbol` matches (sorted, de-duplicated) */
+  filterKey?: string[];
+  /** Case-sensitive prefix match on `key_symbol` */
+  keyPrefix?: string;
+  /** Case-sensitive substring match on `key_symbol` */
+  keyContains?: string;
+  /** Leading key arguments (`key_arg.0`, `key_arg.1`, …) in ScVal text form, matched exactly */
+  keyArgs?: string[];
+  /** Case-sensitive substring match on decoded `val` content, applied in a bounded scan */
+  valueContains?: string;
+  durability?: StorageDurability[];
+  status?: EntryStatus;
+  expiringWithin?: number;
+  /** Unix seconds, inclusive lower bound on `closed_at` */
+  updatedAfter?: number;
+  /** Unix seconds, exclusive upper bound on `closed_at` */
+  updatedBefore?: number;
+  /** Inclusive lower bound on `ledger_sequence` */
+  ledgerFrom?: number;
+  /** Inclusive upper bound on `ledger_sequence` */
+  ledgerTo?: number;
+  decode?: DecodeFormat;
+  /** Ledgers to extend the TTL by in `rent_fee` estimates */
+  rentLedgers?: number;
+  includeCount?: CountMode;
+  /** Selected DTO fields (sorted, de-duplicated, always containing `key_hash`) */
+  fields?: ContractDataField[];
   pathPrefix?: string;
 };
 
@@ -70,21 +248,63 @@ export class CursorParameterMismatchError extends Error {
 }
 
 export type ContractData = {
+  contract_id: string | null;
   durability: string | null;
   key_hash: string;
+  key_symbol: string | null;
   key: Buffer | null;
   val: Buffer | null;
   closed_at: Date;
+  /** Ledger that last wrote the contract_data row */
+  ledger_sequence: number;
+  /** Latest ledger that wrote the entry or its TTL */
+  last_modified_ledger: number;
+  /** Key plus value XDR size */
+  size_bytes: number;
   live_until_ledger_sequence: number | null;
+  /** Where `live_until_ledger_sequence` came from; null when no TTL is known */
+  ttl_source?: TtlSource | null;
   expired: boolean | null;
 };
 
 export type ContractDataDTO = {
+  contract_id: string | null;
   durability: string | null;
   key_hash: string;
+  /** Leading symbol of the key (e.g. `Balance` for `[Balance, addr]`), null when the key has none */
+  key_symbol: string | null;
+  /** Key components after the leading symbol; [] for a bare symbol key, null when the key doesn't start with a symbol. Only set when requested */
+  key_args?: ScValJson[] | null;
   key: string | null;
   value: string | null;
   updated: number;
+  /** Ledger that last wrote the entry's key or value */
+  ledger_sequence: number;
+  /** Latest ledger that wrote the entry or extended its TTL */
+  last_modified_ledger: number;
+  /** Key plus value XDR size, in bytes */
+  size_bytes: number;
   ttl: number | null;
+  ttl_source: TtlSource | null;
   expired: boolean | null;
+  /**
+   * Present when `rent_ledgers` is requested: estimated fee in stroops to extend
+   * the TTL by that many ledgers; null for expired temporary entries, which can't be extended
+   */
+  rent_fee?: number | null;
+  /** Present when `decode=json` is requested */
+  key_decoded?: ScValJson | null;
+  /** Present when `decode=json` is requested */
+  value_decoded?: ScValJson | null;
+  /** Present when `decode=json` is requested; null when both key and value decoded */
+  decode_error?: string | null;
+};
+
+export type StorageLookupResultDTO = {
+  /** Requested key as base64 ScVal XDR (JSON input is normalized to XDR) */
+  key: string;
+  durability: string;
+  key_hash: string;
+  found: boolean;
+  entry: ContractDataDTO | null;
 };
@@ -0,0 +1,109 @@
+import { StorageDurability } from "../helpers/ledger_key";
+import { ContractData } from "./contract_data";
+
+/**
+ * Maximum number of entries covered by one restore or extend footprint
+ * request, across all of its chunks.
+ */
+export const MAX_FOOTPRINT_ENTRIES = 2000;
+
+/**
+ * Durabilities extended when a selector doesn't name any.
+ */
+export const DEFAULT_EXTEND_DURABILITIES: StorageDurability[] = [
+  "persistent",
+  "instance",
+];
+
+/**
+ * Maximum number of explicit key hashes accepted by a footprint selector.
+ */
+export const MAX_FOOTPRINT_KEY_HASHES = 100;
+
+/**
+ * Entries a footprint is built for; an empty selector matches the whole contract.
+ */
+export type FootprintSelector = {
+  /** Exact `key_symbol` matches */
+  keySymbols?: string[];
+  /** Exact `key_hash` matches */
+  keyHashes?: string[];
+  /** Durabilities to include */
+  durability?: StorageDurability[];
+  /** Only entries whose TTL ends within this many ledgers of the reference ledger */
+  expiringWithin?: number;
+};
+
+export type FootprintEntryRow = Pick<
+  ContractData,
+  | "contract_id"
+  | "durability"
+  | "key_hash"
+  | "key_symbol"
+  | "key"
+  | "live_until_ledger_sequence"
+  | "size_bytes"
+>;
+
+export type FootprintEntryDTO = {
+  key_hash: string;
+  durability: string | null;
+  key_symbol: string | null;
+  /** Storage key as base64 ScVal XDR */
+  key: string;
+  /** Rebuilt `LedgerKey` as base64 XDR */
+  ledger_key: string;
+  ttl: number | null;
+  size_bytes: number;
+};
+
+/**
+ * Matched entry left out of the footprints because its stored key can't be
+ * decoded into a `LedgerKey`.
+ */
+export type SkippedFootprintEntryDTO = {
+  key_hash: string;
+  error: string;
+};
+
+export type LedgerFootprintDTO = {
+  /** Base64 `LedgerKey` XDR */
+  read_only: string[];
+  /** Base64 `LedgerKey` XDR */
+  read_write: string[];
+};
+
+export type FootprintChunkDTO = {
+  entries: FootprintEntryDTO[];
+  footprint: LedgerFootprintDTO;
+  /** Base64 `SorobanTransactionData` XDR with the footprint and zero resources, for simulation */
+  soroban_data: string;
+};
+
+export type RestoreFootprintDTO = {
+  contract_id: string;
+  /** Reference ledger the entries were found expired at */
+  ledger: number;
+  /** Number of entries across all footprints */
+  entry_count: number;
+  /** True when more expired entries matched than MAX_FOOTPRINT_ENTRIES */
+  truncated: boolean;
+  /** One footprint per transaction, each within the network's footprint limits */
+  footprints: FootprintChunkDTO[];
+  /** Matched entries whose stored key couldn't be decoded */
+  skipped: SkippedFootprintEntryDTO[];
+};
+
+export type ExtendFootprintDTO = {
+  contract_id: string;
+  /** Reference ledger the entries were found live at */
+  ledger: number;
+  /** Number of entries across all footprints */
+  entry_count: number;
+  /** True when more live entries matched than MAX_FOOTPRINT_ENTRIES */
+  truncated: boolean;
+  /** One footprint per transaction, each within the network's footprint limits */
+  footprints: FootprintChunkDTO[];
+  /** Matched entries whose stored key couldn't be decoded */
+  skipped: SkippedFootprintEntryDTO[];
+};
@@ -0,0 +1,18 @@
+import { ContractInstanceJson, ScMapEntryJson } from "../helpers/scval";
+import { TtlSource } from "./contract_data";
+
+export type ContractInstanceDTO = {
+  contract_id: string | null;
+  key_hash: string;
+  /** `wasm` for uploaded contracts, `stellar_asset` for Stellar Asset Contracts */
+  executable: ContractInstanceJson["executable"]["type"];
+  /** Hex hash of the contract code; null for Stellar Asset Contracts */
+  wasm_hash: string | null;
+  /** Instance storage as decoded key/value pairs */
+  storage: ScMapEntryJson[];
+  ttl: number | null;
+  ttl_source: TtlSource | null;
+  expired: boolean | null;
+  updated: number;
+  last_modified_ledger: number;
+};
@@ -0,0 +1,29 @@
+/**
+ * Base reserve recorded in ledger snapshots, in stroops (0.5 XLM on pubnet and testnet).
+ */
+export const SNAPSHOT_BASE_RESERVE_STROOPS = 5_000_000;
+
+/**
+ * Ledger info fields of a `soroban-ledger-snapshot` `LedgerSnapshot`.
+ */
+export type LedgerSnapshotHeader = {
+  protocol_version: number;
+  sequence_number: number;
+  /** Unix time in seconds */
+  timestamp: number;
+  /** Hex SHA-256 of the network passphrase */
+  network_id: string;
+  base_reserve: number;
+  min_persistent_entry_ttl: number;
+  min_temp_entry_ttl: number;
+  max_entry_ttl: number;
+};
+
+/**
+ * One `ledger_entries` item of a ledger snapshot: the serde JSON `LedgerKey`,
+ * then the `LedgerEntry` with its live until ledger (null when no TTL is known).
+ */
+export type LedgerSnapshotEntry = [
+  ledgerKey: unknown,
+  [ledgerEntry: unknown, liveUntilLedger: number | null],
+];
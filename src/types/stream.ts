@@ -0,0 +1,72 @@
+import { ContractData } from "./contract_data";
+
+/**
+ * Interval between two polls of the storage change feed.
+ */
+export const STREAM_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Interval between heartbeat comments on an idle storage stream, short enough
+ * to keep proxies from closing the connection.
+ */
+export const STREAM_HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * Maximum number of rows read per subscriber cursor in one poll; a full batch
+ * is followed by another poll right away.
+ */
+export const STREAM_BATCH_SIZE = 500;
+
+/**
+ * Reconnection delay suggested to EventSource clients.
+ */
+export const STREAM_RETRY_MS = 5000;
+
+/**
+ * Kind of change a feed subscriber receives.
+ * - entry: entries written by the indexer (new or updated key/value), by `ledger_sequence`
+ * - ttl: TTL extensions of entries not rewritten since, by the ledger of the `ttl` row
+ */
+export enum StorageChangeKind {
+  ENTRY = "entry",
+  TTL = "ttl",
+}
+
+/**
+ * Position of a subscriber in a contract's changes: rows are delivered in
+ * (change ledger, key_hash) order, after the last delivered row. Only settled
+ * ledgers are read, so `keyHash` only marks how far a batch got into a
+ * ledger; a null `keyHash` starts after every row of `ledger`. A cursor that
+ * read every change up to the settled ledger moves to it, matching rows or not.
+ */
+export type StreamCursor = {
+  ledger: number;
+  keyHash: string | null;
+};
+
+/**
+ * Subscriber of the storage change feed.
+ */
+export type StorageChangeSubscriber = {
+  contractId: string;
+  kind: StorageChangeKind;
+  cursor: StreamCursor;
+  /**
+   * Receives the next changed rows of the contract, in cursor order.
+   * `complete` is false when rows of the last ledger may still follow.
+   * Returning false (e.g. while the client is slow) leaves the cursor in
+   * place, so the same rows are offered again on a later poll.
+   */
+  onChanges: (
+    rows: ContractData[],
+    complete: boolean,
+    latestLedgerSequence: number,
+  ) => boolean | void;
+  /** Called when the feed shuts down */
+  onClose: () => void;
+};
+
+/**
+ * contract_data row of a change query, tagged with the cursor it was read for.
+ */
+export type StorageChangeRow = ContractData & { cursor_index: number };
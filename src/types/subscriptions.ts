@@ -0,0 +1,66 @@
+import { ContractDataDTO } from "./contract_data";
+
+/**
+ * Path of the WebSocket subscription endpoint.
+ */
+export const SUBSCRIPTIONS_PATH = "/api/subscriptions";
+
+/**
+ * Maximum number of contracts a single connection can subscribe to.
+ */
+export const MAX_CONTRACT_SUBSCRIPTIONS = 100;
+
+/**
+ * Maximum size of a client message.
+ */
+export const SUBSCRIPTION_MAX_PAYLOAD_BYTES = 16 * 1024;
+
+/**
+ * Interval between two pings; a connection that did not answer the previous
+ * ping is terminated.
+ */
+export const SUBSCRIPTION_PING_INTERVAL_MS = 30_000;
+
+/**
+ * Bytes queued on a connection above which changes are held back until the
+ * client catches up.
+ */
+export const SUBSCRIPTION_MAX_BUFFERED_BYTES = 1024 * 1024;
+
+/**
+ * Subscriptions of a connection to a contract.
+ */
+export type ContractSubscription = {
+  /** Only entries with one of these key symbols are sent; null sends every entry */
+  keySymbols: Set<string> | null;
+  /** Removes the subscription's feed subscribers */
+  unsubscribes: (() => void)[];
+};
+
+/**
+ * Server message sent on a subscription connection.
+ * - subscribed / unsubscribed: acknowledges a client message; `ledger` is the
+ *   contract's latest indexed ledger, storage changes are sent after it
+ * - storage_change: entries written by the indexer (new or updated key/value)
+ * - ttl_change: entries whose TTL was extended without being rewritten
+ * - error: a client message was refused
+ */
+export type SubscriptionServerMessage =
+  | {
+      type: "subscribed";
+      contract_id: string;
+      key_symbols: string[] | null;
+      ledger: number;
+    }
+  | { type: "unsubscribed"; contract_id: string }
+  | {
+      type: "storage_change" | "ttl_change";
+      contract_id: string;
+      entries: ContractDataDTO[];
+    }
+  | {
+      type: "error";
+      error: string;
+      contract_id?: string;
+      issues?: { path: string; message: string; code: string }[];
+    };
@@ -0,0 +1,69 @@
+import { StorageDurability } from "../helpers/ledger_key";
+
+/**
+ * Number of key symbols listed in a storage summary by default, and at most (`top_keys`).
+ */
+export const DEFAULT_SUMMARY_TOP_KEYS = 10;
+export const MAX_SUMMARY_TOP_KEYS = 100;
+
+/**
+ * Statement timeout applied to each summary query, as they read every entry of the contract.
+ * Kept below Prisma's default interactive transaction timeout (5s).
+ */
+export const SUMMARY_STATEMENT_TIMEOUT_MS = 3_000;
+
+export type SummaryTotalsRow = {
+  total: number;
+  expired: number;
+  key_bytes: bigint;
+  value_bytes: bigint;
+  earliest_closed_at: Date | null;
+  latest_closed_at: Date | null;
+  min_ttl: number | null;
+  max_ttl: number | null;
+  /** Present when `rent_ledgers` is requested */
+  rent_ledgers?: number;
+  /** Estimated fee in stroops to extend the TTL of every extendable entry by `rent_ledgers` ledgers */
+  rent_fee?: number;
+};
+
+export type SummaryDurabilityRow = {
+  durability: string | null;
+  count: number;
+};
+
+export type SummaryKeySymbolRow = {
+  key_symbol: string;
+  count: number;
+};
+
+export type SummaryRentRow = {
+  durability: string | null;
+  count: number;
+  size_bytes: bigint;
+};
+
+export type ContractSummaryDTO = {
+  contract_id: string;
+  /** Reference ledger of `live_entries`/`expired_entries` */
+  ledger: number;
+  total_entries: number;
+  live_entries: number;
+  expired_entries: number;
+  entries_by_durability: Record<StorageDurability, number>;
+  /** Most frequent key symbols, most entries first */
+  top_key_symbols: SummaryKeySymbolRow[];
+  /** Total size of the stored key and value XDR */
+  key_bytes: number;
+  value_bytes: number;
+  /** Unix seconds of the oldest and newest entry update; null without entries */
+  earliest_updated: number | null;
+  latest_updated: number | null;
+  /** Lowest and highest effective TTL (live_until ledger) */
+  min_ttl: number | null;
+  max_ttl: number | null;
+  /** Present when `rent_ledgers` is requested */
+  rent_ledgers?: number;
+  /** Estimated fee in stroops to extend the TTL of every extendable entry by `rent_ledgers` ledgers */
+  rent_fee?: number;
+};
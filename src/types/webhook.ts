@@ -0,0 +1,182 @@
+/**
+ * Interval between two polls of the webhook dispatcher.
+ */
+export const WEBHOOK_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Maximum number of changed rows read per webhook in one poll, and of
+ * deliveries attempted at once; a full batch is followed by another poll
+ * right away.
+ */
+export const WEBHOOK_BATCH_SIZE = 100;
+
+/**
+ * Time a receiver has to answer a delivery.
+ */
+export const WEBHOOK_DELIVERY_TIMEOUT_MS = 10_000;
+
+/**
+ * Number of attempts after which a delivery is marked as failed.
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/**
+ * Delay before the first retry; each further retry waits twice as long.
+ */
+export const WEBHOOK_RETRY_BASE_MS = 30_000;
+
+/**
+ * Upper bound of the delay between two attempts.
+ */
+export const WEBHOOK_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Maximum number of webhooks registered for a single contract.
+ */
+export const MAX_WEBHOOKS_PER_CONTRACT = 10;
+
+/**
+ * Maximum number of webhooks registered across every contract.
+ */
+export const MAX_WEBHOOKS = 1000;
+
+/**
+ * Length bounds of a webhook signing secret.
+ */
+export const MIN_WEBHOOK_SECRET_LENGTH = 16;
+export const MAX_WEBHOOK_SECRET_LENGTH = 256;
+
+/**
+ * Maximum length of a webhook target URL.
+ */
+export const MAX_WEBHOOK_URL_LENGTH = 2048;
+
+/**
+ * Default and maximum number of deliveries per delivery log page.
+ */
+export const DEFAULT_WEBHOOK_DELIVERIES_LIMIT = 20;
+export const MAX_WEBHOOK_DELIVERIES_LIMIT = 100;
+
+/**
+ * Status of a webhook delivery.
+ * - pending: waiting for its first attempt or a retry
+ * - succeeded: the receiver answered with a 2xx status
+ * - failed: every attempt failed
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = "pending",
+  SUCCEEDED = "succeeded",
+  FAILED = "failed",
+}
+
+/**
+ * Headers of a delivery request.
+ */
+export const WEBHOOK_ID_HEADER = "X-Webhook-Id";
+export const WEBHOOK_DELIVERY_HEADER = "X-Webhook-Delivery";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/**
+ * Raw database row from the webhook table.
+ */
+export type WebhookRow = {
+  id: string;
+  contract_id: string;
+  key_symbols: string[];
+  url: string;
+  secret: string;
+  cursor_ledger: number;
+  cursor_key_hash: string | null;
+  created_at: Date;
+};
+
+/**
+ * Raw database row from the webhook_delivery table.
+ */
+export type WebhookDeliveryRow = {
+  id: string;
+  webhook_id: string;
+  ledger_sequence: number;
+  entry_count: number;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_attempt_at: Date | null;
+  response_status: number | null;
+  error: string | null;
+  created_at: Date;
+};
+
+/**
+ * Delivery recorded by the dispatcher for new changes.
+ */
+export type NewWebhookDelivery = {
+  id: string;
+  webhookId: string;
+  /** Ledger of the last entry of the delivery */
+  ledgerSequence: number;
+  entryCount: number;
+  payload: string;
+};
+
+/**
+ * Delivery claimed by the dispatcher, with the target of its webhook.
+ */
+export type WebhookDeliveryJob = Pick<
+  WebhookDeliveryRow,
+  "id" | "webhook_id" | "payload" | "attempts"
+> &
+  Pick<WebhookRow, "url" | "secret">;
+
+/**
+ * Outcome of a delivery attempt.
+ */
+export type WebhookDeliveryResult = {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** Delay before the next attempt of a pending delivery */
+  retryDelayMs: number | null;
+  responseStatus: number | null;
+  error: string | null;
+};
+
+/**
+ * New webhook registration (validated request body).
+ */
+export type WebhookRegistration = {
+  contract_id: string;
+  url: string;
+  secret: string;
+  key_symbols?: string[];
+};
+
+/**
+ * Webhook as returned by the API; the secret is never returned.
+ */
+export type WebhookDTO = {
+  id: string;
+  contract_id: string;
+  key_symbols: string[] | null;
+  url: string;
+  /** Ledger the webhook has dispatched changes up to */
+  ledger: number;
+  created: number;
+};
+
+/**
+ * Entry of the delivery log.
+ */
+export type WebhookDeliveryDTO = {
+  id: string;
+  ledger: number;
+  entry_count: number;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created: number;
+  last_attempt: number | null;
+  next_attempt: number | null;
+};
@@ -0,0 +1,32 @@
+/**
+ * Counts the open long-lived connections of a kind (streams, sockets) and
+ * refuses new ones above a per-process maximum.
+ */
+export class ConnectionLimiter {
+  private open = 0;
+
+  constructor(private readonly maxConnections: number) {}
+
+  get openConnections(): number {
+    return this.open;
+  }
+
+  /**
+   * Takes a connection slot.
+   * @returns Function releasing the slot (only the first call counts), or
+   * undefined when every slot is taken
+   */
+  acquire(): (() => void) | undefined {
+    if (this.open >= this.maxConnections) {
+      return undefined;
+    }
+    this.open += 1;
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.open -= 1;
+      }
+    };
+  }
+}
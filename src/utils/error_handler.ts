@@ -0,0 +1,63 @@
+import type { NextFunction, Request, Response } from "express";
+
+/**
+ * Client error raised by the JSON body parser: a malformed body
+ * (`entity.parse.failed`, 400), one above the size limit
+ * (`entity.too.large`, 413) or an unsupported encoding or charset (415).
+ */
+type BodyParserError = Error & {
+  status: number;
+  type?: string;
+  expose?: boolean;
+};
+
+const isBodyParserError = (err: unknown): err is BodyParserError => {
+  const { status, expose } = (err ?? {}) as Partial<BodyParserError>;
+  return (
+    err instanceof Error &&
+    typeof status === "number" &&
+    status >= 400 &&
+    status < 500 &&
+    expose === true
+  );
+};
+
+/**
+ * Error message returned for a body parser error.
+ */
+const bodyParserErrorMessage = (err: BodyParserError): string => {
+  switch (err.type) {
+    case "entity.parse.failed":
+      return "Malformed JSON request body";
+    case "entity.too.large":
+      return "Request body is too large";
+    default:
+      return err.message;
+  }
+};
+
+/**
+ * Global error handler. Request body errors are answered with their 4xx
+ * status; anything else is logged and answered with a generic 500, so
+ * unhandled exceptions don't leak to clients.
+ */
+export const errorHandler = (
+  err: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  if (isBodyParserError(err)) {
+    res.status(err.status).json({ error: bodyParserErrorMessage(err) });
+    return;
+  }
+  req.log.error(
+    { err, method: req.method, url: req.originalUrl },
+    "Unhandled error",
+  );
+  res.status(500).json({ error: "Internal Server Error" });
+};
@@ -1,5 +1,11 @@
-import { Horizon, Networks, rpc } from "@stellar/stellar-sdk";
+import { Horizon, Networks, rpc, xdr } from "@stellar/stellar-sdk";
 import { Env } from "../config/env";
+import { FootprintLimits, parseFootprintLimits } from "../helpers/footprint";
+import { parseRentSettings, RentSettings } from "../helpers/rent";
+import {
+  parseSnapshotTtlSettings,
+  SnapshotTtlSettings,
+} from "../helpers/snapshot";
 import { logger } from "./logger";
 
 const DEFAULT_TESTNET_RPC_URL = "https://soroban-testnet.stellar.org";
@@ -7,6 +13,43 @@ const DEFAULT_PUBNET_HORIZON_URL = "https://horizon.stellar.org";
 const LATEST_LEDGER_CACHE_TTL_MS = 5000;
 const STELLAR_API_TIMEOUT_MS = 10_000;
 const STALE_CACHE_MAX_MS = 10_000;
+// Config settings only change through network upgrades
+const CONFIG_SETTINGS_CACHE_TTL_MS = 10 * 60_000;
+
+/**
+ * Network config settings read for rent estimates, footprint limits and
+ * ledger snapshots.
+ */
+const SOROBAN_CONFIG_SETTING_IDS = [
+  xdr.ConfigSettingId.configSettingContractLedgerCostV0(),
+  xdr.ConfigSettingId.configSettingContractLedgerCostExtV0(),
+  xdr.ConfigSettingId.configSettingStateArchival(),
+  xdr.ConfigSettingId.configSettingLiveSorobanStateSizeWindow(),
+];
+
+/**
+ * Reads the Soroban config settings through RPC `getLedgerEntries`.
+ */
+const fetchConfigSettingsFromRpc = async (
+  client: rpc.Server,
+): Promise<xdr.ConfigSettingEntry[]> => {
+  const { entries } = await client.getLedgerEntries(
+    ...SOROBAN_CONFIG_SETTING_IDS.map(configSettingId =>
+      xdr.LedgerKey.configSetting(
+        new xdr.LedgerKeyConfigSetting({ configSettingId }),
+      ),
+    ),
+  );
+  return entries.map(entry => entry.val.configSetting());
+};
+
+/**
+ * Latest ledger as reported by RPC or Horizon.
+ */
+export type LatestLedger = {
+  sequence: number;
+  protocolVersion: number;
+};
 
 export type StellarServiceConfig = {
   networkPassphrase: string;
@@ -15,10 +58,16 @@ export type StellarServiceConfig = {
 };
 
 export class StellarService {
-  private readonly fetchLatestLedger: () => Promise<number>;
-  private cachedLatestLedgerSequence: number | undefined;
+  private readonly fetchLatestLedger: () => Promise<LatestLedger>;
+  private cachedLatestLedger: LatestLedger | undefined;
   private cachedLatestLedgerAtMs: number | undefined;
-  private ongoingFetchLatestLedger: Promise<number> | undefined;
+  private ongoingFetchLatestLedger: Promise<LatestLedger> | undefined;
+  private readonly fetchConfigSettings: () => Promise<xdr.ConfigSettingEntry[]>;
+  private cachedConfigSettings: xdr.ConfigSettingEntry[] | undefined;
+  private cachedConfigSettingsAtMs: number | undefined;
+  private ongoingFetchConfigSettings:
+    | Promise<xdr.ConfigSettingEntry[]>
+    | undefined;
 
   constructor({ networkPassphrase, rpcUrl, horizonUrl }: StellarServiceConfig) {
     const isTestnet = networkPassphrase === Networks.TESTNET;
@@ -28,14 +77,24 @@ export class StellarService {
         rpcUrl ?? DEFAULT_TESTNET_RPC_URL,
         { timeout: STELLAR_API_TIMEOUT_MS },
       );
-      this.fetchLatestLedger = async () =>
-        (await testnetRpcClient.getLatestLedger()).sequence;
+      this.fetchLatestLedger = async () => {
+        const { sequence, protocolVersion } =
+          await testnetRpcClient.getLatestLedger();
+        return { sequence, protocolVersion: Number(protocolVersion) };
+      };
+      this.fetchConfigSettings = () =>
+        fetchConfigSettingsFromRpc(testnetRpcClient);
     } else if (rpcUrl) {
       const pubnetRpcClient = new rpc.Server(rpcUrl, {
         timeout: STELLAR_API_TIMEOUT_MS,
       });
-      this.fetchLatestLedger = async () =>
-        (await pubnetRpcClient.getLatestLedger()).sequence;
+      this.fetchLatestLedger = async () => {
+        const { sequence, protocolVersion } =
+          await pubnetRpcClient.getLatestLedger();
+        return { sequence, protocolVersion: Number(protocolVersion) };
+      };
+      this.fetchConfigSettings = () =>
+        fetchConfigSettingsFromRpc(pubnetRpcClient);
     } else {
       logger.warn(
         "RPC_URL is empty for pubnet; falling back to Horizon for latest ledger.",
@@ -44,27 +103,46 @@ export class StellarService {
         horizonUrl ?? DEFAULT_PUBNET_HORIZON_URL,
       );
       pubnetHorizonClient.httpClient.defaults.timeout = STELLAR_API_TIMEOUT_MS;
-      this.fetchLatestLedger = async () =>
-        (await pubnetHorizonClient.root()).core_latest_ledger;
+      this.fetchLatestLedger = async () => {
+        const root = await pubnetHorizonClient.root();
+        return {
+          sequence: root.core_latest_ledger,
+          protocolVersion: root.current_protocol_version,
+        };
+      };
+      // Horizon doesn't serve config setting ledger entries
+      this.fetchConfigSettings = async () => {
+        throw new Error(
+          "Network config settings require RPC_URL to be set for pubnet",
+        );
+      };
     }
 
-    this.cachedLatestLedgerSequence = undefined;
+    this.cachedLatestLedger = undefined;
     this.cachedLatestLedgerAtMs = undefined;
   }
 
-  private getCachedLatestLedger(): number | undefined {
+  private getCachedLatestLedger(): LatestLedger | undefined {
     if (
-      this.cachedLatestLedgerSequence === undefined ||
+      this.cachedLatestLedger === undefined ||
       this.cachedLatestLedgerAtMs === undefined ||
       Date.now() - this.cachedLatestLedgerAtMs > LATEST_LEDGER_CACHE_TTL_MS
     ) {
       return undefined;
     }
 
-    return this.cachedLatestLedgerSequence;
+    return this.cachedLatestLedger;
   }
 
   async getLatestLedger(): Promise<number> {
+    return (await this.getLatestLedgerInfo()).sequence;
+  }
+
+  /**
+   * Returns the latest ledger sequence together with the network's protocol
+   * version, sharing the latest ledger cache.
+   */
+  async getLatestLedgerInfo(): Promise<LatestLedger> {
     const cached = this.getCachedLatestLedger();
     if (cached !== undefined) {
       return cached;
@@ -77,7 +155,7 @@ export class StellarService {
 
     this.ongoingFetchLatestLedger = this.fetchLatestLedger()
       .then(latest => {
-        this.cachedLatestLedgerSequence = latest;
+        this.cachedLatestLedger = latest;
         this.cachedLatestLedgerAtMs = Date.now();
         return latest;
       })
@@ -87,14 +165,14 @@ export class StellarService {
             ? Date.now() - this.cachedLatestLedgerAtMs
             : Infinity;
         if (
-          this.cachedLatestLedgerSequence !== undefined &&
+          this.cachedLatestLedger !== undefined &&
           staleMs < STALE_CACHE_MAX_MS
         ) {
           logger.warn(
             { err, staleMs },
             "Failed to refresh latest ledger, using stale cache",
           );
-          return this.cachedLatestLedgerSequence;
+          return this.cachedLatestLedger;
         }
         throw err;
       })
@@ -104,6 +182,58 @@ export class StellarService {
 
     return this.ongoingFetchLatestLedger;
   }
+
+  /**
+   * Returns the network's Soroban config settings, cached for
+   * CONFIG_SETTINGS_CACHE_TTL_MS. Requires RPC (Horizon doesn't serve them).
+   */
+  private async getConfigSettings(): Promise<xdr.ConfigSettingEntry[]> {
+    if (
+      this.cachedConfigSettings !== undefined &&
+      this.cachedConfigSettingsAtMs !== undefined &&
+      Date.now() - this.cachedConfigSettingsAtMs <= CONFIG_SETTINGS_CACHE_TTL_MS
+    ) {
+      return this.cachedConfigSettings;
+    }
+
+    // If there is an ongoing fetch, return the promise.
+    if (this.ongoingFetchConfigSettings) {
+      return this.ongoingFetchConfigSettings;
+    }
+
+    this.ongoingFetchConfigSettings = this.fetchConfigSettings()
+      .then(settings => {
+        this.cachedConfigSettings = settings;
+        this.cachedConfigSettingsAtMs = Date.now();
+        return settings;
+      })
+      .finally(() => {
+        this.ongoingFetchConfigSettings = undefined;
+      });
+
+    return this.ongoingFetchConfigSettings;
+  }
+
+  /**
+   * Returns the network settings used for rent estimates.
+   */
+  async getRentSettings(): Promise<RentSettings> {
+    return parseRentSettings(await this.getConfigSettings());
+  }
+
+  /**
+   * Returns the network's per-transaction footprint limits.
+   */
+  async getFootprintLimits(): Promise<FootprintLimits> {
+    return parseFootprintLimits(await this.getConfigSettings());
+  }
+
+  /**
+   * Returns the network's TTL settings recorded in ledger snapshots.
+   */
+  async getSnapshotTtlSettings(): Promise<SnapshotTtlSettings> {
+    return parseSnapshotTtlSettings(await this.getConfigSettings());
+  }
 }
 
 /**
@@ -0,0 +1,230 @@
+import {
+  buildIndexedLedgerQuery,
+  buildStorageChangesQuery,
+} from "../query-builders/stream";
+import { ContractData } from "../types/contract_data";
+import {
+  STREAM_BATCH_SIZE,
+  STREAM_POLL_INTERVAL_MS,
+  StorageChangeKind,
+  StorageChangeRow,
+  StorageChangeSubscriber,
+  StreamCursor,
+} from "../types/stream";
+import { getPrisma } from "./connect";
+import { logger } from "./logger";
+import { getStellarService } from "./stellar";
+
+export type StorageChangeFeedConfig = {
+  pollIntervalMs: number;
+  batchSize: number;
+};
+
+/**
+ * Ledger a changed row is ordered by for a kind of change.
+ */
+const changeLedger = (kind: StorageChangeKind, row: ContractData): number =>
+  kind === StorageChangeKind.TTL
+    ? row.last_modified_ledger
+    : row.ledger_sequence;
+
+/**
+ * Polls contract_data for rows written after each subscriber's cursor and
+ * hands them to the subscribers. A single polling loop serves every
+ * subscriber of the process: each poll runs one query per kind of change
+ * covering all cursors, and subscribers at the same position share a cursor.
+ * Only settled ledgers, below the highest ledger the indexer has written, are
+ * read, so every row of a ledger is delivered before the cursor moves past it.
+ * The loop only runs while there are subscribers.
+ */
+export class StorageChangeFeed {
+  private readonly subscribers = new Set<StorageChangeSubscriber>();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private polling = false;
+  private closed = false;
+
+  constructor(private readonly config: StorageChangeFeedConfig) {}
+
+  get subscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Adds a subscriber; its cursor is advanced as changes are delivered.
+   * @param subscriber - Contract, starting cursor and callbacks
+   * @returns Function removing the subscriber, or undefined when the feed is
+   * closed
+   */
+  subscribe(subscriber: StorageChangeSubscriber): (() => void) | undefined {
+    if (this.closed) {
+      return undefined;
+    }
+    this.subscribers.add(subscriber);
+    this.schedule(this.config.pollIntervalMs);
+
+    return () => {
+      this.subscribers.delete(subscriber);
+      if (this.subscribers.size === 0 && this.timer) {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+      }
+    };
+  }
+
+  /**
+   * Stops polling and closes every subscriber. Later subscriptions are refused.
+   */
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    for (const subscriber of this.subscribers) {
+      subscriber.onClose();
+    }
+    this.subscribers.clear();
+  }
+
+  private schedule(delayMs: number): void {
+    if (
+      this.closed ||
+      this.polling ||
+      this.timer ||
+      this.subscribers.size === 0
+    ) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.polling = true;
+      this.poll()
+        .catch(err => {
+          logger.error({ err }, "Storage change feed poll failed");
+          return false;
+        })
+        .then(hasMore => {
+          this.polling = false;
+          this.schedule(hasMore ? 0 : this.config.pollIntervalMs);
+        });
+    }, delayMs);
+    // Open streams keep the process alive, not the polling loop
+    this.timer.unref();
+  }
+
+  /**
+   * Delivers the changes after every subscriber's cursor.
+   * @returns True when a cursor got a full batch, so more rows are waiting
+   */
+  private async poll(): Promise<boolean> {
+    const [latestLedgerSequence, [{ ledger_sequence: indexedLedger }]] =
+      await Promise.all([
+        getStellarService().getLatestLedger(),
+        getPrisma().$queryRaw<{ ledger_sequence: number | null }[]>(
+          buildIndexedLedgerQuery(),
+        ),
+      ]);
+    if (indexedLedger === null) {
+      return false;
+    }
+    let hasMore = false;
+    for (const kind of Object.values(StorageChangeKind)) {
+      const subscribers = [...this.subscribers].filter(s => s.kind === kind);
+      if (subscribers.length > 0) {
+        const kindHasMore = await this.pollChanges(
+          kind,
+          subscribers,
+          indexedLedger - 1,
+          latestLedgerSequence,
+        );
+        hasMore ||= kindHasMore;
+      }
+    }
+    return hasMore;
+  }
+
+  /**
+   * Delivers one kind of changes to its subscribers.
+   * @returns True when a cursor got a full batch
+   */
+  private async pollChanges(
+    kind: StorageChangeKind,
+    subscribers: StorageChangeSubscriber[],
+    settledLedger: number,
+    latestLedgerSequence: number,
+  ): Promise<boolean> {
+    const groups = new Map<string, StorageChangeSubscriber[]>();
+    for (const subscriber of subscribers) {
+      const { contractId, cursor } = subscriber;
+      const groupKey = `${contractId}:${cursor.ledger}:${cursor.keyHash ?? ""}`;
+      groups.set(groupKey, [...(groups.get(groupKey) ?? []), subscriber]);
+    }
+    const cursorGroups = [...groups.values()];
+
+    const rows = await getPrisma().$queryRaw<StorageChangeRow[]>(
+      buildStorageChangesQuery(
+        kind,
+        cursorGroups.map(([{ contractId, cursor }]) => ({
+          contractId,
+          ...cursor,
+        })),
+        settledLedger,
+        latestLedgerSequence,
+        this.config.batchSize,
+      ),
+    );
+
+    const rowsByCursor = new Map<number, StorageChangeRow[]>();
+    for (const row of rows) {
+      rowsByCursor.set(row.cursor_index, [
+        ...(rowsByCursor.get(row.cursor_index) ?? []),
+        row,
+      ]);
+    }
+
+    let hasMore = false;
+    cursorGroups.forEach((group, index) => {
+      const batch = rowsByCursor.get(index) ?? [];
+      const complete = batch.length < this.config.batchSize;
+      hasMore ||= !complete;
+      const last = batch[batch.length - 1];
+      // A cursor that read every change up to the settled ledger moves to it,
+      // so the next poll doesn't scan those ledgers again (TTL changes are
+      // read across every contract's extensions)
+      const cursor: StreamCursor = complete
+        ? {
+            ledger: Math.max(settledLedger, group[0].cursor.ledger),
+            keyHash: null,
+          }
+        : { ledger: changeLedger(kind, last), keyHash: last.key_hash };
+      for (const subscriber of group) {
+        // Subscribers may have left while the query ran
+        if (
+          this.subscribers.has(subscriber) &&
+          (batch.length === 0 ||
+            subscriber.onChanges(batch, complete, latestLedgerSequence) !==
+              false)
+        ) {
+          subscriber.cursor = cursor;
+        }
+      }
+    });
+    return hasMore;
+  }
+}
+
+/**
+ * Singleton instance of StorageChangeFeed.
+ */
+let _storageChangeFeed: StorageChangeFeed | undefined;
+
+/**
+ * Returns a lazily-initialized singleton instance of StorageChangeFeed.
+ */
+export const getStorageChangeFeed = (): StorageChangeFeed => {
+  if (!_storageChangeFeed) {
+    _storageChangeFeed = new StorageChangeFeed({
+      pollIntervalMs: STREAM_POLL_INTERVAL_MS,
+      batchSize: STREAM_BATCH_SIZE,
+    });
+  }
+  return _storageChangeFeed;
+};
@@ -0,0 +1,352 @@
+import { randomUUID } from "crypto";
+import {
+  assertPublicWebhookUrl,
+  postWebhook,
+  signWebhookPayload,
+  webhookRetryDelayMs,
+} from "../helpers/webhook";
+import {
+  buildIndexedLedgerQuery,
+  buildStorageChangesQuery,
+} from "../query-builders/stream";
+import {
+  buildAnyWebhookQuery,
+  buildClaimWebhookDeliveriesQuery,
+  buildInsertWebhookDeliveriesQuery,
+  buildRecordWebhookAttemptQuery,
+  buildUpdateWebhookCursorsQuery,
+  buildWebhookCursorsQuery,
+  buildWebhookDispatchLockQuery,
+} from "../query-builders/webhook";
+import { formatWebhookPayload } from "../serializers/webhook";
+import {
+  StorageChangeKind,
+  StorageChangeRow,
+  StreamCursor,
+} from "../types/stream";
+import {
+  WEBHOOK_BATCH_SIZE,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_DELIVERY_TIMEOUT_MS,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_POLL_INTERVAL_MS,
+  WEBHOOK_RETRY_BASE_MS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  NewWebhookDelivery,
+  WebhookDeliveryJob,
+  WebhookDeliveryResult,
+  WebhookDeliveryStatus,
+  WebhookRow,
+} from "../types/webhook";
+import { getPrisma } from "./connect";
+import { logger } from "./logger";
+import { getStellarService } from "./stellar";
+
+export type WebhookDispatcherConfig = {
+  pollIntervalMs: number;
+  batchSize: number;
+  deliveryTimeoutMs: number;
+  maxAttempts: number;
+  retryBaseMs: number;
+};
+
+/**
+ * Turns new contract_data rows into webhook deliveries and sends them.
+ *
+ * Each poll first reads, for every webhook, the rows written after its
+ * dispatch cursor (in (ledger_sequence, key_hash) order, like the storage
+ * change feed) and records a pending delivery with the rows matching its key
+ * symbols, moving the cursor in the same transaction. It then posts the due
+ * deliveries, signed with the webhook's secret, and reschedules failed
+ * attempts with exponential backoff until WEBHOOK_MAX_ATTEMPTS. Cursors and
+ * deliveries live in Postgres, so several processes can run a dispatcher and
+ * a restart loses no change. Deliveries are at least once: one whose outcome
+ * isn't recorded is sent again, so receivers de-duplicate by delivery ID.
+ */
+export class WebhookDispatcher {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private running: Promise<void> | undefined;
+  private closed = false;
+
+  constructor(private readonly config: WebhookDispatcherConfig) {}
+
+  /**
+   * Starts the polling loop.
+   */
+  start(): void {
+    this.closed = false;
+    this.schedule(0);
+  }
+
+  /**
+   * Stops the polling loop. A delivery whose outcome isn't recorded (e.g. the
+   * process exits first) is retried once its claim ends.
+   * @returns Promise resolving once the poll in progress, if any, completes
+   */
+  close(): Promise<void> {
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    return this.running ?? Promise.resolve();
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.closed || this.running || this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.running = this.poll()
+        .catch(err => {
+          logger.error({ err }, "Webhook delivery failed");
+          return false;
+        })
+        .then(hasMore => {
+          this.running = undefined;
+          this.schedule(hasMore ? 0 : this.config.pollIntervalMs);
+        });
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Records the deliveries of new changes, then attempts the due deliveries.
+   * @returns True when either step got a full batch
+   */
+  private async poll(): Promise<boolean> {
+    const hasMoreChanges = await this.dispatchChanges().catch(err => {
+      logger.error({ err }, "Webhook dispatch failed");
+      return false;
+    });
+    const hasMoreDue = await this.deliverDue();
+    return hasMoreChanges || hasMoreDue;
+  }
+
+  /**
+   * Records deliveries for the rows written after each webhook's cursor.
+   * Skipped while another process holds the dispatch lock, and without an
+   * RPC call while no webhook is registered.
+   * @returns True when a webhook got a full batch, so more rows are waiting
+   */
+  async dispatchChanges(): Promise<boolean> {
+    const [{ present }] = await getPrisma().$queryRaw<{ present: boolean }[]>(
+      buildAnyWebhookQuery(),
+    );
+    if (!present) {
+      return false;
+    }
+    const [latestLedgerSequence, [{ ledger_sequence: indexedLedger }]] =
+      await Promise.all([
+        getStellarService().getLatestLedger(),
+        getPrisma().$queryRaw<{ ledger_sequence: number | null }[]>(
+          buildIndexedLedgerQuery(),
+        ),
+      ]);
+    if (indexedLedger === null) {
+      return false;
+    }
+
+    const settledLedger = indexedLedger - 1;
+
+    return getPrisma().$transaction(async tx => {
+      const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>(
+        buildWebhookDispatchLockQuery(),
+      );
+      if (!locked) {
+        return false;
+      }
+      const webhooks = await tx.$queryRaw<
+        Pick<
+          WebhookRow,
+          | "id"
+          | "contract_id"
+          | "key_symbols"
+          | "cursor_ledger"
+          | "cursor_key_hash"
+        >[]
+      >(buildWebhookCursorsQuery());
+      if (webhooks.length === 0) {
+        return false;
+      }
+
+      const rows = await tx.$queryRaw<StorageChangeRow[]>(
+        buildStorageChangesQuery(
+          StorageChangeKind.ENTRY,
+          webhooks.map(webhook => ({
+            contractId: webhook.contract_id,
+            ledger: webhook.cursor_ledger,
+            keyHash: webhook.cursor_key_hash,
+          })),
+          settledLedger,
+          latestLedgerSequence,
+          this.config.batchSize,
+        ),
+      );
+      const rowsByWebhook = new Map<number, StorageChangeRow[]>();
+      for (const row of rows) {
+        rowsByWebhook.set(row.cursor_index, [
+          ...(rowsByWebhook.get(row.cursor_index) ?? []),
+          row,
+        ]);
+      }
+
+      let hasMore = false;
+      const deliveries: NewWebhookDelivery[] = [];
+      const cursors: (StreamCursor & { webhookId: string })[] = [];
+      webhooks.forEach((webhook, index) => {
+        const batch = rowsByWebhook.get(index) ?? [];
+        const complete = batch.length < this.config.batchSize;
+        hasMore ||= !complete;
+        const last = batch[batch.length - 1];
+        // Like the storage change feed, a cursor that read every change up to
+        // the settled ledger moves to it, so the next poll starts there
+        const cursor: StreamCursor = complete
+          ? {
+              ledger: Math.max(settledLedger, webhook.cursor_ledger),
+              keyHash: null,
+            }
+          : { ledger: last.ledger_sequence, keyHash: last.key_hash };
+        if (
+          cursor.ledger !== webhook.cursor_ledger ||
+          cursor.keyHash !== webhook.cursor_key_hash
+        ) {
+          cursors.push({ webhookId: webhook.id, ...cursor });
+        }
+
+        const matching =
+          webhook.key_symbols.length > 0
+            ? batch.filter(
+                row =>
+                  row.key_symbol &&
+                  webhook.key_symbols.includes(row.key_symbol),
+              )
+            : batch;
+        if (matching.length > 0) {
+          const id = randomUUID();
+          deliveries.push({
+            id,
+            webhookId: webhook.id,
+            ledgerSequence: matching[matching.length - 1].ledger_sequence,
+            entryCount: matching.length,
+            payload: formatWebhookPayload(id, webhook, matching),
+          });
+        }
+      });
+
+      if (deliveries.length > 0) {
+        await tx.$executeRaw(buildInsertWebhookDeliveriesQuery(deliveries));
+      }
+      if (cursors.length > 0) {
+        await tx.$executeRaw(buildUpdateWebhookCursorsQuery(cursors));
+      }
+      return hasMore;
+    });
+  }
+
+  /**
+   * Attempts the due pending deliveries.
+   * @returns True when a full batch was due, so more deliveries may be waiting
+   */
+  async deliverDue(): Promise<boolean> {
+    const jobs = await getPrisma().$queryRaw<WebhookDeliveryJob[]>(
+      buildClaimWebhookDeliveriesQuery(
+        this.config.batchSize,
+        2 * this.config.deliveryTimeoutMs,
+      ),
+    );
+    await Promise.all(
+      jobs.map(async job => {
+        const result = await this.attempt(job);
+        await getPrisma().$executeRaw(
+          buildRecordWebhookAttemptQuery(job.id, result),
+        );
+      }),
+    );
+    return jobs.length === this.config.batchSize;
+  }
+
+  /**
+   * Posts a delivery to its webhook. Any 2xx answer is a success; redirects
+   * are not followed. The URL is resolved again first, and a host that now
+   * resolves to a non-public address fails the attempt; the request then goes
+   * to the checked addresses only.
+   */
+  private async attempt(
+    job: WebhookDeliveryJob,
+  ): Promise<WebhookDeliveryResult> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      const addresses = await assertPublicWebhookUrl(job.url);
+      responseStatus = await postWebhook(
+        job.url,
+        addresses,
+        {
+          "Content-Type": "application/json",
+          [WEBHOOK_ID_HEADER]: job.webhook_id,
+          [WEBHOOK_DELIVERY_HEADER]: job.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            job.secret,
+            timestamp,
+            job.payload,
+          ),
+        },
+        job.payload,
+        this.config.deliveryTimeoutMs,
+      );
+      if (responseStatus < 200 || responseStatus >= 300) {
+        error = `Receiver answered ${responseStatus}`;
+      }
+    } catch (e) {
+      error = (e as Error).message;
+    }
+
+    const attempts = job.attempts + 1;
+    if (!error) {
+      return {
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts,
+        retryDelayMs: null,
+        responseStatus,
+        error,
+      };
+    }
+    const exhausted = attempts >= this.config.maxAttempts;
+    return {
+      status: exhausted
+        ? WebhookDeliveryStatus.FAILED
+        : WebhookDeliveryStatus.PENDING,
+      attempts,
+      retryDelayMs: exhausted
+        ? null
+        : webhookRetryDelayMs(attempts, this.config.retryBaseMs),
+      responseStatus,
+      error,
+    };
+  }
+}
+
+/**
+ * Singleton instance of WebhookDispatcher.
+ */
+let _webhookDispatcher: WebhookDispatcher | undefined;
+
+/**
+ * Returns a lazily-initialized singleton instance of WebhookDispatcher.
+ */
+export const getWebhookDispatcher = (): WebhookDispatcher => {
+  if (!_webhookDispatcher) {
+    _webhookDispatcher = new WebhookDispatcher({
+      pollIntervalMs: WEBHOOK_POLL_INTERVAL_MS,
+      batchSize: WEBHOOK_BATCH_SIZE,
+      deliveryTimeoutMs: WEBHOOK_DELIVERY_TIMEOUT_MS,
+      maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+      retryBaseMs: WEBHOOK_RETRY_BASE_MS,
+    });
+  }
+  return _webhookDispatcher;
+};
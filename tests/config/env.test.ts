@@ -399,6 +399,113 @@ describe("Env", () => {
     });
   });
 
+  describe("valueScanMaxRows", () => {
+    test("🟢returns_default_5000_when_not_set", () => {
+      delete process.env.VALUE_SCAN_MAX_ROWS;
+      expect(Env.valueScanMaxRows).toBe(5000);
+    });
+
+    test("🟢parses_valid_value", () => {
+      process.env.VALUE_SCAN_MAX_ROWS = "20000";
+      expect(Env.valueScanMaxRows).toBe(20000);
+    });
+
+    test("🔴throws_on_non_positive_value", () => {
+      process.env.VALUE_SCAN_MAX_ROWS = "0";
+      expect(() => Env.valueScanMaxRows).toThrow(
+        'Invalid VALUE_SCAN_MAX_ROWS environment variable: "0". Expected a positive integer.',
+      );
+    });
+  });
+
+  describe("exportBatchSize", () => {
+    test("🟢returns_default_1000_when_not_set", () => {
+      delete process.env.EXPORT_BATCH_SIZE;
+      expect(Env.exportBatchSize).toBe(1000);
+    });
+
+    test("🟢parses_valid_value", () => {
+      process.env.EXPORT_BATCH_SIZE = "250";
+      expect(Env.exportBatchSize).toBe(250);
+    });
+
+    test("🔴throws_on_non_integer_value", () => {
+      process.env.EXPORT_BATCH_SIZE = "1.5";
+      expect(() => Env.exportBatchSize).toThrow(
+        'Invalid EXPORT_BATCH_SIZE environment variable: "1.5". Expected a positive integer.',
+      );
+    });
+  });
+
+  describe("streamMaxConnections", () => {
+    test("🟢returns_default_100_when_not_set", () => {
+      delete process.env.STREAM_MAX_CONNECTIONS;
+      expect(Env.streamMaxConnections).toBe(100);
+    });
+
+    test("🟢parses_valid_value", () => {
+      process.env.STREAM_MAX_CONNECTIONS = "20";
+      expect(Env.streamMaxConnections).toBe(20);
+    });
+
+    test("🔴throws_on_zero", () => {
+      process.env.STREAM_MAX_CONNECTIONS = "0";
+      expect(() => Env.streamMaxConnections).toThrow(
+        'Invalid STREAM_MAX_CONNECTIONS environment variable: "0". Expected a positive integer.',
+      );
+    });
+  });
+
+  describe("wsMaxConnections", () => {
+    test("🟢returns_default_100_when_not_set", () => {
+      delete process.env.WS_MAX_CONNECTIONS;
+      expect(Env.wsMaxConnections).toBe(100);
+    });
+
+    test("🟢parses_valid_value", () => {
+      process.env.WS_MAX_CONNECTIONS = "20";
+      expect(Env.wsMaxConnections).toBe(20);
+    });
+
+    test("🔴throws_on_non_integer", () => {
+      process.env.WS_MAX_CONNECTIONS = "1.5";
+      expect(() => Env.wsMaxConnections).toThrow(
+        'Invalid WS_MAX_CONNECTIONS environment variable: "1.5". Expected a positive integer.',
+      );
+    });
+  });
+
+  describe("webhooksEnabled", () => {
+    test("🟢returns_false_when_not_set", () => {
+      delete process.env.WEBHOOKS_ENABLED;
+      expect(Env.webhooksEnabled).toBe(false);
+    });
+
+    test("🟢returns_true_for_true_1_yes", () => {
+      for (const v of ["true", "1", " Yes "]) {
+        process.env.WEBHOOKS_ENABLED = v;
+        expect(Env.webhooksEnabled).toBe(true);
+      }
+    });
+
+    test("🟡returns_false_for_other_values", () => {
+      process.env.WEBHOOKS_ENABLED = "false";
+      expect(Env.webhooksEnabled).toBe(false);
+    });
+  });
+
+  describe("webhookApiKeys", () => {
+    test("🟢returns_empty_list_when_not_set", () => {
+      delete process.env.WEBHOOK_API_KEYS;
+      expect(Env.webhookApiKeys).toEqual([]);
+    });
+
+    test("🟢splits_and_trims_keys", () => {
+      process.env.WEBHOOK_API_KEYS = " key-a, key-b ,,";
+      expect(Env.webhookApiKeys).toEqual(["key-a", "key-b"]);
+    });
+  });
+
   describe("trustProxy", () => {
     test("🟢returns_defaults_when_not_set", () => {
       delete process.env.TRUST_PROXY;
@@ -1,9 +1,16 @@
 import type { Mock } from "vitest";
 import { Request, Response } from "express";
+import { EventEmitter } from "events";
+import { hash, xdr } from "@stellar/stellar-sdk";
 import { encodeCursor } from "../../src/helpers/cursor";
+import { computeContractDataKeyHash } from "../../src/helpers/ledger_key";
+import rentSettingsFixture from "../fixtures/rent_settings.json";
+import type { ZodType } from "zod";
 const getLatestLedgerMock = vi.fn();
 
 let mockPathPrefix: string | undefined = undefined;
+let mockValueScanMaxRows = 5000;
+let mockExportBatchSize = 1000;
 
 vi.mock("../../src/config/env", () => ({
   Env: {
@@ -26,17 +33,38 @@ vi.mock("../../src/config/env", () => ({
       const trimmed = mockPathPrefix.replace(/^\/+|\/+$/g, "");
       return trimmed.length > 0 ? `/${trimmed}` : undefined;
     },
+    get valueScanMaxRows() {
+      return mockValueScanMaxRows;
+    },
+    get exportBatchSize() {
+      return mockExportBatchSize;
+    },
   },
 }));
 
+const getRentSettingsMock = vi.fn();
+
+const getLatestLedgerInfoMock = vi.fn();
+const getSnapshotTtlSettingsMock = vi.fn();
+
 vi.mock("../../src/utils/stellar", () => ({
   getStellarService: vi.fn().mockImplementation(() => ({
     getLatestLedger: getLatestLedgerMock,
+    getLatestLedgerInfo: getLatestLedgerInfoMock,
+    getRentSettings: getRentSettingsMock,
+    getSnapshotTtlSettings: getSnapshotTtlSettingsMock,
   })),
 }));
 
 import { PrismaClient } from "../../generated/prisma";
-import { getContractDataByContractId } from "../../src/controllers/contract_data";
+import * as controllers from "../../src/controllers/contract_data";
+import {
+  contractDataQuerySchema,
+  entryQuerySchema,
+  exportQuerySchema,
+  lookupRequestBodySchema,
+  validateParamsMiddleware,
+} from "../../src/routes/contract_data";
 import "../setup-matchers"; // Import custom matchers
 import { seedTestData } from "../test-data-seeder";
 
@@ -45,6 +73,69 @@ declare global {
   var testPrismaClient: PrismaClient;
 }
 
+type Handler = (req: Request, res: Response) => Promise<unknown>;
+
+/**
+ * Runs a controller behind the route's query (and body) validation, as the
+ * router does, so that it receives the parsed parameters in `res.locals`.
+ */
+const withValidation =
+  (
+    handler: Handler,
+    schemas: Partial<Record<"query" | "body", ZodType>>,
+  ): Handler =>
+  async (req, res) => {
+    res.locals ??= {};
+    for (const [paramType, schema] of Object.entries(schemas)) {
+      let valid = false;
+      validateParamsMiddleware(schema, paramType as "query" | "body")(
+        req,
+        res,
+        () => {
+          valid = true;
+        },
+      );
+      if (!valid) {
+        return;
+      }
+    }
+    return handler(req, res);
+  };
+
+const getContractDataByContractId = withValidation(
+  controllers.getContractDataByContractId,
+  { query: contractDataQuerySchema },
+);
+const exportContractData = withValidation(controllers.exportContractData, {
+  query: exportQuerySchema,
+});
+const getContractDataEntryByKeyHash = withValidation(
+  controllers.getContractDataEntryByKeyHash,
+  { query: entryQuerySchema },
+);
+const lookupContractDataEntries = withValidation(
+  controllers.lookupContractDataEntries,
+  { query: entryQuerySchema, body: lookupRequestBodySchema },
+);
+
+/**
+ * Asserts that the route's query validation answered 400 with an issue for
+ * `path`.
+ */
+const expectInvalidQuery = (
+  res: Partial<Response>,
+  path: string,
+  message?: string,
+) => {
+  expect(res.status).toHaveBeenCalledWith(400);
+  expect(res.json).toHaveBeenCalledWith({
+    message: "Invalid query parameters",
+    issues: expect.arrayContaining([
+      expect.objectContaining(message ? { path, message } : { path }),
+    ]),
+  });
+};
+
 describe("GET /api/contract/:contract_id/storage", () => {
   let testPrismaClient: PrismaClient;
   let mockRequest: Partial<Request>;
@@ -57,7 +148,9 @@ describe("GET /api/contract/:contract_id/storage", () => {
 
   beforeEach(() => {
     getLatestLedgerMock.mockResolvedValue(700000);
+    getRentSettingsMock.mockResolvedValue(rentSettingsFixture);
     mockPathPrefix = undefined;
+    mockValueScanMaxRows = 5000;
 
     mockRequest = {
       params: {
@@ -94,10 +187,7 @@ describe("GET /api/contract/:contract_id/storage", () => {
       mockResponse as Response,
     );
 
-    expect(mockResponse.status).toHaveBeenCalledWith(400);
-    expect(mockResponse.json).toHaveBeenCalledWith({
-      error: "Invalid limit=invalid, must be an integer between 1 and 200",
-    });
+    expectInvalidQuery(mockResponse, "limit");
   });
 
   test("🔴invalid_sort_parameter_returns_400", async () => {
@@ -108,11 +198,7 @@ describe("GET /api/contract/:contract_id/storage", () => {
       mockResponse as Response,
     );
 
-    expect(mockResponse.status).toHaveBeenCalledWith(400);
-    expect(mockResponse.json).toHaveBeenCalledWith({
-      error:
-        "Invalid sort_by parameter invalid_field must be one of durability, key_hash, ttl, updated_at",
-    });
+    expectInvalidQuery(mockResponse, "sort_by");
   });
 
   test("🟡nonexistent_contract_id_returns_empty_results", async () => {
@@ -157,11 +243,17 @@ describe("GET /api/contract/:contract_id/storage", () => {
     // Verify result structure
     responseData.results.forEach((item: any) => {
       expect(item).toEqual({
+        contract_id: "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU",
         durability: expect.any(String),
         expired: expect.any(Boolean),
         key_hash: expect.stringMatching(/^[0-9a-f]{64}$/),
         key: expect.any(String),
+        key_symbol: expect.any(String),
+        last_modified_ledger: expect.any(Number),
+        ledger_sequence: expect.any(Number),
+        size_bytes: expect.any(Number),
         ttl: item.ttl === null ? null : expect.any(Number),
+        ttl_source: item.ttl === null ? null : expect.any(String),
         updated: expect.any(Number),
         value: expect.any(String),
       });
@@ -175,11 +267,17 @@ describe("GET /api/contract/:contract_id/storage", () => {
     );
     expect(matchingItem).toBeDefined();
     expect(matchingItem).toEqual({
+      contract_id: "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU",
       durability: "persistent",
       expired: expect.any(Boolean),
       key_hash: expectedKeyHash,
       key: "AAAAEAAAAAEAAAACAAAADwAAABRCaWxsaW5nQ3ljbGVQbGFuTmFtZQAAAAMAAAAD",
+      key_symbol: "BillingCyclePlanName",
+      last_modified_ledger: 59409310,
+      ledger_sequence: 59409310,
+      size_bytes: 64,
       ttl: 61482901,
+      ttl_source: "contract_data",
       updated: Math.floor(new Date("2025-10-03T15:00:36Z").getTime() / 1000),
       value: "AAAADwAAAAZpbnZpdGUAAA==",
     });
@@ -681,6 +779,27 @@ describe("GET /api/contract/:contract_id/storage", () => {
       await testPaginationTraversal("durability", "asc");
     });
 
+    test("🟢pagination_with_sort_by_key_symbol_desc", async () => {
+      await testPaginationTraversal("key_symbol", "desc");
+    });
+
+    test("🟢pagination_with_sort_by_key_symbol_asc", async () => {
+      await testPaginationTraversal("key_symbol", "asc");
+    });
+
+    test("🟢pagination_with_sort_by_ledger_sequence_desc", async () => {
+      await testPaginationTraversal("ledger_sequence", "desc");
+    });
+
+    test("🟢pagination_with_sort_by_ledger_sequence_asc", async () => {
+      await testPaginationTraversal("ledger_sequence", "asc");
+    });
+
+    test("🟢pagination_tiebreaker_with_duplicate_key_symbol_values", async () => {
+      // The three SharedEntry records share the same key_symbol.
+      await testPaginationTraversal("key_symbol", "asc", 3, "SharedEntry");
+    });
+
     test("🟢pagination_with_null_ttl_record_traverses_all_pages", async () => {
       await testPaginationTraversal("ttl", "asc");
     });
@@ -763,6 +882,44 @@ describe("GET /api/contract/:contract_id/storage", () => {
         expect(mockResponse.status).toHaveBeenCalledWith(400);
       });
 
+      test("🔴string_sortValue_for_ledger_sequence_returns_400", async () => {
+        const cursor = rawCursor({
+          cursorType: "next",
+          sortField: "ledger_sequence",
+          position: { keyHash: "abc", sortValue: "not-a-number" },
+        });
+        mockRequest.query = { cursor, sort_by: "ledger_sequence" };
+
+        await getContractDataByContractId(
+          mockRequest as Request,
+          mockResponse as Response,
+        );
+
+        expect(mockResponse.status).toHaveBeenCalledWith(400);
+        expect(mockResponse.json).toHaveBeenCalledWith({
+          error: expect.stringContaining("Invalid cursor:"),
+        });
+      });
+
+      test("🔴numeric_sortValue_for_key_symbol_returns_400", async () => {
+        const cursor = rawCursor({
+          cursorType: "next",
+          sortField: "key_symbol",
+          position: { keyHash: "abc", sortValue: 42 },
+        });
+        mockRequest.query = { cursor, sort_by: "key_symbol" };
+
+        await getContractDataByContractId(
+          mockRequest as Request,
+          mockResponse as Response,
+        );
+
+        expect(mockResponse.status).toHaveBeenCalledWith(400);
+        expect(mockResponse.json).toHaveBeenCalledWith({
+          error: expect.stringContaining("Invalid cursor:"),
+        });
+      });
+
       test("🔴string_sortValue_for_ttl_returns_400", async () => {
         const cursor = rawCursor({
           cursorType: "next",
@@ -955,6 +1112,86 @@ describe("GET /api/contract/:contract_id/storage", () => {
       );
     });
 
+    test("🟢comma_separated_filter_key_matches_any_listed_symbol", async () => {
+      mockRequest.query = { filter_key: "SharedEntry,BillingCyclePlanName" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(4);
+      // Links carry the normalized (sorted) list
+      const selfUrl = new URL(
+        responseData._links.self.href,
+        "http://example.test",
+      );
+      expect(selfUrl.searchParams.get("filter_key")).toBe(
+        "BillingCyclePlanName,SharedEntry",
+      );
+    });
+
+    test("🟢repeated_filter_key_matches_any_listed_symbol", async () => {
+      mockRequest.query = {
+        filter_key: ["TtlEntry4", "TtlEntry5", "TtlEntry4"],
+      };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(2);
+    });
+
+    test("🟢cursor_filter_key_list_is_compared_order_insensitively", async () => {
+      const cursor = encodeCursor({
+        cursorType: "next",
+        filterKey: ["SharedEntry", "BillingCyclePlanName"],
+        position: {
+          keyHash:
+            "0000000000000000000000000000000000000000000000000000000000000000",
+        },
+      });
+      mockRequest.query = {
+        cursor,
+        order: "asc",
+        filter_key: "BillingCyclePlanName,SharedEntry",
+      };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(responseData.results).toHaveLength(4);
+    });
+
+    test("🔴too_many_filter_keys_returns_400", async () => {
+      mockRequest.query = {
+        filter_key: Array.from({ length: 51 }, (_, i) => `Key${i}`).join(","),
+      };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(
+        mockResponse,
+        "filter_key",
+        "Too many filter_key values, at most 50 are allowed",
+      );
+    });
+
     test("🟡non_matching_filter_key_returns_empty_results", async () => {
       mockRequest.query = { filter_key: "NonExistent" };
 
@@ -969,4 +1206,2028 @@ describe("GET /api/contract/:contract_id/storage", () => {
       expect(responseData.results).toEqual([]);
     });
   });
+
+  describe("key search", () => {
+    const BILLING_CYCLE_KEY_HASHES = [
+      "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+      "0617ea10a459976834fa9ce5a189133586ad546528a1407f026d4d27810a4af8",
+      "0c62c69563827a93daa2a3dc9247eeb71c07a504e9d9d41694bcb98e9183f525",
+    ];
+
+    test("🟢key_prefix_returns_rows_whose_symbol_starts_with_prefix", async () => {
+      mockRequest.query = { key_prefix: "Bill" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(
+        responseData.results.map((item: any) => item.key_hash).sort(),
+      ).toEqual(BILLING_CYCLE_KEY_HASHES);
+
+      const selfUrl = new URL(
+        responseData._links.self.href,
+        "http://example.test",
+      );
+      expect(selfUrl.searchParams.get("key_prefix")).toBe("Bill");
+    });
+
+    test("🟢key_contains_matches_anywhere_in_symbol", async () => {
+      // TtlEntry4, TtlEntry5, NullTtlEntry and 3x SharedEntry
+      mockRequest.query = { key_contains: "Entry" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(6);
+    });
+
+    test("🟡key_search_is_case_sensitive", async () => {
+      mockRequest.query = { key_contains: "entry" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toEqual([]);
+    });
+
+    test("🟡like_wildcards_are_matched_literally", async () => {
+      // Unescaped, "T_" would match TtlEntry4/TtlEntry5
+      mockRequest.query = { key_prefix: "T_" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toEqual([]);
+    });
+
+    test("🟢key_prefix_is_carried_across_pages", async () => {
+      mockRequest.query = { key_prefix: "Bill", limit: "2", order: "asc" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const firstPage = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(firstPage.results).toHaveLength(2);
+      const nextUrl = new URL(
+        firstPage._links.next.href,
+        "http://example.test",
+      );
+
+      mockRequest.query = Object.fromEntries(nextUrl.searchParams);
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const secondPage = (mockResponse.json as Mock).mock.calls[1][0];
+      expect(secondPage.results.map((item: any) => item.key_hash)).toEqual([
+        BILLING_CYCLE_KEY_HASHES[2],
+      ]);
+    });
+
+    test("🔴cursor_key_prefix_mismatch_returns_400", async () => {
+      const cursor = encodeCursor({
+        cursorType: "next",
+        keyPrefix: "Bill",
+        position: { keyHash: BILLING_CYCLE_KEY_HASHES[0] },
+      });
+      mockRequest.query = { cursor, key_prefix: "Shared" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: expect.stringContaining(
+          `Cursor parameter mismatch for field "key_prefix"`,
+        ),
+      });
+    });
+
+    test.each([
+      { key_prefix: "B" },
+      { key_contains: "En" },
+      { key_contains: "x".repeat(33) },
+    ])("🔴too_short_or_long_key_search_returns_400 %o", async query => {
+      mockRequest.query = query;
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(mockResponse, Object.keys(query)[0]);
+    });
+  });
+
+  describe("key arguments", () => {
+    const SHARED_ENTRY_KEY_HASHES = [
+      "cc33333333333333333333333333333333333333333333333333333333333333",
+      "dd44444444444444444444444444444444444444444444444444444444444444",
+      "ee55555555555555555555555555555555555555555555555555555555555555",
+    ];
+
+    test("🟢entries_expose_key_args_after_the_leading_symbol", async () => {
+      mockRequest.query = {
+        filter_key: "BillingCyclePrice",
+        fields: "key_symbol,key_args",
+      };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(1);
+      expect(responseData.results[0].key_args).toEqual([
+        { type: "u32", value: 2 },
+      ]);
+    });
+
+    test("🟢non_vec_keys_have_null_key_args", async () => {
+      mockRequest.query = { filter_key: "SubSecondA", fields: "key_args" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(responseData.results[0].key_args).toBeNull();
+    });
+
+    test("🟢key_arg_matches_the_first_argument_exactly", async () => {
+      mockRequest.query = { filter_key: "SharedEntry", "key_arg.0": "u32:3" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(
+        responseData.results.map((item: any) => item.key_hash).sort(),
+      ).toEqual(SHARED_ENTRY_KEY_HASHES);
+    });
+
+    test("🟢key_arg_without_filter_key_matches_any_symbol", async () => {
+      mockRequest.query = { "key_arg.0": "u32:2", fields: "key_args" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(2);
+      responseData.results.forEach((item: any) => {
+        expect(item.key_args).toEqual([{ type: "u32", value: 2 }]);
+      });
+    });
+
+    test("🟡key_arg_type_must_match", async () => {
+      mockRequest.query = { filter_key: "SharedEntry", "key_arg.0": "i32:3" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(responseData.results).toEqual([]);
+    });
+
+    test("🟡key_arg_beyond_the_key_length_matches_nothing", async () => {
+      mockRequest.query = { "key_arg.0": "u32:3", "key_arg.1": "u32:3" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(responseData.results).toEqual([]);
+    });
+
+    test("🟢key_args_are_preserved_across_pages", async () => {
+      const query = {
+        "key_arg.0": "u32:3",
+        filter_key: "SharedEntry",
+        limit: "2",
+        order: "asc",
+      };
+      mockRequest.query = query;
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const page1 = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(page1.results).toHaveLength(2);
+      const nextUrl = new URL(page1._links.next.href, "http://example.test");
+      expect(nextUrl.searchParams.get("key_arg.0")).toBe("u32:3");
+
+      mockRequest.query = {
+        ...query,
+        cursor: nextUrl.searchParams.get("cursor")!,
+      };
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const page2 = (mockResponse.json as Mock).mock.calls[1][0];
+      expect(page2.results.map((item: any) => item.key_hash)).toEqual([
+        SHARED_ENTRY_KEY_HASHES[2],
+      ]);
+    });
+
+    test("🔴cursor_with_different_key_arg_returns_400", async () => {
+      const cursor = encodeCursor({
+        cursorType: "next",
+        keyArgs: ["u32:3"],
+        position: { keyHash: SHARED_ENTRY_KEY_HASHES[0] },
+      });
+      mockRequest.query = { cursor, "key_arg.0": "u32:4" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
+    test("🔴missing_earlier_key_arg_returns_400", async () => {
+      mockRequest.query = { "key_arg.1": "u32:3" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: "key_arg.0 is required when key_arg.1 is given",
+      });
+    });
+
+    test("🔴invalid_key_arg_value_returns_400", async () => {
+      mockRequest.query = { "key_arg.0": "u32:-1" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Invalid key_arg.0=u32:-1: Invalid u32 value "-1"',
+      });
+    });
+
+    test("🔴key_arg_index_out_of_range_returns_400", async () => {
+      mockRequest.query = { "key_arg.8": "u32:3" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("value search", () => {
+    test("🟢value_contains_matches_decoded_symbol_values", async () => {
+      mockRequest.query = { value_contains: "invit" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.partial).toBe(false);
+      expect(responseData.results).toHaveLength(1);
+      expect(responseData.results[0].key_hash).toBe(
+        "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+      );
+      const selfUrl = new URL(
+        responseData._links.self.href,
+        "http://example.test",
+      );
+      expect(selfUrl.searchParams.get("value_contains")).toBe("invit");
+    });
+
+    test("🟢partial_scan_resumes_from_last_scanned_row", async () => {
+      // The "invite" value sits on the smallest key_hash, i.e. the last row in desc order
+      mockValueScanMaxRows = 4;
+      mockRequest.query = { value_contains: "invite" };
+
+      const pages: any[] = [];
+      for (let call = 0; call < 5; call++) {
+        await getContractDataByContractId(
+          mockRequest as Request,
+          mockResponse as Response,
+        );
+        const page = (mockResponse.json as Mock).mock.calls[call][0];
+        pages.push(page);
+        if (!page.partial) {
+          break;
+        }
+        const nextUrl = new URL(page._links.next.href, "http://example.test");
+        mockRequest.query = Object.fromEntries(nextUrl.searchParams);
+      }
+
+      expect(pages.map(page => page.partial)).toEqual([true, true, false]);
+      expect(pages.map(page => page.results.length)).toEqual([0, 0, 1]);
+      expect(pages[2].results[0].key_hash).toBe(
+        "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+      );
+    });
+
+    test("🟢partial_flag_is_omitted_without_value_contains", async () => {
+      mockRequest.query = {};
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(responseData).not.toHaveProperty("partial");
+    });
+
+    test("🔴too_short_value_contains_returns_400", async () => {
+      mockRequest.query = { value_contains: "x" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(mockResponse, "value_contains");
+    });
+  });
+
+  describe("ttl table", () => {
+    const NULL_TTL_KEY_HASH =
+      "ff66666666666666666666666666666666666666666666666666666666666666";
+    const EXTENDED_KEY_HASH =
+      "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6";
+    const STALE_TTL_KEY_HASH =
+      "0617ea10a459976834fa9ce5a189133586ad546528a1407f026d4d27810a4af8";
+    const ttlClosedAt = new Date("2025-10-10T12:00:00Z");
+
+    beforeAll(async () => {
+      await testPrismaClient.ttl.createMany({
+        data: [
+          {
+            key_hash: NULL_TTL_KEY_HASH,
+            ledger_sequence: 59409300,
+            live_until_ledger_sequence: 61490000,
+            closed_at: ttlClosedAt,
+          },
+          {
+            key_hash: EXTENDED_KEY_HASH,
+            ledger_sequence: 59409320,
+            live_until_ledger_sequence: 61600000,
+            closed_at: ttlClosedAt,
+          },
+          {
+            // Older than the contract_data row, so it must be ignored
+            key_hash: STALE_TTL_KEY_HASH,
+            ledger_sequence: 59409000,
+            live_until_ledger_sequence: 61000000,
+            closed_at: ttlClosedAt,
+          },
+        ],
+      });
+    });
+
+    afterAll(async () => {
+      await testPrismaClient.ttl.deleteMany();
+    });
+
+    const findByKeyHash = (results: any[], keyHash: string) =>
+      results.find((item: any) => item.key_hash === keyHash);
+
+    test("🟢newer_ttl_row_overrides_contract_data_ttl", async () => {
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const { results } = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(findByKeyHash(results, NULL_TTL_KEY_HASH)).toMatchObject({
+        ttl: 61490000,
+        ttl_source: "ttl",
+      });
+      expect(findByKeyHash(results, EXTENDED_KEY_HASH)).toMatchObject({
+        ledger_sequence: 59409310,
+        last_modified_ledger: 59409320,
+        ttl: 61600000,
+        ttl_source: "ttl",
+      });
+      expect(findByKeyHash(results, STALE_TTL_KEY_HASH)).toMatchObject({
+        ledger_sequence: 59409310,
+        last_modified_ledger: 59409310,
+        ttl: 61482902,
+        ttl_source: "contract_data",
+      });
+    });
+
+    test("🟢status_filter_uses_effective_ttl", async () => {
+      getLatestLedgerMock.mockResolvedValue(61482950);
+      mockRequest.query = { status: "live" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const { results } = (mockResponse.json as Mock).mock.calls[0][0];
+      const keyHashes = results.map((item: any) => item.key_hash);
+
+      expect(keyHashes).toContain(EXTENDED_KEY_HASH);
+      expect(keyHashes).toContain(NULL_TTL_KEY_HASH);
+      expect(keyHashes).not.toContain(STALE_TTL_KEY_HASH);
+      expect(findByKeyHash(results, EXTENDED_KEY_HASH).expired).toBe(false);
+    });
+
+    test("🟢expired_status_excludes_extended_entries", async () => {
+      getLatestLedgerMock.mockResolvedValue(61482950);
+      mockRequest.query = { status: "expired" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const { results } = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(findByKeyHash(results, EXTENDED_KEY_HASH)).toBeUndefined();
+      expect(findByKeyHash(results, STALE_TTL_KEY_HASH)).toMatchObject({
+        expired: true,
+      });
+      expect(results.every((item: any) => item.expired)).toBe(true);
+    });
+
+    test("🟢ttl_sort_uses_effective_ttl_across_pages", async () => {
+      const query = { sort_by: "ttl", order: "desc", limit: "2" };
+      mockRequest.query = query;
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const page1 = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(page1.results.map((item: any) => item.key_hash)).toEqual([
+        EXTENDED_KEY_HASH,
+        NULL_TTL_KEY_HASH,
+      ]);
+
+      const next = new URL(page1._links.next.href, "http://example.test");
+      mockRequest.query = {
+        ...query,
+        cursor: next.searchParams.get("cursor")!,
+      };
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const page2 = (mockResponse.json as Mock).mock.calls[1][0];
+      const ttls = [...page1.results, ...page2.results].map(
+        (item: any) => item.ttl,
+      );
+      expect(ttls).toEqual([...ttls].sort((a, b) => b - a));
+      expect(page2.results.map((item: any) => item.key_hash)).not.toContain(
+        EXTENDED_KEY_HASH,
+      );
+    });
+
+    test("🟢single_entry_reflects_ttl_row", async () => {
+      mockRequest.params = {
+        ...mockRequest.params,
+        key_hash: EXTENDED_KEY_HASH,
+      };
+
+      await getContractDataEntryByKeyHash(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ ttl: 61600000, ttl_source: "ttl" }),
+      );
+    });
+  });
+
+  describe("durability", () => {
+    test("🟢single_durability_returns_only_matching_rows", async () => {
+      mockRequest.query = { durability: "temporary" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(5);
+      responseData.results.forEach((item: any) => {
+        expect(item.durability).toBe("temporary");
+      });
+    });
+
+    test("🟢comma_list_returns_rows_of_any_listed_durability", async () => {
+      mockRequest.query = { durability: "instance,persistent" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(6);
+      responseData.results.forEach((item: any) => {
+        expect(["instance", "persistent"]).toContain(item.durability);
+      });
+    });
+
+    test("🟢durability_is_preserved_across_pages", async () => {
+      const query = { durability: "instance", limit: "1", order: "asc" };
+      mockRequest.query = query;
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const page1 = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(page1.results).toHaveLength(1);
+      const nextUrl = new URL(page1._links.next.href, "http://example.test");
+      expect(nextUrl.searchParams.get("durability")).toBe("instance");
+
+      mockRequest.query = {
+        ...query,
+        cursor: nextUrl.searchParams.get("cursor")!,
+      };
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const page2 = (mockResponse.json as Mock).mock.calls[1][0];
+      expect(page2.results).toHaveLength(1);
+      expect(page2.results[0].durability).toBe("instance");
+      expect(page2.results[0].key_hash).not.toBe(page1.results[0].key_hash);
+    });
+
+    test("🔴cursor_durability_mismatch_returns_400", async () => {
+      const cursor = encodeCursor({
+        cursorType: "next",
+        sortDirection: "desc",
+        durability: ["temporary"],
+        position: {
+          keyHash:
+            "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+        },
+      });
+      mockRequest.query = { cursor, durability: "persistent" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: expect.stringContaining(
+          `Cursor parameter mismatch for field "durability"`,
+        ),
+      });
+    });
+
+    test("🔴invalid_durability_returns_400", async () => {
+      mockRequest.query = { durability: "persistent,forever" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(
+        mockResponse,
+        "durability.1",
+        "Invalid durability, must be a comma-separated list of persistent, temporary, instance",
+      );
+    });
+  });
+
+  describe("status", () => {
+    const LEDGER = 61482904;
+
+    test("🟢status=expired_returns_only_expired_rows", async () => {
+      getLatestLedgerMock.mockResolvedValue(LEDGER);
+      mockRequest.query = { status: "expired" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(3);
+      responseData.results.forEach((item: any) => {
+        expect(item.expired).toBe(true);
+      });
+    });
+
+    test("🟢status=live_includes_null_ttl_rows", async () => {
+      getLatestLedgerMock.mockResolvedValue(LEDGER);
+      mockRequest.query = { status: "live" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(8);
+      responseData.results.forEach((item: any) => {
+        expect(item.expired).toBe(false);
+      });
+      expect(responseData.results.some((item: any) => item.ttl === null)).toBe(
+        true,
+      );
+    });
+
+    test("🟢expiring_within_returns_live_rows_expiring_soon", async () => {
+      getLatestLedgerMock.mockResolvedValue(LEDGER);
+      mockRequest.query = { expiring_within: "2" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(4);
+      responseData.results.forEach((item: any) => {
+        expect(item.ttl).toBeGreaterThanOrEqual(LEDGER);
+        expect(item.ttl).toBeLessThanOrEqual(LEDGER + 2);
+      });
+      const selfUrl = new URL(
+        responseData._links.self.href,
+        "http://example.test",
+      );
+      expect(selfUrl.searchParams.get("expiring_within")).toBe("2");
+    });
+
+    test("🟢status_filter_pins_reference_ledger_across_pages", async () => {
+      getLatestLedgerMock.mockResolvedValue(LEDGER);
+      const query = { status: "expired", limit: "1", order: "asc" };
+      const seen: string[] = [];
+
+      mockRequest.query = query;
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+      let page = (mockResponse.json as Mock).mock.calls[0][0];
+      seen.push(page.results[0].key_hash);
+
+      // The network moves backwards in this test so that, without pinning,
+      // the remaining rows would no longer be considered expired.
+      getLatestLedgerMock.mockResolvedValue(61482901);
+
+      let call = 1;
+      while (page._links.next) {
+        const next = new URL(page._links.next.href, "http://example.test");
+        mockRequest.query = {
+          ...query,
+          cursor: next.searchParams.get("cursor")!,
+        };
+        await getContractDataByContractId(
+          mockRequest as Request,
+          mockResponse as Response,
+        );
+        page = (mockResponse.json as Mock).mock.calls[call++][0];
+        if (page.results.length === 0) break;
+        expect(page.results[0].expired).toBe(true);
+        seen.push(page.results[0].key_hash);
+      }
+
+      expect(seen).toEqual([
+        "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+        "0617ea10a459976834fa9ce5a189133586ad546528a1407f026d4d27810a4af8",
+        "0c62c69563827a93daa2a3dc9247eeb71c07a504e9d9d41694bcb98e9183f525",
+      ]);
+    });
+
+    test("🔴cursor_status_mismatch_returns_400", async () => {
+      const cursor = encodeCursor({
+        cursorType: "next",
+        sortDirection: "desc",
+        status: "live",
+        ledger: LEDGER,
+        position: {
+          keyHash:
+            "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+        },
+      });
+      mockRequest.query = { cursor, status: "expired" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: expect.stringContaining(
+          `Cursor parameter mismatch for field "status"`,
+        ),
+      });
+    });
+
+    test("🔴expiring_within_with_status_expired_returns_400", async () => {
+      mockRequest.query = { status: "expired", expiring_within: "10" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
+    test("🔴invalid_status_returns_400", async () => {
+      mockRequest.query = { status: "archived" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(mockResponse, "status");
+    });
+  });
+
+  describe("time and ledger ranges", () => {
+    const LATER_LEDGER_CONTRACT_ID =
+      "CAU7STCHRBSL6ZAT4Z2YHG32NESRO3L2XS4KC45J4CT5EQAKVKEHEMH5";
+
+    test("🟢updated_after_accepts_iso_dates", async () => {
+      mockRequest.query = { updated_after: "2025-10-07T00:00:00Z" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      const after = Date.parse("2025-10-07T00:00:00Z") / 1000;
+      expect(responseData.results).toHaveLength(4);
+      responseData.results.forEach((item: any) => {
+        expect(item.updated).toBeGreaterThanOrEqual(after);
+      });
+
+      // Links carry the normalized Unix seconds value
+      const selfUrl = new URL(
+        responseData._links.self.href,
+        "http://example.test",
+      );
+      expect(selfUrl.searchParams.get("updated_after")).toBe(String(after));
+    });
+
+    test("🟢updated_before_accepts_unix_seconds", async () => {
+      const before = Date.parse("2025-10-02T00:00:00Z") / 1000;
+      mockRequest.query = { updated_before: String(before) };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(1);
+      expect(responseData.results[0].key_hash).toBe(
+        "0c62c69563827a93daa2a3dc9247eeb71c07a504e9d9d41694bcb98e9183f525",
+      );
+    });
+
+    test("🟢ledger_from_and_ledger_to_are_inclusive", async () => {
+      mockRequest.params = { contract_id: LATER_LEDGER_CONTRACT_ID };
+      mockRequest.query = { ledger_from: "59409400", ledger_to: "59409500" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(
+        responseData.results.map((item: any) => item.key_hash).sort(),
+      ).toEqual([
+        "2200000000000000000000000000000000000000000000000000000000000001",
+        "2200000000000000000000000000000000000000000000000000000000000002",
+      ]);
+    });
+
+    test("🟢ranges_are_preserved_across_pages", async () => {
+      const query = { ledger_to: "59409400", limit: "1" };
+      mockRequest.params = { contract_id: LATER_LEDGER_CONTRACT_ID };
+      mockRequest.query = query;
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+      const page1 = (mockResponse.json as Mock).mock.calls[0][0];
+      const next = new URL(page1._links.next.href, "http://example.test");
+      expect(next.searchParams.get("ledger_to")).toBe("59409400");
+
+      mockRequest.query = {
+        ...query,
+        cursor: next.searchParams.get("cursor")!,
+      };
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+      const page2 = (mockResponse.json as Mock).mock.calls[1][0];
+
+      const keyHashes = [...page1.results, ...page2.results].map(
+        (item: any) => item.key_hash,
+      );
+      expect(keyHashes).toEqual([
+        "2200000000000000000000000000000000000000000000000000000000000001",
+      ]);
+    });
+
+    test("🔴cursor_ledger_range_mismatch_returns_400", async () => {
+      const cursor = encodeCursor({
+        cursorType: "next",
+        sortDirection: "desc",
+        ledgerFrom: 1,
+        position: {
+          keyHash:
+            "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+        },
+      });
+      mockRequest.query = { cursor, ledger_from: "2" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: expect.stringContaining(
+          `Cursor parameter mismatch for field "ledger_from"`,
+        ),
+      });
+    });
+
+    test("🔴invalid_timestamp_returns_400", async () => {
+      mockRequest.query = { updated_after: "yesterday" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(
+        mockResponse,
+        "updated_after",
+        "Expected Unix seconds or an ISO 8601 date",
+      );
+    });
+
+    test("🔴empty_ledger_range_returns_400", async () => {
+      mockRequest.query = { ledger_from: "10", ledger_to: "5" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("include_count", () => {
+    test("🟢exact_count_returns_total_of_all_entries", async () => {
+      mockRequest.query = { include_count: "exact", limit: "2" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(2);
+      expect(responseData.total).toBe(11);
+      expect(responseData.total_exact).toBe(true);
+
+      const nextUrl = new URL(
+        responseData._links.next.href,
+        "http://example.test",
+      );
+      expect(nextUrl.searchParams.get("include_count")).toBe("exact");
+    });
+
+    test("🟢exact_count_respects_filters", async () => {
+      mockRequest.query = { include_count: "exact", durability: "temporary" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(responseData.total).toBe(5);
+    });
+
+    test("🟢limit_0_returns_count_only", async () => {
+      mockRequest.query = { include_count: "exact", limit: "0" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toEqual([]);
+      expect(responseData.total).toBe(11);
+      expect(responseData._links.next).toBeUndefined();
+    });
+
+    test("🟢estimate_returns_planner_estimate", async () => {
+      mockRequest.query = { include_count: "estimate", limit: "0" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(Number.isInteger(responseData.total)).toBe(true);
+      expect(responseData.total_exact).toBe(false);
+    });
+
+    test("🟢total_is_omitted_without_include_count", async () => {
+      mockRequest.query = {};
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(responseData).not.toHaveProperty("total");
+    });
+
+    test("🔴limit_0_without_include_count_returns_400", async () => {
+      mockRequest.query = { limit: "0" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(
+        mockResponse,
+        "limit",
+        "limit=0 is only allowed together with include_count",
+      );
+    });
+
+    test("🔴include_count_with_value_contains_returns_400", async () => {
+      mockRequest.query = { include_count: "exact", value_contains: "invite" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("fields", () => {
+    test("🟢fields_restricts_each_result_to_selected_fields", async () => {
+      mockRequest.query = { fields: "ttl,durability" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(11);
+      responseData.results.forEach((item: any) => {
+        expect(Object.keys(item).sort()).toEqual([
+          "durability",
+          "key_hash",
+          "ttl",
+        ]);
+      });
+
+      // Links carry the normalized field list
+      const selfUrl = new URL(
+        responseData._links.self.href,
+        "http://example.test",
+      );
+      expect(selfUrl.searchParams.get("fields")).toBe(
+        "durability,key_hash,ttl",
+      );
+    });
+
+    test("🟢fields_keeps_cursor_pagination_working", async () => {
+      mockRequest.query = { fields: "ttl", sort_by: "ttl", limit: "6" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const firstPage = (mockResponse.json as Mock).mock.calls[0][0];
+      const nextUrl = new URL(
+        firstPage._links.next.href,
+        "http://example.test",
+      );
+      mockRequest.query = Object.fromEntries(nextUrl.searchParams);
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const secondPage = (mockResponse.json as Mock).mock.calls[1][0];
+      const keyHashes = [...firstPage.results, ...secondPage.results].map(
+        (item: any) => item.key_hash,
+      );
+      expect(new Set(keyHashes).size).toBe(11);
+    });
+
+    test("🟢value_contains_matches_values_that_are_not_returned", async () => {
+      mockRequest.query = { fields: "key_hash", value_contains: "invite" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(responseData.results).toEqual([
+        {
+          key_hash:
+            "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+        },
+      ]);
+    });
+
+    test("🔴unknown_field_returns_400", async () => {
+      mockRequest.query = { fields: "ttl,password" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(mockResponse, "fields.1");
+    });
+  });
+
+  describe("size and rent", () => {
+    const BILLING_KEY_HASH =
+      "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6";
+
+    test("🟢sort_by=size_orders_by_key_and_value_size", async () => {
+      mockRequest.query = { sort_by: "size", order: "desc", limit: "4" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+      const firstPage = (mockResponse.json as Mock).mock.calls[0][0];
+      const pages = [firstPage];
+      while (pages[pages.length - 1]._links.next) {
+        const nextUrl = new URL(
+          pages[pages.length - 1]._links.next.href,
+          "http://example.test",
+        );
+        mockRequest.query = Object.fromEntries(nextUrl.searchParams);
+        await getContractDataByContractId(
+          mockRequest as Request,
+          mockResponse as Response,
+        );
+        pages.push((mockResponse.json as Mock).mock.calls[pages.length][0]);
+      }
+
+      const results = pages.flatMap(page => page.results);
+      const sizes = results.map((item: any) => item.size_bytes);
+      expect(new Set(results.map((item: any) => item.key_hash)).size).toBe(11);
+      expect(sizes).toEqual([...sizes].sort((a, b) => b - a));
+      results.forEach((item: any) => {
+        expect(item.size_bytes).toBe(
+          Buffer.from(item.key, "base64").length +
+            Buffer.from(item.value, "base64").length,
+        );
+      });
+    });
+
+    test("🟢rent_ledgers_adds_rent_fee_per_entry", async () => {
+      mockRequest.query = { rent_ledgers: "535680" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      responseData.results.forEach((item: any) => {
+        expect(item.rent_fee).toEqual(expect.any(Number));
+      });
+      // ceil((64 + 56) * 8200 * 535680 / (1024 * 1402)) + 3500 + 165
+      expect(
+        responseData.results.find(
+          (item: any) => item.key_hash === BILLING_KEY_HASH,
+        ),
+      ).toMatchObject({ size_bytes: 64, rent_fee: 370823 });
+
+      const selfUrl = new URL(
+        responseData._links.self.href,
+        "http://example.test",
+      );
+      expect(selfUrl.searchParams.get("rent_ledgers")).toBe("535680");
+    });
+
+    test("🟢rent_fee_is_omitted_without_rent_ledgers", async () => {
+      getRentSettingsMock.mockClear();
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      responseData.results.forEach((item: any) => {
+        expect(item).not.toHaveProperty("rent_fee");
+      });
+      expect(getRentSettingsMock).not.toHaveBeenCalled();
+    });
+
+    test("🟡expired_temporary_entries_have_no_rent_fee", async () => {
+      getLatestLedgerMock.mockResolvedValue(61482905);
+      mockRequest.query = {
+        durability: "temporary",
+        status: "expired",
+        rent_ledgers: "17280",
+      };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(responseData.results.length).toBeGreaterThan(0);
+      responseData.results.forEach((item: any) => {
+        expect(item.rent_fee).toBeNull();
+      });
+    });
+
+    test("🟢fields_can_select_size_and_rent", async () => {
+      mockRequest.query = { fields: "rent_fee,size_bytes", rent_ledgers: "1" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      responseData.results.forEach((item: any) => {
+        expect(Object.keys(item).sort()).toEqual([
+          "key_hash",
+          "rent_fee",
+          "size_bytes",
+        ]);
+      });
+    });
+
+    test("🔴fields=rent_fee_without_rent_ledgers_returns_400", async () => {
+      mockRequest.query = { fields: "rent_fee" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(
+        mockResponse,
+        "fields",
+        "fields=rent_fee requires rent_ledgers",
+      );
+    });
+
+    test("🔴invalid_rent_ledgers_returns_400", async () => {
+      mockRequest.query = { rent_ledgers: "0" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(mockResponse, "rent_ledgers");
+    });
+
+    test("🔴rent_ledgers_above_max_entry_ttl_returns_400", async () => {
+      mockRequest.query = { rent_ledgers: "3110401" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error:
+          "Invalid rent_ledgers=3110401, exceeds the network's max entry TTL of 3110400 ledgers",
+      });
+    });
+  });
+
+  describe("decode", () => {
+    test("🟢decode=json_adds_decoded_key_and_value", async () => {
+      mockRequest.query = {
+        filter_key: "BillingCyclePlanName",
+        decode: "json",
+      };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+      expect(responseData.results).toHaveLength(1);
+      expect(responseData.results[0]).toMatchObject({
+        key_decoded: {
+          type: "vec",
+          value: [
+            { type: "symbol", value: "BillingCyclePlanName" },
+            { type: "u32", value: 3 },
+          ],
+        },
+        value_decoded: { type: "symbol", value: "invite" },
+        decode_error: null,
+      });
+
+      const selfUrl = new URL(
+        responseData._links.self.href,
+        "http://example.test",
+      );
+      expect(selfUrl.searchParams.get("decode")).toBe("json");
+    });
+
+    test("🔴invalid_decode_returns_400", async () => {
+      mockRequest.query = { decode: "yaml" };
+
+      await getContractDataByContractId(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expectInvalidQuery(mockResponse, "decode");
+    });
+  });
+});
+
+describe("GET /api/contract/:contract_id/storage/:key_hash", () => {
+  const CONTRACT_ID =
+    "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+  const KEY_HASH =
+    "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6";
+
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeAll(async () => {
+    await seedTestData(global.testPrismaClient);
+  });
+
+  beforeEach(() => {
+    getLatestLedgerMock.mockResolvedValue(700000);
+    getRentSettingsMock.mockResolvedValue(rentSettingsFixture);
+
+    mockRequest = {
+      params: { contract_id: CONTRACT_ID, key_hash: KEY_HASH },
+      query: {},
+    };
+
+    mockResponse = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    };
+  });
+
+  test("🟢existing_key_hash_returns_entry", async () => {
+    await getContractDataEntryByKeyHash(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      contract_id: CONTRACT_ID,
+      durability: "persistent",
+      expired: false,
+      key_hash: KEY_HASH,
+      key: "AAAAEAAAAAEAAAACAAAADwAAABRCaWxsaW5nQ3ljbGVQbGFuTmFtZQAAAAMAAAAD",
+      key_args: [{ type: "u32", value: 3 }],
+      key_symbol: "BillingCyclePlanName",
+      last_modified_ledger: 59409310,
+      ledger_sequence: 59409310,
+      size_bytes: 64,
+      ttl: 61482901,
+      ttl_source: "contract_data",
+      updated: Math.floor(new Date("2025-10-03T15:00:36Z").getTime() / 1000),
+      value: "AAAADwAAAAZpbnZpdGUAAA==",
+    });
+  });
+
+  test("🟢rent_ledgers_adds_rent_fee", async () => {
+    mockRequest.query = { rent_ledgers: "535680" };
+
+    await getContractDataEntryByKeyHash(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({ size_bytes: 64, rent_fee: 370823 }),
+    );
+  });
+
+  test("🟢expired_is_computed_from_latest_ledger", async () => {
+    getLatestLedgerMock.mockResolvedValue(61482902);
+
+    await getContractDataEntryByKeyHash(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData.expired).toBe(true);
+  });
+
+  test("🟢decode=json_adds_decoded_fields", async () => {
+    mockRequest.query = { decode: "json" };
+
+    await getContractDataEntryByKeyHash(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData.value_decoded).toEqual({
+      type: "symbol",
+      value: "invite",
+    });
+  });
+
+  test("🟡unknown_key_hash_returns_404", async () => {
+    mockRequest.params = {
+      contract_id: CONTRACT_ID,
+      key_hash: "f".repeat(64),
+    };
+
+    await getContractDataEntryByKeyHash(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(404);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error: "Contract data entry not found",
+    });
+  });
+
+  test("🟡key_hash_of_another_contract_returns_404", async () => {
+    mockRequest.params = {
+      contract_id: "CAS3FL6TLZKDGGSISDBWGGPXT3NRR4DYTZD7YOD3HMYO6LTJUVGRVEAM",
+      key_hash: KEY_HASH,
+    };
+
+    await getContractDataEntryByKeyHash(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(404);
+  });
+
+  test("🔴invalid_decode_returns_400", async () => {
+    mockRequest.query = { decode: "yaml" };
+
+    await getContractDataEntryByKeyHash(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+  });
+});
+
+describe("POST /api/contract/:contract_id/storage/lookup", () => {
+  const CONTRACT_ID =
+    "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+  const PLAN_NAME_KEY =
+    "AAAAEAAAAAEAAAACAAAADwAAABRCaWxsaW5nQ3ljbGVQbGFuTmFtZQAAAAMAAAAD";
+
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeAll(async () => {
+    await seedTestData(global.testPrismaClient);
+  });
+
+  beforeEach(() => {
+    getLatestLedgerMock.mockResolvedValue(700000);
+
+    mockRequest = {
+      params: { contract_id: CONTRACT_ID },
+      query: {},
+      body: {},
+    };
+
+    mockResponse = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    };
+  });
+
+  test("🟢results_are_returned_in_request_order_with_not_found_markers", async () => {
+    mockRequest.body = {
+      keys: [
+        { key: PLAN_NAME_KEY, durability: "temporary" },
+        {
+          key: {
+            type: "vec",
+            value: [
+              { type: "symbol", value: "BillingCyclePlanName" },
+              { type: "u32", value: 3 },
+            ],
+          },
+          durability: "persistent",
+        },
+        {
+          key: "AAAAEAAAAAEAAAACAAAADwAAABVCaWxsaW5nQ3ljbGVUaW1lc3RhbXAAAAAAAAADAAAAAw==",
+        },
+      ],
+    };
+
+    await lookupContractDataEntries(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+
+    expect(responseData.contract_id).toBe(CONTRACT_ID);
+    expect(responseData.results).toHaveLength(3);
+    expect(responseData.results[0]).toEqual({
+      key: PLAN_NAME_KEY,
+      durability: "temporary",
+      key_hash:
+        "aa624e865ad076f7e71ecc54e245c4a002d823a37a37d4267e157241b4d5783c",
+      found: false,
+      entry: null,
+    });
+    expect(responseData.results[1]).toMatchObject({
+      key: PLAN_NAME_KEY,
+      durability: "persistent",
+      key_hash:
+        "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+      found: true,
+      entry: {
+        key_hash:
+          "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+        value: "AAAADwAAAAZpbnZpdGUAAA==",
+        expired: false,
+      },
+    });
+    expect(responseData.results[2]).toMatchObject({
+      durability: "persistent",
+      key_hash:
+        "0617ea10a459976834fa9ce5a189133586ad546528a1407f026d4d27810a4af8",
+      found: true,
+    });
+  });
+
+  test("🟡keys_of_another_contract_are_not_found", async () => {
+    mockRequest.params = {
+      contract_id: "CAS3FL6TLZKDGGSISDBWGGPXT3NRR4DYTZD7YOD3HMYO6LTJUVGRVEAM",
+    };
+    mockRequest.body = { keys: [{ key: PLAN_NAME_KEY }] };
+
+    await lookupContractDataEntries(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData.results[0].found).toBe(false);
+  });
+
+  test("🔴invalid_key_returns_400", async () => {
+    mockRequest.body = { keys: [{ key: PLAN_NAME_KEY }, { key: "not-xdr" }] };
+
+    await lookupContractDataEntries(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error: expect.stringContaining("Invalid key at index 1"),
+    });
+  });
+
+  test("🔴empty_keys_returns_400", async () => {
+    mockRequest.body = { keys: [] };
+
+    await lookupContractDataEntries(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+  });
+});
+
+describe("GET /api/contract/:contract_id/storage/export", () => {
+  const CONTRACT_ID =
+    "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+
+  let mockRequest: Partial<Request>;
+
+  /**
+   * Minimal streaming response: records headers and written chunks, and can
+   * simulate a full buffer (write returning false) or a client disconnect.
+   */
+  const createStreamResponse = () => {
+    const res = Object.assign(new EventEmitter(), {
+      chunks: [] as string[],
+      headers: {} as Record<string, string>,
+      writableFinished: false,
+      status: vi.fn(),
+      json: vi.fn(),
+      setHeader: vi.fn((name: string, value: string) => {
+        res.headers[name] = value;
+      }),
+      write: vi.fn((chunk: string): boolean => {
+        res.chunks.push(chunk);
+        return true;
+      }),
+      end: vi.fn(() => {
+        res.writableFinished = true;
+        res.emit("close");
+      }),
+      destroy: vi.fn(),
+    });
+    res.status.mockReturnValue(res);
+    res.json.mockReturnValue(res);
+    return res;
+  };
+
+  /** Parses the NDJSON output of an export. */
+  const ndjsonLines = (res: ReturnType<typeof createStreamResponse>) =>
+    res.chunks
+      .join("")
+      .split("\n")
+      .filter(line => line)
+      .map(line => JSON.parse(line));
+
+  /** Key hashes of the first page of the storage listing for a query. */
+  const listedKeyHashes = async (query: Record<string, string>) => {
+    const listResponse = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+    };
+    await getContractDataByContractId(
+      { params: { contract_id: CONTRACT_ID }, query } as unknown as Request,
+      listResponse as unknown as Response,
+    );
+    return listResponse.json.mock.calls[0][0].results.map(
+      (entry: any) => entry.key_hash,
+    );
+  };
+
+  beforeAll(async () => {
+    await seedTestData(global.testPrismaClient);
+  });
+
+  beforeEach(() => {
+    getLatestLedgerMock.mockResolvedValue(700000);
+    getRentSettingsMock.mockResolvedValue(rentSettingsFixture);
+    mockExportBatchSize = 1000;
+
+    mockRequest = {
+      params: { contract_id: CONTRACT_ID },
+      query: {},
+    };
+  });
+
+  test("🟢ndjson_streams_every_entry_across_batches", async () => {
+    mockExportBatchSize = 3;
+    const res = createStreamResponse();
+
+    await exportContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.headers).toEqual({
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${CONTRACT_ID}-storage.ndjson"`,
+    });
+    expect(res.end).toHaveBeenCalledTimes(1);
+
+    const lines = ndjsonLines(res);
+    // Same entries, in the same order, as the listing
+    expect(lines.map(entry => entry.key_hash)).toEqual(
+      await listedKeyHashes({ limit: "200" }),
+    );
+    expect(lines.length).toBeGreaterThan(3);
+    expect(res.write.mock.calls.length).toBe(Math.ceil(lines.length / 3));
+    expect(lines[0]).toHaveProperty("value");
+  });
+
+  test("🟢honors_filters_and_sorting", async () => {
+    mockExportBatchSize = 2;
+    const query = { durability: "temporary", sort_by: "ttl", order: "asc" };
+    mockRequest.query = query;
+    const res = createStreamResponse();
+
+    await exportContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+
+    const lines = ndjsonLines(res);
+    expect(lines.length).toBeGreaterThan(0);
+    expect(lines.every(entry => entry.durability === "temporary")).toBe(true);
+    expect(lines.map(entry => entry.key_hash)).toEqual(
+      await listedKeyHashes({ ...query, limit: "200" }),
+    );
+  });
+
+  test("🟢csv_writes_header_and_selected_fields", async () => {
+    mockRequest.query = {
+      format: "csv",
+      fields: "key_symbol,ttl",
+      filter_key: "BillingCyclePlanName",
+    };
+    const res = createStreamResponse();
+
+    await exportContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+
+    expect(res.headers["Content-Type"]).toBe("text/csv; charset=utf-8");
+    expect(res.chunks.join("")).toBe(
+      "key_hash,key_symbol,ttl\r\n" +
+        "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6,BillingCyclePlanName,61482901\r\n",
+    );
+  });
+
+  test("🟢waits_for_drain_when_the_client_is_slow", async () => {
+    mockExportBatchSize = 3;
+    const res = createStreamResponse();
+    res.write.mockImplementationOnce((chunk: string) => {
+      res.chunks.push(chunk);
+      return false;
+    });
+
+    const exporting = exportContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+    await vi.waitFor(() => expect(res.write).toHaveBeenCalledTimes(1));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    // No further batch is written until the buffer drains
+    expect(res.write).toHaveBeenCalledTimes(1);
+
+    res.emit("drain");
+    await exporting;
+    expect(res.write.mock.calls.length).toBeGreaterThan(1);
+    expect(res.end).toHaveBeenCalledTimes(1);
+  });
+
+  test("🟡client_disconnect_stops_the_export", async () => {
+    mockExportBatchSize = 3;
+    const res = createStreamResponse();
+    res.write.mockImplementationOnce((chunk: string) => {
+      res.chunks.push(chunk);
+      res.emit("close");
+      return false;
+    });
+
+    await exportContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+
+    expect(res.write).toHaveBeenCalledTimes(1);
+    expect(res.end).not.toHaveBeenCalled();
+    expect(res.destroy).not.toHaveBeenCalled();
+  });
+
+  test("🔴invalid_format_returns_400", async () => {
+    mockRequest.query = { format: "xml" };
+    const res = createStreamResponse();
+
+    await exportContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+
+    expectInvalidQuery(res, "format");
+    expect(res.write).not.toHaveBeenCalled();
+  });
+
+  describe("format=snapshot", () => {
+    const instanceKeyHash = computeContractDataKeyHash(
+      CONTRACT_ID,
+      xdr.ScVal.scvLedgerKeyContractInstance(),
+      "instance",
+    );
+    const storedXdr = (val: xdr.ScVal) =>
+      Buffer.from(val.toXDR("base64"), "utf8");
+
+    /** Parses the JSON written by a snapshot export. */
+    const snapshotJson = (res: ReturnType<typeof createStreamResponse>) =>
+      JSON.parse(res.chunks.join(""));
+
+    beforeAll(async () => {
+      await global.testPrismaClient.contract_data.createMany({
+        data: [
+          {
+            key_hash: instanceKeyHash,
+            contract_id: CONTRACT_ID,
+            ledger_sequence: 59409300,
+            durability: "instance",
+            key_symbol: null,
+            key: storedXdr(xdr.ScVal.scvLedgerKeyContractInstance()),
+            val: storedXdr(
+              xdr.ScVal.scvContractInstance(
+                new xdr.ScContractInstance({
+                  executable:
+                    xdr.ContractExecutable.contractExecutableStellarAsset(),
+                  storage: null,
+                }),
+              ),
+            ),
+            closed_at: new Date("2025-10-01T15:00:36Z"),
+            live_until_ledger_sequence: 61482999,
+          },
+        ],
+      });
+    });
+
+    afterAll(async () => {
+      await global.testPrismaClient.contract_data.deleteMany({
+        where: { key_hash: instanceKeyHash },
+      });
+    });
+
+    beforeEach(() => {
+      getLatestLedgerInfoMock.mockResolvedValue({
+        sequence: 700000,
+        protocolVersion: 23,
+      });
+      getSnapshotTtlSettingsMock.mockResolvedValue({
+        minPersistentEntryTtl: 2073600,
+        minTempEntryTtl: 17280,
+        maxEntryTtl: 3110400,
+      });
+    });
+
+    test("🟢writes_instance_and_selected_entries", async () => {
+      mockRequest.query = {
+        format: "snapshot",
+        filter_key: "BillingCyclePlanName",
+      };
+      const res = createStreamResponse();
+
+      await exportContractData(
+        mockRequest as Request,
+        res as unknown as Response,
+      );
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.headers).toEqual({
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${CONTRACT_ID}-snapshot.json"`,
+      });
+      const { timestamp, ledger_entries, ...header } = snapshotJson(res);
+      expect(header).toEqual({
+        protocol_version: 23,
+        sequence_number: 700000,
+        network_id: hash(
+          Buffer.from("Test SDF Network ; September 2015"),
+        ).toString("hex"),
+        base_reserve: 5_000_000,
+        min_persistent_entry_ttl: 2073600,
+        min_temp_entry_ttl: 17280,
+        max_entry_ttl: 3110400,
+      });
+      expect(typeof timestamp).toBe("number");
+
+      const instanceLedgerKey = {
+        contract: CONTRACT_ID,
+        key: "ledger_key_contract_instance",
+        durability: "persistent",
+      };
+      expect(ledger_entries).toEqual([
+        [
+          { contract_data: instanceLedgerKey },
+          [
+            {
+              last_modified_ledger_seq: 59409300,
+              data: {
+                contract_data: {
+                  ext: "v0",
+                  ...instanceLedgerKey,
+                  val: {
+                    contract_instance: {
+                      executable: "stellar_asset",
+                      storage: null,
+                    },
+                  },
+                },
+              },
+              ext: "v0",
+            },
+            61482999,
+          ],
+        ],
+        [
+          {
+            contract_data: {
+              contract: CONTRACT_ID,
+              key: { vec: [{ symbol: "BillingCyclePlanName" }, { u32: 3 }] },
+              durability: "persistent",
+            },
+          },
+          [expect.objectContaining({ ext: "v0" }), 61482901],
+        ],
+      ]);
+    });
+
+    test("🟢covers_every_entry_across_batches", async () => {
+      mockExportBatchSize = 2;
+      mockRequest.query = { format: "snapshot" };
+      const res = createStreamResponse();
+
+      await exportContractData(
+        mockRequest as Request,
+        res as unknown as Response,
+      );
+
+      const { ledger_entries } = snapshotJson(res);
+      // The listing includes the instance entry, which the snapshot writes once
+      expect(ledger_entries).toHaveLength(
+        (await listedKeyHashes({ limit: "200" })).length,
+      );
+      expect(
+        ledger_entries.filter(
+          ([key]: any[]) =>
+            key.contract_data.key === "ledger_key_contract_instance",
+        ),
+      ).toHaveLength(1);
+      expect(res.end).toHaveBeenCalledTimes(1);
+    });
+
+    test("🔴output_options_return_400", async () => {
+      mockRequest.query = { format: "snapshot", decode: "json" };
+      const res = createStreamResponse();
+
+      await exportContractData(
+        mockRequest as Request,
+        res as unknown as Response,
+      );
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({
+        error:
+          "Parameters fields, decode and rent_ledgers are not supported with format=snapshot",
+      });
+    });
+
+    test("🔴unindexed_instance_returns_404", async () => {
+      mockRequest.params = {
+        contract_id: "CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQVU2HHGCYSC",
+      };
+      mockRequest.query = { format: "snapshot" };
+      const res = createStreamResponse();
+
+      await exportContractData(
+        mockRequest as Request,
+        res as unknown as Response,
+      );
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({
+        error: "Contract instance not found",
+      });
+      expect(res.write).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,470 @@
+import type { Mock } from "vitest";
+import { Request, Response } from "express";
+import { xdr } from "@stellar/stellar-sdk";
+import { PrismaClient } from "../../generated/prisma";
+import {
+  buildExtendFootprint,
+  buildRestoreFootprint,
+} from "../../src/controllers/footprint";
+import { computeLedgerKeyHash } from "../../src/helpers/ledger_key";
+import "../setup-matchers"; // Import custom matchers
+import { seedTestData } from "../test-data-seeder";
+
+const getLatestLedgerMock = vi.fn();
+const getFootprintLimitsMock = vi.fn();
+
+vi.mock("../../src/utils/stellar", () => ({
+  getStellarService: vi.fn().mockImplementation(() => ({
+    getLatestLedger: getLatestLedgerMock,
+    getFootprintLimits: getFootprintLimitsMock,
+  })),
+}));
+
+// Global type declaration
+declare global {
+  var testPrismaClient: PrismaClient;
+}
+
+const CONTRACT_ID = "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+// Expired persistent entry with a real key hash (BillingCyclePlanName)
+const PERSISTENT_KEY_HASH =
+  "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6";
+// Expired instance entry
+const INSTANCE_KEY_HASH =
+  "0617ea10a459976834fa9ce5a189133586ad546528a1407f026d4d27810a4af8";
+// Expired temporary entry
+const TEMPORARY_KEY_HASH =
+  "aa11111111111111111111111111111111111111111111111111111111111111";
+// Live persistent entries
+const LIVE_KEY_HASH =
+  "1100000000000000000000000000000000000000000000000000000000000001";
+const LIVE_KEY_HASH_2 =
+  "1100000000000000000000000000000000000000000000000000000000000002";
+// Live persistent entry whose TTL ends at the reference ledger
+const SHARED_PERSISTENT_KEY_HASH =
+  "cc33333333333333333333333333333333333333333333333333333333333333";
+// Live instance entry whose TTL ends one ledger after the reference ledger
+const SHARED_INSTANCE_KEY_HASH =
+  "dd44444444444444444444444444444444444444444444444444444444444444";
+// Live temporary entries (the second has no TTL)
+const SHARED_TEMPORARY_KEY_HASH =
+  "ee55555555555555555555555555555555555555555555555555555555555555";
+const NULL_TTL_KEY_HASH =
+  "ff66666666666666666666666666666666666666666666666666666666666666";
+
+const FOOTPRINT_LIMITS = {
+  txMaxFootprintEntries: 400,
+  txMaxDiskReadEntries: 100,
+  txMaxDiskReadBytes: 200000,
+  txMaxWriteLedgerEntries: 50,
+  txMaxWriteBytes: 132096,
+};
+
+/** Key hashes of each footprint of a response. */
+const footprintKeyHashes = (responseData: any): string[][] =>
+  responseData.footprints.map((footprint: any) =>
+    footprint.entries.map((entry: any) => entry.key_hash),
+  );
+
+describe("POST /api/contract/:contract_id/restore-footprint", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeAll(async () => {
+    await seedTestData(global.testPrismaClient);
+  });
+
+  beforeEach(() => {
+    getLatestLedgerMock.mockResolvedValue(61482905);
+    getFootprintLimitsMock.mockResolvedValue(FOOTPRINT_LIMITS);
+
+    mockRequest = {
+      params: { contract_id: CONTRACT_ID },
+      body: {},
+    };
+
+    mockResponse = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    };
+  });
+
+  test("🟢expired_persistent_and_instance_entries_are_restored", async () => {
+    await buildRestoreFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData).toMatchObject({
+      contract_id: CONTRACT_ID,
+      ledger: 61482905,
+      entry_count: 2,
+      truncated: false,
+      skipped: [],
+    });
+    expect(responseData.footprints).toHaveLength(1);
+    const [footprint] = responseData.footprints;
+    expect(footprint.entries).toEqual([
+      {
+        key_hash: PERSISTENT_KEY_HASH,
+        durability: "persistent",
+        key_symbol: "BillingCyclePlanName",
+        key: "AAAAEAAAAAEAAAACAAAADwAAABRCaWxsaW5nQ3ljbGVQbGFuTmFtZQAAAAMAAAAD",
+        ledger_key: expect.any(String),
+        ttl: 61482901,
+        size_bytes: 64,
+      },
+      expect.objectContaining({
+        key_hash: INSTANCE_KEY_HASH,
+        durability: "instance",
+        ttl: 61482902,
+      }),
+    ]);
+
+    // Every entry is read-write, in entry order
+    expect(footprint.footprint).toEqual({
+      read_only: [],
+      read_write: footprint.entries.map((entry: any) => entry.ledger_key),
+    });
+
+    // The rebuilt LedgerKey hashes back to the indexed key hash
+    const persistentKey = xdr.LedgerKey.fromXDR(
+      footprint.footprint.read_write[0],
+      "base64",
+    );
+    expect(computeLedgerKeyHash(persistentKey)).toBe(PERSISTENT_KEY_HASH);
+
+    // Instance entries are persistent on-chain
+    const instanceKey = xdr.LedgerKey.fromXDR(
+      footprint.footprint.read_write[1],
+      "base64",
+    );
+    expect(instanceKey.contractData().durability()).toEqual(
+      xdr.ContractDataDurability.persistent(),
+    );
+
+    const sorobanData = xdr.SorobanTransactionData.fromXDR(
+      footprint.soroban_data,
+      "base64",
+    );
+    const ledgerFootprint = sorobanData.resources().footprint();
+    expect(ledgerFootprint.readOnly()).toHaveLength(0);
+    expect(ledgerFootprint.readWrite().map(key => key.toXDR("base64"))).toEqual(
+      footprint.footprint.read_write,
+    );
+  });
+
+  test("🟢footprints_are_chunked_by_network_write_limits", async () => {
+    getFootprintLimitsMock.mockResolvedValue({
+      ...FOOTPRINT_LIMITS,
+      txMaxWriteLedgerEntries: 1,
+    });
+
+    await buildRestoreFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData.entry_count).toBe(2);
+    expect(footprintKeyHashes(responseData)).toEqual([
+      [PERSISTENT_KEY_HASH],
+      [INSTANCE_KEY_HASH],
+    ]);
+  });
+
+  describe("corrupt stored keys", () => {
+    const CORRUPT_KEY_HASH =
+      "0000000000000000000000000000000000000000000000000000000000000bad";
+
+    beforeAll(async () => {
+      await global.testPrismaClient.contract_data.createMany({
+        data: [
+          {
+            key_hash: CORRUPT_KEY_HASH,
+            contract_id: CONTRACT_ID,
+            ledger_sequence: 59409300,
+            durability: "persistent",
+            key_symbol: "Corrupt",
+            key: Buffer.from("not-xdr", "utf8"),
+            val: Buffer.from("AAAAAQ==", "utf8"),
+            closed_at: new Date("2025-10-01T15:00:36Z"),
+            live_until_ledger_sequence: 61482900,
+          },
+        ],
+      });
+    });
+
+    afterAll(async () => {
+      await global.testPrismaClient.contract_data.deleteMany({
+        where: { key_hash: CORRUPT_KEY_HASH },
+      });
+    });
+
+    test("🟡undecodable_keys_are_skipped_and_reported", async () => {
+      await buildRestoreFootprint(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+      expect(responseData.entry_count).toBe(2);
+      expect(footprintKeyHashes(responseData)).toEqual([
+        [PERSISTENT_KEY_HASH, INSTANCE_KEY_HASH],
+      ]);
+      expect(responseData.skipped).toEqual([
+        {
+          key_hash: CORRUPT_KEY_HASH,
+          error: expect.stringContaining("Failed to decode key"),
+        },
+      ]);
+    });
+  });
+
+  test("🟢key_symbols_narrow_the_entries", async () => {
+    mockRequest.body = { key_symbols: ["BillingCyclePlanName"] };
+
+    await buildRestoreFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(footprintKeyHashes(responseData)).toEqual([[PERSISTENT_KEY_HASH]]);
+  });
+
+  test("🟡key_hashes_only_cover_archived_persistent_entries", async () => {
+    mockRequest.body = {
+      key_hashes: [LIVE_KEY_HASH, TEMPORARY_KEY_HASH, INSTANCE_KEY_HASH],
+    };
+
+    await buildRestoreFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(footprintKeyHashes(responseData)).toEqual([[INSTANCE_KEY_HASH]]);
+  });
+
+  test("🟡nothing_archived_returns_no_footprints", async () => {
+    getLatestLedgerMock.mockResolvedValue(700000);
+
+    await buildRestoreFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      contract_id: CONTRACT_ID,
+      ledger: 700000,
+      entry_count: 0,
+      truncated: false,
+      footprints: [],
+      skipped: [],
+    });
+  });
+
+  test("🔴invalid_key_hashes_return_400", async () => {
+    mockRequest.body = { key_hashes: ["not-a-hash"] };
+
+    await buildRestoreFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error: "Invalid key_hashes, must be an array of 1 to 100 values",
+    });
+  });
+});
+
+describe("POST /api/contract/:contract_id/extend-footprint", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeAll(async () => {
+    await seedTestData(global.testPrismaClient);
+  });
+
+  beforeEach(() => {
+    getLatestLedgerMock.mockResolvedValue(61482905);
+    getFootprintLimitsMock.mockResolvedValue(FOOTPRINT_LIMITS);
+
+    mockRequest = {
+      params: { contract_id: CONTRACT_ID },
+      body: {},
+    };
+
+    mockResponse = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    };
+  });
+
+  test("🟢live_persistent_and_instance_entries_are_extended", async () => {
+    await buildExtendFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData).toMatchObject({
+      contract_id: CONTRACT_ID,
+      ledger: 61482905,
+      entry_count: 4,
+      truncated: false,
+    });
+    expect(footprintKeyHashes(responseData)).toEqual([
+      [
+        LIVE_KEY_HASH,
+        LIVE_KEY_HASH_2,
+        SHARED_PERSISTENT_KEY_HASH,
+        SHARED_INSTANCE_KEY_HASH,
+      ],
+    ]);
+
+    // Every entry is read-only, in entry order
+    const [footprint] = responseData.footprints;
+    expect(footprint.footprint).toEqual({
+      read_only: footprint.entries.map((entry: any) => entry.ledger_key),
+      read_write: [],
+    });
+
+    const sorobanData = xdr.SorobanTransactionData.fromXDR(
+      footprint.soroban_data,
+      "base64",
+    );
+    const ledgerFootprint = sorobanData.resources().footprint();
+    expect(ledgerFootprint.readWrite()).toHaveLength(0);
+    expect(ledgerFootprint.readOnly().map(key => key.toXDR("base64"))).toEqual(
+      footprint.footprint.read_only,
+    );
+  });
+
+  test("🟢footprints_are_chunked_by_network_limits", async () => {
+    getFootprintLimitsMock.mockResolvedValue({
+      ...FOOTPRINT_LIMITS,
+      txMaxFootprintEntries: 3,
+      txMaxDiskReadEntries: 2,
+    });
+
+    await buildExtendFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData.entry_count).toBe(4);
+    expect(footprintKeyHashes(responseData)).toEqual([
+      [LIVE_KEY_HASH, LIVE_KEY_HASH_2],
+      [SHARED_PERSISTENT_KEY_HASH, SHARED_INSTANCE_KEY_HASH],
+    ]);
+    for (const footprint of responseData.footprints) {
+      const sorobanData = xdr.SorobanTransactionData.fromXDR(
+        footprint.soroban_data,
+        "base64",
+      );
+      expect(sorobanData.resources().footprint().readOnly()).toHaveLength(2);
+    }
+  });
+
+  test("🟢expiring_within_selects_entries_close_to_expiry", async () => {
+    mockRequest.body = { expiring_within: 1 };
+
+    await buildExtendFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(footprintKeyHashes(responseData)).toEqual([
+      [SHARED_PERSISTENT_KEY_HASH, SHARED_INSTANCE_KEY_HASH],
+    ]);
+  });
+
+  test("🟢durability_selects_live_temporary_entries", async () => {
+    mockRequest.body = { durability: ["temporary"] };
+
+    await buildExtendFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(footprintKeyHashes(responseData)).toEqual([
+      [SHARED_TEMPORARY_KEY_HASH, NULL_TTL_KEY_HASH],
+    ]);
+  });
+
+  test("🟡archived_entries_are_not_extended", async () => {
+    mockRequest.body = {
+      key_hashes: [PERSISTENT_KEY_HASH, INSTANCE_KEY_HASH, LIVE_KEY_HASH],
+    };
+
+    await buildExtendFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(footprintKeyHashes(responseData)).toEqual([[LIVE_KEY_HASH]]);
+  });
+
+  test("🟡no_matching_entries_return_no_footprints", async () => {
+    mockRequest.body = { key_symbols: ["Missing"] };
+
+    await buildExtendFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      contract_id: CONTRACT_ID,
+      ledger: 61482905,
+      entry_count: 0,
+      truncated: false,
+      footprints: [],
+      skipped: [],
+    });
+  });
+
+  test("🔴invalid_expiring_within_returns_400", async () => {
+    mockRequest.body = { expiring_within: -1 };
+
+    await buildExtendFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error:
+        "Invalid expiring_within=-1, must be an integer between 0 and 10000000",
+    });
+  });
+
+  test("🔴invalid_durability_returns_400", async () => {
+    mockRequest.body = { durability: ["forever"] };
+
+    await buildExtendFootprint(
+      mockRequest as Request,
+      mockResponse as Response,
+    );
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error:
+        "Invalid durability, must be an array of persistent, temporary, instance values",
+    });
+  });
+});
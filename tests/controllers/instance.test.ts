@@ -0,0 +1,183 @@
+import type { Mock } from "vitest";
+import { Request, Response } from "express";
+import { Address, xdr } from "@stellar/stellar-sdk";
+import { PrismaClient } from "../../generated/prisma";
+import { getContractInstance } from "../../src/controllers/instance";
+import { computeContractDataKeyHash } from "../../src/helpers/ledger_key";
+import "../setup-matchers"; // Import custom matchers
+
+const getLatestLedgerMock = vi.fn();
+
+vi.mock("../../src/utils/stellar", () => ({
+  getStellarService: vi.fn().mockImplementation(() => ({
+    getLatestLedger: getLatestLedgerMock,
+  })),
+}));
+
+// Global type declaration
+declare global {
+  var testPrismaClient: PrismaClient;
+}
+
+const WASM_CONTRACT_ID =
+  "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+const ASSET_CONTRACT_ID =
+  "CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQVU2HHGCYSC";
+const BROKEN_CONTRACT_ID =
+  "CAS3J7GYLGXMF6TDJBBYYSE3HQ6BBSMLNUQ34T6TZMYMW2EVH34XOWMA";
+const ADMIN = "GB7FBBPRBZBC7Q47J5BLJTN5W7YNMMVI5FWPQO3QN5EYNUDBXYCC6OJF";
+const WASM_HASH =
+  "7c7a3a3b7c1a0f7b3a3b7c1a0f7b3a3b7c1a0f7b3a3b7c1a0f7b3a3b7c1a0f7b";
+
+const instanceKeyHash = (contractId: string) =>
+  computeContractDataKeyHash(
+    contractId,
+    xdr.ScVal.scvLedgerKeyContractInstance(),
+    "instance",
+  );
+
+const storedXdr = (val: xdr.ScVal) => Buffer.from(val.toXDR("base64"), "utf8");
+
+const instanceRow = (
+  contractId: string,
+  executable: xdr.ContractExecutable,
+  storage: xdr.ScMapEntry[],
+) => ({
+  key_hash: instanceKeyHash(contractId),
+  contract_id: contractId,
+  ledger_sequence: 59409310,
+  durability: "instance",
+  key_symbol: null,
+  key: storedXdr(xdr.ScVal.scvLedgerKeyContractInstance()),
+  val: storedXdr(
+    xdr.ScVal.scvContractInstance(
+      new xdr.ScContractInstance({ executable, storage }),
+    ),
+  ),
+  closed_at: new Date("2025-10-03T15:00:36Z"),
+  live_until_ledger_sequence: 61482901,
+});
+
+describe("GET /api/contract/:contract_id/instance", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeAll(async () => {
+    await global.testPrismaClient.contract_data.deleteMany();
+    await global.testPrismaClient.contract_data.createMany({
+      data: [
+        instanceRow(
+          WASM_CONTRACT_ID,
+          xdr.ContractExecutable.contractExecutableWasm(
+            Buffer.from(WASM_HASH, "hex"),
+          ),
+          [
+            new xdr.ScMapEntry({
+              key: xdr.ScVal.scvSymbol("Admin"),
+              val: Address.fromString(ADMIN).toScVal(),
+            }),
+          ],
+        ),
+        instanceRow(
+          ASSET_CONTRACT_ID,
+          xdr.ContractExecutable.contractExecutableStellarAsset(),
+          [],
+        ),
+        {
+          ...instanceRow(
+            BROKEN_CONTRACT_ID,
+            xdr.ContractExecutable.contractExecutableStellarAsset(),
+            [],
+          ),
+          val: storedXdr(xdr.ScVal.scvU32(1)),
+        },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await global.testPrismaClient.contract_data.deleteMany();
+  });
+
+  beforeEach(() => {
+    getLatestLedgerMock.mockResolvedValue(700000);
+
+    mockRequest = {
+      params: { contract_id: WASM_CONTRACT_ID },
+      query: {},
+    };
+
+    mockResponse = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    };
+  });
+
+  test("🟢wasm_contract_returns_executable_and_instance_storage", async () => {
+    await getContractInstance(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      contract_id: WASM_CONTRACT_ID,
+      key_hash: instanceKeyHash(WASM_CONTRACT_ID),
+      executable: "wasm",
+      wasm_hash: WASM_HASH,
+      storage: [
+        {
+          key: { type: "symbol", value: "Admin" },
+          value: { type: "address", value: ADMIN },
+        },
+      ],
+      ttl: 61482901,
+      ttl_source: "contract_data",
+      expired: false,
+      updated: Math.floor(new Date("2025-10-03T15:00:36Z").getTime() / 1000),
+      last_modified_ledger: 59409310,
+    });
+  });
+
+  test("🟢stellar_asset_contract_has_no_wasm_hash", async () => {
+    mockRequest.params = { contract_id: ASSET_CONTRACT_ID };
+
+    await getContractInstance(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData).toMatchObject({
+      executable: "stellar_asset",
+      wasm_hash: null,
+      storage: [],
+    });
+  });
+
+  test("🟢expired_is_computed_from_latest_ledger", async () => {
+    getLatestLedgerMock.mockResolvedValue(61482902);
+
+    await getContractInstance(mockRequest as Request, mockResponse as Response);
+
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData.expired).toBe(true);
+  });
+
+  test("🔴unindexed_contract_returns_404", async () => {
+    mockRequest.params = {
+      contract_id: "CA3D5KRYM6CB7OWQ6TWYRR3Z4T7GNZLKERYNZGGA5SOAOPIFY6YQGAXE",
+    };
+
+    await getContractInstance(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(404);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error: "Contract instance not found",
+    });
+  });
+
+  test("🔴undecodable_instance_entry_throws", async () => {
+    mockRequest.params = { contract_id: BROKEN_CONTRACT_ID };
+
+    await expect(
+      getContractInstance(mockRequest as Request, mockResponse as Response),
+    ).rejects.toThrow("does not hold a contract instance");
+  });
+});
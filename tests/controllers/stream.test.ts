@@ -0,0 +1,313 @@
+import { Request, Response } from "express";
+import { EventEmitter } from "events";
+import { PrismaClient } from "../../generated/prisma";
+import { streamContractData } from "../../src/controllers/stream";
+import { ContractData } from "../../src/types/contract_data";
+import { StorageChangeSubscriber } from "../../src/types/stream";
+import { seedTestData } from "../test-data-seeder";
+
+const subscribeMock = vi.fn();
+
+vi.mock("../../src/config/env", () => ({
+  Env: {
+    get logLevel() {
+      return "silent";
+    },
+    get streamMaxConnections() {
+      return 2;
+    },
+  },
+}));
+
+vi.mock("../../src/utils/storage_feed", () => ({
+  getStorageChangeFeed: vi.fn().mockImplementation(() => ({
+    subscribe: subscribeMock,
+  })),
+}));
+
+// Global type declaration
+declare global {
+  var testPrismaClient: PrismaClient;
+}
+
+const CONTRACT_ID = "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+
+describe("GET /api/contract/:contract_id/storage/stream", () => {
+  let mockRequest: Partial<Request>;
+  let unsubscribeMock: ReturnType<typeof vi.fn>;
+
+  /** Minimal streaming response recording headers and written chunks. */
+  const createStreamResponse = () => {
+    const res = Object.assign(new EventEmitter(), {
+      chunks: [] as string[],
+      headers: {} as Record<string, string>,
+      status: vi.fn(),
+      json: vi.fn(),
+      setHeader: vi.fn((name: string, value: string) => {
+        res.headers[name] = value;
+      }),
+      write: vi.fn((chunk: string): boolean => {
+        res.chunks.push(chunk);
+        return true;
+      }),
+      end: vi.fn(),
+    });
+    res.status.mockReturnValue(res);
+    res.json.mockReturnValue(res);
+    return res;
+  };
+
+  /** Subscriber registered with the feed by the last request. */
+  const lastSubscriber = (): StorageChangeSubscriber =>
+    subscribeMock.mock.calls[subscribeMock.mock.calls.length - 1][0];
+
+  /** Changed row of the seeded contract. */
+  const changedRow = (keyHash: string, ledger: number): ContractData => ({
+    contract_id: CONTRACT_ID,
+    durability: "persistent",
+    key_hash: keyHash,
+    key_symbol: null,
+    key: null,
+    val: null,
+    closed_at: new Date("2025-10-09T12:00:00Z"),
+    ledger_sequence: ledger,
+    last_modified_ledger: ledger,
+    size_bytes: 0,
+    live_until_ledger_sequence: 61483000,
+    ttl_source: null,
+    expired: false,
+  });
+
+  beforeAll(async () => {
+    await seedTestData(global.testPrismaClient);
+  });
+
+  afterAll(async () => {
+    await global.testPrismaClient.contract_data.deleteMany();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    unsubscribeMock = vi.fn();
+    subscribeMock.mockReturnValue(unsubscribeMock);
+
+    mockRequest = {
+      params: { contract_id: CONTRACT_ID },
+      get: vi.fn().mockReturnValue(undefined) as unknown as Request["get"],
+    };
+  });
+
+  test("🟢starts_after_the_latest_contract_ledger", async () => {
+    const res = createStreamResponse();
+
+    await streamContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.headers["Content-Type"]).toBe(
+      "text/event-stream; charset=utf-8",
+    );
+    expect(lastSubscriber()).toMatchObject({
+      contractId: CONTRACT_ID,
+      kind: "entry",
+      cursor: { ledger: 59409310, keyHash: null },
+    });
+    expect(res.chunks.join("")).toBe(
+      'retry: 5000\n\nevent: ready\nid: 59409310\ndata: {"ledger":59409310}\n\n',
+    );
+    res.emit("close");
+  });
+
+  test("🟢resumes_after_last_event_id", async () => {
+    mockRequest.get = vi
+      .fn()
+      .mockReturnValue("59409300") as unknown as Request["get"];
+    const res = createStreamResponse();
+
+    await streamContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+
+    expect(mockRequest.get).toHaveBeenCalledWith("Last-Event-ID");
+    expect(lastSubscriber().cursor).toEqual({
+      ledger: 59409300,
+      keyHash: null,
+    });
+    res.emit("close");
+  });
+
+  test("🟢changes_are_written_as_entry_events", async () => {
+    const res = createStreamResponse();
+    await streamContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+    res.chunks.length = 0;
+
+    lastSubscriber().onChanges(
+      [
+        changedRow("aa", 59409600),
+        changedRow("bb", 59409600),
+        changedRow("cc", 59409601),
+      ],
+      false,
+      700000,
+    );
+
+    const events = res.chunks
+      .join("")
+      .split("\n\n")
+      .filter(Boolean)
+      .map(event => event.split("\n"));
+    expect(events.map(lines => lines.slice(0, -1))).toEqual([
+      ["event: entry"],
+      // Last entry of ledger 59409600
+      ["event: entry", "id: 59409600"],
+      // Ledger 59409601 may have more entries
+      ["event: entry"],
+    ]);
+    expect(JSON.parse(events[0][1].slice("data: ".length))).toMatchObject({
+      key_hash: "aa",
+      ledger_sequence: 59409600,
+      ttl: 61483000,
+    });
+    res.emit("close");
+  });
+
+  test("🟢heartbeat_and_disconnect", async () => {
+    vi.useFakeTimers();
+    try {
+      const res = createStreamResponse();
+      await streamContractData(
+        mockRequest as Request,
+        res as unknown as Response,
+      );
+
+      vi.advanceTimersByTime(15_000);
+      expect(res.chunks[res.chunks.length - 1]).toBe(": heartbeat\n\n");
+
+      res.emit("close");
+      expect(unsubscribeMock).toHaveBeenCalledTimes(1);
+      const writes = res.write.mock.calls.length;
+      vi.advanceTimersByTime(30_000);
+      expect(res.write).toHaveBeenCalledTimes(writes);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test("🔴invalid_last_event_id_returns_400", async () => {
+    mockRequest.get = vi
+      .fn()
+      .mockReturnValue("abc") as unknown as Request["get"];
+    const res = createStreamResponse();
+
+    await streamContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      error:
+        "Invalid Last-Event-ID=abc, must be a ledger sequence between 0 and 2147483647",
+    });
+    expect(subscribeMock).not.toHaveBeenCalled();
+  });
+
+  test("🟡slow_client_declines_changes", async () => {
+    const res = Object.assign(createStreamResponse(), {
+      writableNeedDrain: true,
+    });
+    await streamContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+    const writes = res.write.mock.calls.length;
+
+    expect(
+      lastSubscriber().onChanges([changedRow("aa", 59409600)], true, 700000),
+    ).toBe(false);
+    expect(res.write).toHaveBeenCalledTimes(writes);
+    res.emit("close");
+  });
+
+  test("🔴connection_cap_returns_503", async () => {
+    const open = [createStreamResponse(), createStreamResponse()];
+    for (const res of open) {
+      await streamContractData(
+        mockRequest as Request,
+        res as unknown as Response,
+      );
+    }
+    const rejected = createStreamResponse();
+
+    await streamContractData(
+      mockRequest as Request,
+      rejected as unknown as Response,
+    );
+
+    expect(rejected.status).toHaveBeenCalledWith(503);
+    expect(rejected.json).toHaveBeenCalledWith({
+      error: "Too many open storage streams, try again later",
+    });
+
+    // Closing a stream frees its slot
+    open[0].emit("close");
+    const accepted = createStreamResponse();
+    await streamContractData(
+      mockRequest as Request,
+      accepted as unknown as Response,
+    );
+    expect(accepted.status).toHaveBeenCalledWith(200);
+    accepted.emit("close");
+    open[1].emit("close");
+  });
+
+  test("🟡disconnect_before_subscribing_frees_the_slot", async () => {
+    const early = [createStreamResponse(), createStreamResponse()];
+    for (const res of early) {
+      const pending = streamContractData(
+        mockRequest as Request,
+        res as unknown as Response,
+      );
+      // The client leaves while the starting ledger is read
+      res.emit("close");
+      await pending;
+      expect(res.write).not.toHaveBeenCalled();
+    }
+    expect(subscribeMock).not.toHaveBeenCalled();
+
+    // Both slots are free again
+    const open = [createStreamResponse(), createStreamResponse()];
+    for (const res of open) {
+      await streamContractData(
+        mockRequest as Request,
+        res as unknown as Response,
+      );
+      expect(res.status).toHaveBeenCalledWith(200);
+    }
+    for (const res of open) {
+      res.emit("close");
+    }
+  });
+
+  test("🔴closed_feed_returns_503", async () => {
+    subscribeMock.mockReturnValue(undefined);
+    const res = createStreamResponse();
+
+    await streamContractData(
+      mockRequest as Request,
+      res as unknown as Response,
+    );
+
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.json).toHaveBeenCalledWith({
+      error: "Storage streams are closed",
+    });
+    expect(res.write).not.toHaveBeenCalled();
+  });
+});
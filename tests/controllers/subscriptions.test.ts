@@ -0,0 +1,421 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import { PrismaClient } from "../../generated/prisma";
+import {
+  closeSubscriptionSession,
+  createSubscriptionSession,
+  subscribeContract,
+  unsubscribeContract,
+} from "../../src/controllers/subscriptions";
+import {
+  attachSubscriptionServer,
+  closeSubscriptionServer,
+} from "../../src/routes/subscriptions";
+import { ContractData } from "../../src/types/contract_data";
+import { StorageChangeSubscriber } from "../../src/types/stream";
+import { seedTestData } from "../test-data-seeder";
+
+const subscribeMock = vi.fn();
+
+vi.mock("../../src/config/env", () => ({
+  Env: {
+    get logLevel() {
+      return "silent";
+    },
+    get wsMaxConnections() {
+      return 1;
+    },
+  },
+}));
+
+vi.mock("../../src/utils/storage_feed", () => ({
+  getStorageChangeFeed: vi.fn().mockImplementation(() => ({
+    subscribe: subscribeMock,
+  })),
+}));
+
+// Global type declaration
+declare global {
+  var testPrismaClient: PrismaClient;
+}
+
+const CONTRACT_ID = "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+
+/** Minimal open socket recording the messages sent to the client. */
+const createSocket = () => {
+  const socket = {
+    readyState: WebSocket.OPEN,
+    bufferedAmount: 0,
+    messages: [] as Record<string, unknown>[],
+    send: vi.fn((data: string) => {
+      socket.messages.push(JSON.parse(data));
+    }),
+    close: vi.fn(),
+  };
+  return socket;
+};
+
+/** Subscribers registered with the feed, in order. */
+const feedSubscribers = (): StorageChangeSubscriber[] =>
+  subscribeMock.mock.calls.map(([subscriber]) => subscriber);
+
+/** Changed row of the seeded contract. */
+const changedRow = (
+  keyHash: string,
+  keySymbol: string | null,
+  ledger: number,
+): ContractData => ({
+  contract_id: CONTRACT_ID,
+  durability: "persistent",
+  key_hash: keyHash,
+  key_symbol: keySymbol,
+  key: null,
+  val: null,
+  closed_at: new Date("2025-10-09T12:00:00Z"),
+  ledger_sequence: ledger,
+  last_modified_ledger: ledger,
+  size_bytes: 0,
+  live_until_ledger_sequence: 61483000,
+  ttl_source: null,
+  expired: false,
+});
+
+let unsubscribeMock: ReturnType<typeof vi.fn>;
+
+beforeAll(async () => {
+  await seedTestData(global.testPrismaClient);
+});
+
+afterAll(async () => {
+  await global.testPrismaClient.contract_data.deleteMany();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  unsubscribeMock = vi.fn();
+  subscribeMock.mockReturnValue(unsubscribeMock);
+});
+
+describe("subscribeContract", () => {
+  test("🟢subscribes_to_storage_and_ttl_changes", async () => {
+    const socket = createSocket();
+    const session = createSubscriptionSession(socket as unknown as WebSocket);
+
+    await subscribeContract(session, CONTRACT_ID);
+
+    expect(feedSubscribers()).toMatchObject([
+      {
+        contractId: CONTRACT_ID,
+        kind: "entry",
+        cursor: { ledger: 59409310, keyHash: null },
+      },
+      { contractId: CONTRACT_ID, kind: "ttl" },
+    ]);
+    expect(socket.messages).toEqual([
+      {
+        type: "subscribed",
+        contract_id: CONTRACT_ID,
+        key_symbols: null,
+        ledger: 59409310,
+      },
+    ]);
+  });
+
+  test("🟢changes_are_sent_as_entries", async () => {
+    const socket = createSocket();
+    const session = createSubscriptionSession(socket as unknown as WebSocket);
+    await subscribeContract(session, CONTRACT_ID);
+    socket.messages.length = 0;
+    const [entrySubscriber, ttlSubscriber] = feedSubscribers();
+
+    expect(
+      entrySubscriber.onChanges(
+        [changedRow("aa", "Balance", 59409600)],
+        true,
+        700000,
+      ),
+    ).toBe(true);
+    ttlSubscriber.onChanges(
+      [changedRow("bb", "Allowance", 59409601)],
+      true,
+      700000,
+    );
+
+    expect(socket.messages).toMatchObject([
+      {
+        type: "storage_change",
+        contract_id: CONTRACT_ID,
+        entries: [
+          {
+            key_hash: "aa",
+            key_symbol: "Balance",
+            ledger_sequence: 59409600,
+            ttl: 61483000,
+          },
+        ],
+      },
+      {
+        type: "ttl_change",
+        contract_id: CONTRACT_ID,
+        entries: [{ key_hash: "bb" }],
+      },
+    ]);
+  });
+
+  test("🟢key_symbols_filter_changes", async () => {
+    const socket = createSocket();
+    const session = createSubscriptionSession(socket as unknown as WebSocket);
+    await subscribeContract(session, CONTRACT_ID, ["Balance"]);
+    expect(socket.messages[0]).toMatchObject({ key_symbols: ["Balance"] });
+    socket.messages.length = 0;
+    const [entrySubscriber] = feedSubscribers();
+
+    entrySubscriber.onChanges(
+      [
+        changedRow("aa", "Balance", 59409600),
+        changedRow("bb", "Allowance", 59409600),
+        changedRow("cc", null, 59409600),
+      ],
+      true,
+      700000,
+    );
+    // No matching entry, no message
+    entrySubscriber.onChanges(
+      [changedRow("dd", "Allowance", 59409601)],
+      true,
+      700000,
+    );
+
+    expect(socket.messages).toHaveLength(1);
+    expect(
+      (socket.messages[0].entries as { key_hash: string }[]).map(
+        e => e.key_hash,
+      ),
+    ).toEqual(["aa"]);
+  });
+
+  test("🟡slow_client_declines_changes", async () => {
+    const socket = createSocket();
+    const session = createSubscriptionSession(socket as unknown as WebSocket);
+    await subscribeContract(session, CONTRACT_ID);
+    socket.messages.length = 0;
+    socket.bufferedAmount = 2 * 1024 * 1024;
+
+    expect(
+      feedSubscribers()[0].onChanges(
+        [changedRow("aa", null, 59409600)],
+        true,
+        700000,
+      ),
+    ).toBe(false);
+    expect(socket.messages).toEqual([]);
+  });
+
+  test("🔴already_subscribed_returns_error", async () => {
+    const socket = createSocket();
+    const session = createSubscriptionSession(socket as unknown as WebSocket);
+    await subscribeContract(session, CONTRACT_ID);
+
+    await subscribeContract(session, CONTRACT_ID);
+
+    expect(subscribeMock).toHaveBeenCalledTimes(2);
+    expect(socket.messages[1]).toEqual({
+      type: "error",
+      contract_id: CONTRACT_ID,
+      error: `Already subscribed to ${CONTRACT_ID}`,
+    });
+  });
+
+  test("🔴closed_feed_returns_error", async () => {
+    subscribeMock.mockReturnValue(undefined);
+    const socket = createSocket();
+    const session = createSubscriptionSession(socket as unknown as WebSocket);
+
+    await subscribeContract(session, CONTRACT_ID);
+
+    expect(session.subscriptions.size).toBe(0);
+    expect(socket.messages).toEqual([
+      {
+        type: "error",
+        contract_id: CONTRACT_ID,
+        error: "Storage streams are closed",
+      },
+    ]);
+  });
+
+  test("🟡feed_shutdown_closes_connection", async () => {
+    const socket = createSocket();
+    const session = createSubscriptionSession(socket as unknown as WebSocket);
+    await subscribeContract(session, CONTRACT_ID);
+
+    feedSubscribers()[0].onClose();
+
+    expect(socket.close).toHaveBeenCalledWith(1001, "Server shutting down");
+  });
+});
+
+describe("unsubscribeContract", () => {
+  test("🟢removes_feed_subscribers", async () => {
+    const socket = createSocket();
+    const session = createSubscriptionSession(socket as unknown as WebSocket);
+    await subscribeContract(session, CONTRACT_ID);
+
+    unsubscribeContract(session, CONTRACT_ID);
+
+    expect(unsubscribeMock).toHaveBeenCalledTimes(2);
+    expect(session.subscriptions.size).toBe(0);
+    expect(socket.messages[1]).toEqual({
+      type: "unsubscribed",
+      contract_id: CONTRACT_ID,
+    });
+  });
+
+  test("🔴not_subscribed_returns_error", () => {
+    const socket = createSocket();
+    const session = createSubscriptionSession(socket as unknown as WebSocket);
+
+    unsubscribeContract(session, CONTRACT_ID);
+
+    expect(socket.messages).toEqual([
+      {
+        type: "error",
+        contract_id: CONTRACT_ID,
+        error: `Not subscribed to ${CONTRACT_ID}`,
+      },
+    ]);
+  });
+
+  test("🟡closed_session_removes_every_subscription", async () => {
+    const socket = createSocket();
+    const session = createSubscriptionSession(socket as unknown as WebSocket);
+    await subscribeContract(session, CONTRACT_ID);
+
+    closeSubscriptionSession(session);
+
+    expect(unsubscribeMock).toHaveBeenCalledTimes(2);
+    expect(session.subscriptions.size).toBe(0);
+  });
+});
+
+describe("WebSocket /api/subscriptions", () => {
+  let server: Server;
+  let wss: WebSocketServer;
+  let url: string;
+
+  const authenticate = vi.fn();
+
+  /** Opens a client connection; resolves once open, rejects on refusal. */
+  const connect = (path = "/api/subscriptions") =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const ws = new WebSocket(`${url}${path}`);
+      ws.once("open", () => resolve(ws));
+      ws.once("unexpected-response", (_, res) =>
+        reject(new Error(String(res.statusCode))),
+      );
+      ws.once("error", reject);
+    });
+
+  /** Resolves with the next message of a client connection. */
+  const nextMessage = (ws: WebSocket) =>
+    new Promise<Record<string, unknown>>(resolve => {
+      ws.once("message", data => resolve(JSON.parse(data.toString())));
+    });
+
+  /** Closes a client connection and waits for the server to release it. */
+  const disconnect = async (ws: WebSocket) => {
+    ws.close();
+    await new Promise(resolve => ws.once("close", resolve));
+    await vi.waitFor(() => expect(wss.clients.size).toBe(0));
+  };
+
+  beforeAll(async () => {
+    server = createServer();
+    wss = attachSubscriptionServer(server, { authenticate });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    closeSubscriptionServer(wss);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    authenticate.mockResolvedValue(true);
+  });
+
+  test("🟢subscribe_and_unsubscribe", async () => {
+    const ws = await connect();
+
+    ws.send(JSON.stringify({ type: "subscribe", contract_id: CONTRACT_ID }));
+    expect(await nextMessage(ws)).toEqual({
+      type: "subscribed",
+      contract_id: CONTRACT_ID,
+      key_symbols: null,
+      ledger: 59409310,
+    });
+
+    ws.send(JSON.stringify({ type: "unsubscribe", contract_id: CONTRACT_ID }));
+    expect(await nextMessage(ws)).toEqual({
+      type: "unsubscribed",
+      contract_id: CONTRACT_ID,
+    });
+    await disconnect(ws);
+  });
+
+  test("🟡disconnect_removes_subscriptions", async () => {
+    const ws = await connect();
+    ws.send(JSON.stringify({ type: "subscribe", contract_id: CONTRACT_ID }));
+    await nextMessage(ws);
+
+    await disconnect(ws);
+
+    expect(unsubscribeMock).toHaveBeenCalledTimes(2);
+  });
+
+  test("🔴invalid_messages_return_errors", async () => {
+    const ws = await connect();
+
+    ws.send("not json");
+    expect(await nextMessage(ws)).toEqual({
+      type: "error",
+      error: "Messages must be JSON text",
+    });
+
+    ws.send(JSON.stringify({ type: "subscribe", contract_id: "CINVALID" }));
+    expect(await nextMessage(ws)).toMatchObject({
+      type: "error",
+      error: "Invalid message",
+      issues: expect.arrayContaining([
+        expect.objectContaining({
+          path: "contract_id",
+          message: "Invalid Stellar contract ID",
+        }),
+      ]),
+    });
+    expect(subscribeMock).not.toHaveBeenCalled();
+    await disconnect(ws);
+  });
+
+  test("🔴rejected_authentication_returns_401", async () => {
+    authenticate.mockResolvedValue(false);
+
+    await expect(connect()).rejects.toThrow("401");
+    expect(authenticate).toHaveBeenCalledTimes(1);
+  });
+
+  test("🔴unknown_path_returns_404", async () => {
+    await expect(connect("/api/other")).rejects.toThrow("404");
+  });
+
+  test("🔴connection_cap_returns_503", async () => {
+    const ws = await connect();
+
+    await expect(connect()).rejects.toThrow("503");
+
+    // Closing a connection frees its slot
+    await disconnect(ws);
+    await disconnect(await connect());
+  });
+});
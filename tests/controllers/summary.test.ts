@@ -0,0 +1,192 @@
+import type { Mock } from "vitest";
+import { Request, Response } from "express";
+import { PrismaClient } from "../../generated/prisma";
+import { getContractSummary } from "../../src/controllers/summary";
+import "../setup-matchers"; // Import custom matchers
+import { seedTestData } from "../test-data-seeder";
+import rentSettingsFixture from "../fixtures/rent_settings.json";
+
+const getLatestLedgerMock = vi.fn();
+const getRentSettingsMock = vi.fn();
+
+vi.mock("../../src/utils/stellar", () => ({
+  getStellarService: vi.fn().mockImplementation(() => ({
+    getLatestLedger: getLatestLedgerMock,
+    getRentSettings: getRentSettingsMock,
+  })),
+}));
+
+// Global type declaration
+declare global {
+  var testPrismaClient: PrismaClient;
+}
+
+const CONTRACT_ID = "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+
+describe("GET /api/contract/:contract_id/summary", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeAll(async () => {
+    await seedTestData(global.testPrismaClient);
+  });
+
+  beforeEach(() => {
+    getLatestLedgerMock.mockResolvedValue(61482905);
+    getRentSettingsMock.mockResolvedValue(rentSettingsFixture);
+
+    mockRequest = {
+      params: { contract_id: CONTRACT_ID },
+      query: {},
+    };
+
+    mockResponse = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    };
+  });
+
+  test("🟢valid_contract_id_returns_summary", async () => {
+    mockRequest.query = { top_keys: "3" };
+
+    await getContractSummary(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      contract_id: CONTRACT_ID,
+      ledger: 61482905,
+      total_entries: 11,
+      live_entries: 6,
+      expired_entries: 5,
+      entries_by_durability: { persistent: 4, temporary: 5, instance: 2 },
+      top_key_symbols: [
+        { key_symbol: "SharedEntry", count: 3 },
+        { key_symbol: "BillingCyclePlanName", count: 1 },
+        { key_symbol: "BillingCyclePrice", count: 1 },
+      ],
+      key_bytes: 412,
+      value_bytes: 112,
+      earliest_updated: Math.floor(
+        new Date("2025-10-01T15:00:36Z").getTime() / 1000,
+      ),
+      latest_updated: Math.floor(
+        new Date("2025-10-09T12:00:00.900Z").getTime() / 1000,
+      ),
+      min_ttl: 61482901,
+      max_ttl: 61483001,
+    });
+  });
+
+  test("🟢ttl_extensions_are_counted_as_live", async () => {
+    await global.testPrismaClient.ttl.createMany({
+      data: [
+        {
+          key_hash:
+            "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+          ledger_sequence: 59409400,
+          live_until_ledger_sequence: 61490000,
+          closed_at: new Date("2025-10-10T12:00:00Z"),
+        },
+      ],
+    });
+    try {
+      await getContractSummary(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+    } finally {
+      await global.testPrismaClient.ttl.deleteMany();
+    }
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    expect(mockResponse.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        total_entries: 11,
+        live_entries: 7,
+        expired_entries: 4,
+        min_ttl: 61482902,
+        max_ttl: 61490000,
+      }),
+    );
+  });
+
+  test("🟢default_top_keys_lists_all_9_distinct_symbols", async () => {
+    await getContractSummary(mockRequest as Request, mockResponse as Response);
+
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData.top_key_symbols).toHaveLength(9);
+  });
+
+  test("🟡contract_without_entries_returns_empty_summary", async () => {
+    mockRequest.params = {
+      contract_id: "CA3D5KRYM6CB7OWQ6TWYRR3Z4T7GNZLKERYNZGGA5SOAOPIFY6YQGAXE",
+    };
+
+    await getContractSummary(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData).toMatchObject({
+      total_entries: 0,
+      live_entries: 0,
+      expired_entries: 0,
+      entries_by_durability: { persistent: 0, temporary: 0, instance: 0 },
+      top_key_symbols: [],
+      key_bytes: 0,
+      value_bytes: 0,
+      earliest_updated: null,
+      latest_updated: null,
+      min_ttl: null,
+      max_ttl: null,
+    });
+  });
+
+  test("🟢rent_ledgers_estimates_rent_of_extendable_entries", async () => {
+    mockRequest.query = { rent_ledgers: "100000" };
+
+    await getContractSummary(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(200);
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    // Expired temporary entries are excluded: persistent 4 entries/144 bytes,
+    // instance 2/112 and temporary 2/96 -> 224848 + 135272 + 66731
+    expect(responseData).toMatchObject({
+      rent_ledgers: 100000,
+      rent_fee: 426851,
+    });
+  });
+
+  test("🟢rent_fee_is_omitted_without_rent_ledgers", async () => {
+    getRentSettingsMock.mockClear();
+
+    await getContractSummary(mockRequest as Request, mockResponse as Response);
+
+    const responseData = (mockResponse.json as Mock).mock.calls[0][0];
+    expect(responseData).not.toHaveProperty("rent_fee");
+    expect(getRentSettingsMock).not.toHaveBeenCalled();
+  });
+
+  test("🔴rent_ledgers_above_max_entry_ttl_returns_400", async () => {
+    mockRequest.query = { rent_ledgers: "5000000" };
+
+    await getContractSummary(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error:
+        "Invalid rent_ledgers=5000000, exceeds the network's max entry TTL of 3110400 ledgers",
+    });
+  });
+
+  test("🔴invalid_top_keys_returns_400", async () => {
+    mockRequest.query = { top_keys: "0" };
+
+    await getContractSummary(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error: "Invalid top_keys=0, must be an integer between 1 and 100",
+    });
+  });
+});
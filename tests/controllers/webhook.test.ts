@@ -0,0 +1,390 @@
+import express, { Request, Response } from "express";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { Prisma, PrismaClient } from "../../generated/prisma";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  getWebhookDeliveries,
+} from "../../src/controllers/webhook";
+import webhookRouter from "../../src/routes/webhook";
+import { seedTestData } from "../test-data-seeder";
+
+const { assertPublicWebhookUrlMock } = vi.hoisted(() => ({
+  assertPublicWebhookUrlMock: vi.fn(),
+}));
+
+vi.mock("../../src/helpers/webhook", async importOriginal => ({
+  ...(await importOriginal<typeof import("../../src/helpers/webhook")>()),
+  assertPublicWebhookUrl: assertPublicWebhookUrlMock,
+}));
+
+vi.mock("../../src/types/webhook", async importOriginal => ({
+  ...(await importOriginal<typeof import("../../src/types/webhook")>()),
+  MAX_WEBHOOKS: 12,
+}));
+
+// Global type declaration
+declare global {
+  var testPrismaClient: PrismaClient;
+}
+
+const CONTRACT_ID = "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+const OTHER_CONTRACT_ID =
+  "CAS3J7GYLGXMF6TDJBBYYSE3HQ6BBSMLNUQ34T6TZMYMW2EVH34XOWMA";
+const WEBHOOK_ID = "3f1c2b9e-7c4d-4a53-9a0e-2d6b1f8e5a10";
+const MISSING_WEBHOOK_ID = "00000000-0000-4000-8000-000000000000";
+
+describe("Webhook registrations", () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeAll(async () => {
+    await seedTestData(global.testPrismaClient);
+  });
+
+  afterAll(async () => {
+    await global.testPrismaClient.contract_data.deleteMany();
+  });
+
+  beforeEach(async () => {
+    await global.testPrismaClient.webhook_delivery.deleteMany();
+    await global.testPrismaClient.webhook.deleteMany();
+    await global.testPrismaClient.webhook.createMany({
+      data: [
+        {
+          id: WEBHOOK_ID,
+          contract_id: CONTRACT_ID,
+          key_symbols: [],
+          url: "https://example.com/hook",
+          secret: "whsec-0123456789abcdef",
+          cursor_ledger: 59409400,
+          created_at: new Date("2025-10-09T12:00:00Z"),
+        },
+      ],
+    });
+
+    assertPublicWebhookUrlMock.mockReset().mockResolvedValue(undefined);
+    mockRequest = { params: {}, query: {}, body: {} };
+    mockResponse = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    };
+  });
+
+  describe("POST /api/webhooks", () => {
+    test("🟢registers_after_the_latest_contract_ledger", async () => {
+      mockRequest.body = {
+        contract_id: CONTRACT_ID,
+        url: "https://example.com/other-hook",
+        secret: "whsec-fedcba9876543210",
+        key_symbols: ["SubSecondB", "SubSecondA", "SubSecondB"],
+      };
+
+      await createWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      const body = (mockResponse.json as ReturnType<typeof vi.fn>).mock
+        .calls[0][0];
+      expect(body).toEqual({
+        id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+        contract_id: CONTRACT_ID,
+        key_symbols: ["SubSecondA", "SubSecondB"],
+        url: "https://example.com/other-hook",
+        ledger: 59409310,
+        created: expect.any(Number),
+      });
+      expect(body).not.toHaveProperty("secret");
+    });
+
+    test("🟡contract_without_entries_starts_at_zero", async () => {
+      mockRequest.body = {
+        contract_id: OTHER_CONTRACT_ID,
+        url: "https://example.com/hook",
+        secret: "whsec-0123456789abcdef",
+      };
+
+      await createWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ key_symbols: null, ledger: 0 }),
+      );
+    });
+
+    test("🔴too_many_webhooks_returns_400", async () => {
+      await global.testPrismaClient.webhook.createMany({
+        data: Array.from({ length: 9 }, (_, index) => ({
+          id: `00000000-0000-4000-8000-00000000000${index + 1}`,
+          contract_id: CONTRACT_ID,
+          key_symbols: [],
+          url: "https://example.com/hook",
+          secret: "whsec-0123456789abcdef",
+          cursor_ledger: 59409500,
+        })),
+      });
+      mockRequest.body = {
+        contract_id: CONTRACT_ID,
+        url: "https://example.com/hook",
+        secret: "whsec-0123456789abcdef",
+      };
+
+      await createWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: `Too many webhooks for ${CONTRACT_ID}, at most 10 are allowed per contract`,
+      });
+    });
+
+    test("🔴non_public_url_returns_400", async () => {
+      assertPublicWebhookUrlMock.mockRejectedValueOnce(
+        new Error(
+          "Webhook host internal.example.com resolves to the non-public address 10.0.0.5",
+        ),
+      );
+      mockRequest.body = {
+        contract_id: CONTRACT_ID,
+        url: "https://internal.example.com/hook",
+        secret: "whsec-0123456789abcdef",
+      };
+
+      await createWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(assertPublicWebhookUrlMock).toHaveBeenCalledWith(
+        "https://internal.example.com/hook",
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error:
+          "Webhook host internal.example.com resolves to the non-public address 10.0.0.5",
+      });
+    });
+
+    test("🔴too_many_webhooks_in_total_returns_503", async () => {
+      await global.testPrismaClient.webhook.createMany({
+        data: Array.from({ length: 11 }, (_, index) => ({
+          id: `00000000-0000-4000-8000-0000000000${index + 10}`,
+          contract_id: OTHER_CONTRACT_ID,
+          key_symbols: [],
+          url: "https://example.com/hook",
+          secret: "whsec-0123456789abcdef",
+          cursor_ledger: 0,
+        })),
+      });
+      mockRequest.body = {
+        contract_id: CONTRACT_ID,
+        url: "https://example.com/hook",
+        secret: "whsec-0123456789abcdef",
+      };
+
+      await createWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(503);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: "Too many webhooks, at most 12 can be registered",
+      });
+    });
+  });
+
+  describe("GET /api/webhooks/:webhook_id", () => {
+    test("🟢returns_the_registration", async () => {
+      mockRequest.params = { webhook_id: WEBHOOK_ID };
+
+      await getWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        id: WEBHOOK_ID,
+        contract_id: CONTRACT_ID,
+        key_symbols: null,
+        url: "https://example.com/hook",
+        ledger: 59409400,
+        created: 1760011200,
+      });
+    });
+
+    test("🔴missing_webhook_returns_404", async () => {
+      mockRequest.params = { webhook_id: MISSING_WEBHOOK_ID };
+
+      await getWebhook(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: "Webhook not found",
+      });
+    });
+  });
+
+  describe("DELETE /api/webhooks/:webhook_id", () => {
+    test("🟢deletes_the_webhook", async () => {
+      mockRequest.params = { webhook_id: WEBHOOK_ID };
+
+      await deleteWebhook(mockRequest as Request, mockResponse as Response);
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+
+      await deleteWebhook(mockRequest as Request, mockResponse as Response);
+      expect(mockResponse.status).toHaveBeenLastCalledWith(404);
+    });
+  });
+
+  describe("GET /api/webhooks/:webhook_id/deliveries", () => {
+    beforeEach(async () => {
+      await global.testPrismaClient.webhook_delivery.createMany({
+        data: [
+          {
+            id: "00000000-0000-4000-8000-0000000000a1",
+            webhook_id: WEBHOOK_ID,
+            ledger_sequence: 59409400,
+            entry_count: 1,
+            payload: "{}",
+            status: "succeeded",
+            attempts: 1,
+            next_attempt_at: new Date("2025-10-09T12:00:00Z"),
+            last_attempt_at: new Date("2025-10-09T12:00:01Z"),
+            response_status: 200,
+            created_at: new Date("2025-10-09T12:00:00Z"),
+          },
+          {
+            id: "00000000-0000-4000-8000-0000000000a2",
+            webhook_id: WEBHOOK_ID,
+            ledger_sequence: 59409500,
+            entry_count: 2,
+            payload: "{}",
+            status: "pending",
+            attempts: 1,
+            next_attempt_at: new Date("2025-10-09T12:01:00Z"),
+            last_attempt_at: new Date("2025-10-09T12:00:30Z"),
+            response_status: 503,
+            error: "Receiver answered 503",
+            created_at: new Date("2025-10-09T12:00:30Z"),
+          },
+        ],
+      });
+      mockRequest.params = { webhook_id: WEBHOOK_ID };
+    });
+
+    test("🟢returns_the_newest_deliveries_first", async () => {
+      await getWebhookDeliveries(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        webhook_id: WEBHOOK_ID,
+        deliveries: [
+          {
+            id: "00000000-0000-4000-8000-0000000000a2",
+            ledger: 59409500,
+            entry_count: 2,
+            status: "pending",
+            attempts: 1,
+            response_status: 503,
+            error: "Receiver answered 503",
+            created: 1760011230,
+            last_attempt: 1760011230,
+            next_attempt: 1760011260,
+          },
+          {
+            id: "00000000-0000-4000-8000-0000000000a1",
+            ledger: 59409400,
+            entry_count: 1,
+            status: "succeeded",
+            attempts: 1,
+            response_status: 200,
+            error: null,
+            created: 1760011200,
+            last_attempt: 1760011201,
+            next_attempt: null,
+          },
+        ],
+      });
+    });
+
+    test("🟢filters_by_status_and_limit", async () => {
+      mockRequest.query = { status: "succeeded", limit: "1" };
+
+      await getWebhookDeliveries(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      const { deliveries } = (mockResponse.json as ReturnType<typeof vi.fn>)
+        .mock.calls[0][0];
+      expect(deliveries.map((d: { id: string }) => d.id)).toEqual([
+        "00000000-0000-4000-8000-0000000000a1",
+      ]);
+    });
+
+    test("🔴missing_webhook_returns_404", async () => {
+      mockRequest.params = { webhook_id: MISSING_WEBHOOK_ID };
+
+      await getWebhookDeliveries(
+        mockRequest as Request,
+        mockResponse as Response,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe("API key", () => {
+    const API_KEY = "webhook-api-key";
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+      process.env.WEBHOOK_API_KEYS = API_KEY;
+      const app = express();
+      app.use(express.json());
+      app.use("/api", webhookRouter);
+      server = createServer(app);
+      await new Promise<void>(resolve =>
+        server.listen(0, "127.0.0.1", resolve),
+      );
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    });
+
+    afterAll(async () => {
+      delete process.env.WEBHOOK_API_KEYS;
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    test.each([
+      ["POST", "/webhooks"],
+      ["GET", `/webhooks/${WEBHOOK_ID}`],
+      ["DELETE", `/webhooks/${WEBHOOK_ID}`],
+      ["GET", `/webhooks/${WEBHOOK_ID}/deliveries`],
+    ])("🔴%s_%s_without_a_valid_key_returns_401", async (method, path) => {
+      for (const headers of [
+        {},
+        { Authorization: "Bearer wrong-key" },
+        { Authorization: API_KEY },
+      ]) {
+        const response = await fetch(`${url}${path}`, { method, headers });
+
+        expect(response.status).toBe(401);
+        expect(await response.json()).toEqual({
+          error: "Missing or invalid API key",
+        });
+      }
+      // Nothing was deleted
+      const [{ count }] = await global.testPrismaClient.$queryRaw<
+        { count: number }[]
+      >(Prisma.sql`SELECT COUNT(*)::int AS count FROM webhook`);
+      expect(count).toBe(1);
+    });
+
+    test("🟢valid_key_is_accepted", async () => {
+      const response = await fetch(`${url}/webhooks/${WEBHOOK_ID}`, {
+        headers: { Authorization: `Bearer ${API_KEY}` },
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ id: WEBHOOK_ID });
+    });
+  });
+});
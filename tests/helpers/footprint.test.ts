@@ -0,0 +1,108 @@
+import { xdr } from "@stellar/stellar-sdk";
+import {
+  chunkFootprintEntries,
+  FootprintLimits,
+  parseFootprintLimits,
+} from "../../src/helpers/footprint";
+import configSettingsFixture from "../fixtures/config_settings.json";
+
+const limits: FootprintLimits = {
+  txMaxFootprintEntries: 400,
+  txMaxDiskReadEntries: 100,
+  txMaxDiskReadBytes: 200000,
+  txMaxWriteLedgerEntries: 50,
+  txMaxWriteBytes: 132096,
+};
+
+/** Entries of the given sizes, named by position. */
+const rowsOfSizes = (...sizes: number[]) =>
+  sizes.map((size_bytes, index) => ({ id: index, size_bytes }));
+
+/** Ids of the entries of each chunk. */
+const chunkIds = (chunks: { id: number }[][]) =>
+  chunks.map(chunk => chunk.map(row => row.id));
+
+describe("parseFootprintLimits", () => {
+  // Contract ledger cost, ledger cost ext, state archival and state size window
+  const [ledgerCost, ledgerCostExt, stateArchival, stateSizeWindow] =
+    configSettingsFixture.map(entry =>
+      xdr.ConfigSettingEntry.fromXDR(entry, "base64"),
+    );
+
+  test("🟢reads_footprint_limits", () => {
+    expect(
+      parseFootprintLimits([
+        stateSizeWindow,
+        stateArchival,
+        ledgerCostExt,
+        ledgerCost,
+      ]),
+    ).toEqual(limits);
+  });
+
+  test("🔴missing_setting_throws", () => {
+    expect(() => parseFootprintLimits([ledgerCost, stateArchival])).toThrow(
+      "Missing config setting configSettingContractLedgerCostExtV0",
+    );
+  });
+});
+
+describe("chunkFootprintEntries", () => {
+  test("🟢entries_within_limits_share_one_chunk", () => {
+    expect(
+      chunkIds(chunkFootprintEntries(rowsOfSizes(10, 20, 30), limits)),
+    ).toEqual([[0, 1, 2]]);
+  });
+
+  test("🟢splits_on_smallest_entry_limit", () => {
+    const rows = rowsOfSizes(...Array<number>(250).fill(10));
+    const chunks = chunkFootprintEntries(rows, limits);
+    expect(chunks.map(chunk => chunk.length)).toEqual([100, 100, 50]);
+    expect(chunks.flat()).toEqual(rows);
+  });
+
+  test("🟢splits_on_read_bytes_including_entry_overhead", () => {
+    // 44 + 56 = 100 bytes per entry
+    expect(
+      chunkIds(
+        chunkFootprintEntries(rowsOfSizes(44, 44, 44, 44, 44), {
+          ...limits,
+          txMaxDiskReadBytes: 200,
+        }),
+      ),
+    ).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  test("🟢read_write_chunks_split_on_write_limits", () => {
+    const rows = rowsOfSizes(...Array<number>(120).fill(10));
+    expect(
+      chunkFootprintEntries(rows, limits, true).map(chunk => chunk.length),
+    ).toEqual([50, 50, 20]);
+
+    // 44 + 56 = 100 bytes per entry
+    expect(
+      chunkIds(
+        chunkFootprintEntries(
+          rowsOfSizes(44, 44, 44),
+          { ...limits, txMaxWriteBytes: 200 },
+          true,
+        ),
+      ),
+    ).toEqual([[0, 1], [2]]);
+  });
+
+  test("🟡oversized_entry_gets_its_own_chunk", () => {
+    expect(
+      chunkIds(
+        chunkFootprintEntries(rowsOfSizes(10, 500, 10), {
+          ...limits,
+          txMaxDiskReadBytes: 200,
+        }),
+      ),
+    ).toEqual([[0], [1], [2]]);
+  });
+
+  test("🟡no_entries_produce_no_chunks", () => {
+    expect(chunkFootprintEntries([], limits)).toEqual([]);
+  });
+});
@@ -0,0 +1,29 @@
+import { xdr } from "@stellar/stellar-sdk";
+import { computeContractDataKeyHash } from "../../src/helpers/ledger_key";
+
+const CONTRACT_ID = "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+const KEY = xdr.ScVal.fromXDR(
+  "AAAAEAAAAAEAAAACAAAADwAAABRCaWxsaW5nQ3ljbGVQbGFuTmFtZQAAAAMAAAAD",
+  "base64",
+);
+
+describe("computeContractDataKeyHash", () => {
+  test("matches the indexer's key_hash for a persistent entry", () => {
+    expect(computeContractDataKeyHash(CONTRACT_ID, KEY, "persistent")).toBe(
+      "058926d9c30491bf70498e4df7102e02c736fe2890e2465f9810eede1b42e6c6",
+    );
+  });
+
+  test("durability is part of the hash", () => {
+    expect(computeContractDataKeyHash(CONTRACT_ID, KEY, "temporary")).not.toBe(
+      computeContractDataKeyHash(CONTRACT_ID, KEY, "persistent"),
+    );
+  });
+
+  test("instance entries hash as persistent", () => {
+    const instanceKey = xdr.ScVal.scvLedgerKeyContractInstance();
+    expect(
+      computeContractDataKeyHash(CONTRACT_ID, instanceKey, "instance"),
+    ).toBe(computeContractDataKeyHash(CONTRACT_ID, instanceKey, "persistent"));
+  });
+});
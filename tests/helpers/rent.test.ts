@@ -0,0 +1,148 @@
+import { xdr } from "@stellar/stellar-sdk";
+import {
+  assertRentLedgersWithinMaxTtl,
+  computeRentFeePer1Kb,
+  estimateRentFee,
+  parseRentLedgersParam,
+  parseRentSettings,
+  RentSettings,
+} from "../../src/helpers/rent";
+import configSettingsFixture from "../fixtures/config_settings.json";
+import rentSettingsFixture from "../fixtures/rent_settings.json";
+
+const settings: RentSettings = rentSettingsFixture;
+
+describe("computeRentFeePer1Kb", () => {
+  test("🟢below_target_interpolates_between_low_and_high", () => {
+    // ceil(27000 * 2.8GB / 3GB) - 17000
+    expect(computeRentFeePer1Kb(settings)).toBe(8200n);
+  });
+
+  test("🟢above_target_grows_by_growth_factor", () => {
+    expect(
+      computeRentFeePer1Kb({
+        ...settings,
+        sorobanStateSizeBytes: 3_300_000_000,
+      }),
+    ).toBe(10000n + 2_700_000n);
+  });
+
+  test("🟡never_below_minimum_rate", () => {
+    expect(
+      computeRentFeePer1Kb({ ...settings, sorobanStateSizeBytes: 0 }),
+    ).toBe(1000n);
+  });
+});
+
+describe("estimateRentFee", () => {
+  test("🟢persistent_entry_pays_rent_and_ttl_write", () => {
+    // ceil((100 + 56) * 8200 * 100000 / (1024 * 1402)) + 3500 + ceil(3500 * 48 / 1024)
+    expect(
+      estimateRentFee(settings, {
+        durability: "persistent",
+        entries: 1,
+        sizeBytes: 100,
+        ledgers: 100_000,
+      }),
+    ).toBe(92768);
+  });
+
+  test("🟢temporary_entry_uses_temporary_rent_rate", () => {
+    expect(
+      estimateRentFee(settings, {
+        durability: "temporary",
+        entries: 1,
+        sizeBytes: 100,
+        ledgers: 100_000,
+      }),
+    ).toBe(48217);
+  });
+
+  test("🟢instance_entry_pays_persistent_rent", () => {
+    const params = { entries: 1, sizeBytes: 100, ledgers: 100_000 };
+    expect(
+      estimateRentFee(settings, { ...params, durability: "instance" }),
+    ).toBe(estimateRentFee(settings, { ...params, durability: "persistent" }));
+  });
+
+  test("🟢several_entries_sum_sizes_before_rounding", () => {
+    expect(
+      estimateRentFee(settings, {
+        durability: "persistent",
+        entries: 3,
+        sizeBytes: 1000,
+        ledgers: 535_680,
+      }),
+    ).toBe(3584661);
+  });
+
+  test("🟡no_entries_cost_nothing", () => {
+    expect(
+      estimateRentFee(settings, {
+        durability: "persistent",
+        entries: 0,
+        sizeBytes: 0,
+        ledgers: 100_000,
+      }),
+    ).toBe(0);
+  });
+});
+
+describe("parseRentSettings", () => {
+  // Contract ledger cost, ledger cost ext, state archival and state size window
+  const [ledgerCost, ledgerCostExt, stateArchival, stateSizeWindow] =
+    configSettingsFixture.map(entry =>
+      xdr.ConfigSettingEntry.fromXDR(entry, "base64"),
+    );
+
+  test("🟢reads_settings_and_averages_state_size_window", () => {
+    expect(
+      parseRentSettings([
+        stateSizeWindow,
+        stateArchival,
+        ledgerCostExt,
+        ledgerCost,
+      ]),
+    ).toEqual(settings);
+  });
+
+  test("🔴missing_setting_throws", () => {
+    expect(() =>
+      parseRentSettings([ledgerCost, ledgerCostExt, stateArchival]),
+    ).toThrow("Missing config setting configSettingLiveSorobanStateSizeWindow");
+  });
+});
+
+describe("parseRentLedgersParam", () => {
+  test("🟢parses_integer_ledgers", () => {
+    expect(parseRentLedgersParam("535680")).toBe(535680);
+    expect(parseRentLedgersParam(17280)).toBe(17280);
+  });
+
+  test("🟢missing_value_returns_undefined", () => {
+    expect(parseRentLedgersParam(undefined)).toBeUndefined();
+    expect(parseRentLedgersParam("")).toBeUndefined();
+  });
+
+  test("🔴rejects_non_positive_and_fractional_values", () => {
+    for (const value of ["0", "-1", "1.5", "abc", "10000001"]) {
+      expect(() => parseRentLedgersParam(value)).toThrow(
+        `Invalid rent_ledgers=${value}, must be an integer between 1 and 10000000`,
+      );
+    }
+  });
+});
+
+describe("assertRentLedgersWithinMaxTtl", () => {
+  test("🟢accepts_extension_up_to_max_entry_ttl", () => {
+    expect(() =>
+      assertRentLedgersWithinMaxTtl(settings, settings.maxEntryTtl),
+    ).not.toThrow();
+  });
+
+  test("🔴rejects_extension_beyond_max_entry_ttl", () => {
+    expect(() => assertRentLedgersWithinMaxTtl(settings, 3110401)).toThrow(
+      "Invalid rent_ledgers=3110401, exceeds the network's max entry TTL of 3110400 ledgers",
+    );
+  });
+});
@@ -0,0 +1,250 @@
+import { Address, xdr } from "@stellar/stellar-sdk";
+import {
+  decodeScValXdr,
+  jsonToScVal,
+  parseScValInput,
+  parseScValText,
+  scValContainsText,
+  scValJsonSchema,
+  scValKeyArgs,
+  scValToJson,
+} from "../../src/helpers/scval";
+
+const ACCOUNT = "GB7FBBPRBZBC7Q47J5BLJTN5W7YNMMVI5FWPQO3QN5EYNUDBXYCC6OJF";
+
+describe("decodeScValXdr", () => {
+  test("decodes a vec key with symbol and address", () => {
+    const decoded = decodeScValXdr(
+      "AAAAEAAAAAEAAAACAAAADwAAAAdCYWxhbmNlAAAAABIAAAAAAAAAAH5QhfEOQi/Dn09CtM29t/DWMqjpbPg7cG9JhtBhvgQv",
+    );
+
+    expect(decoded).toEqual({
+      type: "vec",
+      value: [
+        { type: "symbol", value: "Balance" },
+        { type: "address", value: ACCOUNT },
+      ],
+    });
+  });
+
+  test("decodes i128 as a decimal string without losing precision", () => {
+    expect(decodeScValXdr("AAAACoAAAAAAAAAAAAAAAAAAAAA=")).toEqual({
+      type: "i128",
+      value: "-170141183460469231731687303715884105728",
+    });
+  });
+
+  test("decodes nested maps as key/value entries", () => {
+    const decoded = decodeScValXdr(
+      "AAAAEQAAAAEAAAACAAAADwAAAAFhAAAAAAAAAwAAAAEAAAAPAAAAAWIAAAAAAAAOAAAAAXgAAAA=",
+    );
+
+    expect(decoded).toEqual({
+      type: "map",
+      value: [
+        {
+          key: { type: "symbol", value: "a" },
+          value: { type: "u32", value: 1 },
+        },
+        {
+          key: { type: "symbol", value: "b" },
+          value: { type: "string", value: "x" },
+        },
+      ],
+    });
+  });
+
+  test("decodes bytes as hex", () => {
+    expect(decodeScValXdr("AAAADQAAAALerQAA")).toEqual({
+      type: "bytes",
+      value: "dead",
+    });
+  });
+
+  test("throws on invalid xdr", () => {
+    expect(() => decodeScValXdr("not-xdr")).toThrow();
+  });
+});
+
+describe("scValToJson", () => {
+  test("decodes contract instance with wasm executable", () => {
+    const wasmHash = Buffer.alloc(32, 0xab);
+    const instance = xdr.ScVal.scvContractInstance(
+      new xdr.ScContractInstance({
+        executable: xdr.ContractExecutable.contractExecutableWasm(wasmHash),
+        storage: [
+          new xdr.ScMapEntry({
+            key: xdr.ScVal.scvSymbol("Admin"),
+            val: new Address(ACCOUNT).toScVal(),
+          }),
+        ],
+      }),
+    );
+
+    expect(scValToJson(instance)).toEqual({
+      type: "contract_instance",
+      value: {
+        executable: { type: "wasm", wasm_hash: wasmHash.toString("hex") },
+        storage: [
+          {
+            key: { type: "symbol", value: "Admin" },
+            value: { type: "address", value: ACCOUNT },
+          },
+        ],
+      },
+    });
+  });
+
+  test("decodes void and bool", () => {
+    expect(scValToJson(xdr.ScVal.scvVoid())).toEqual({
+      type: "void",
+      value: null,
+    });
+    expect(scValToJson(xdr.ScVal.scvBool(true))).toEqual({
+      type: "bool",
+      value: true,
+    });
+  });
+});
+
+describe("jsonToScVal", () => {
+  test.each([
+    "AAAAEAAAAAEAAAACAAAADwAAAAdCYWxhbmNlAAAAABIAAAAAAAAAAH5QhfEOQi/Dn09CtM29t/DWMqjpbPg7cG9JhtBhvgQv",
+    "AAAACoAAAAAAAAAAAAAAAAAAAAA=",
+    "AAAAEQAAAAEAAAACAAAADwAAAAFhAAAAAAAAAwAAAAEAAAAPAAAAAWIAAAAAAAAOAAAAAXgAAAA=",
+    "AAAADQAAAALerQAA",
+  ])("round-trips %s through typed json", base64Xdr => {
+    expect(jsonToScVal(decodeScValXdr(base64Xdr)).toXDR("base64")).toBe(
+      base64Xdr,
+    );
+  });
+});
+
+describe("parseScValInput", () => {
+  test("accepts base64 xdr and typed json", () => {
+    const json = { type: "symbol" as const, value: "Admin" };
+    expect(parseScValInput(json).toXDR("base64")).toBe(
+      xdr.ScVal.scvSymbol("Admin").toXDR("base64"),
+    );
+    expect(
+      parseScValInput(xdr.ScVal.scvSymbol("Admin").toXDR("base64")).sym(),
+    ).toEqual(Buffer.from("Admin"));
+  });
+});
+
+describe("scValJsonSchema", () => {
+  test("accepts nested typed json", () => {
+    const result = scValJsonSchema.safeParse({
+      type: "vec",
+      value: [
+        { type: "symbol", value: "Balance" },
+        { type: "address", value: ACCOUNT },
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  test("rejects unknown types and non-integer strings", () => {
+    expect(scValJsonSchema.safeParse({ type: "float", value: 1 }).success).toBe(
+      false,
+    );
+    expect(
+      scValJsonSchema.safeParse({ type: "i128", value: "1.5" }).success,
+    ).toBe(false);
+  });
+});
+
+describe("scValContainsText", () => {
+  const balanceKey = decodeScValXdr(
+    "AAAAEAAAAAEAAAACAAAADwAAAAdCYWxhbmNlAAAAABIAAAAAAAAAAH5QhfEOQi/Dn09CtM29t/DWMqjpbPg7cG9JhtBhvgQv",
+  );
+
+  test("matches addresses and symbols nested in a vec", () => {
+    expect(scValContainsText(balanceKey, ACCOUNT.slice(10, 20))).toBe(true);
+    expect(scValContainsText(balanceKey, "lance")).toBe(true);
+    expect(scValContainsText(balanceKey, "balance")).toBe(false);
+  });
+
+  test("matches integers by their decimal representation", () => {
+    expect(scValContainsText({ type: "u32", value: 1234 }, "23")).toBe(true);
+    expect(
+      scValContainsText(
+        { type: "i128", value: "-170141183460469231731687303715884105728" },
+        "4692317",
+      ),
+    ).toBe(true);
+  });
+
+  test("searches map keys and values but not bytes", () => {
+    const map = decodeScValXdr(
+      "AAAAEQAAAAEAAAACAAAADwAAAAFhAAAAAAAAAwAAAAEAAAAPAAAAAWIAAAAAAAAOAAAAAXgAAAA=",
+    );
+    expect(scValContainsText(map, "x")).toBe(true);
+    expect(scValContainsText(map, "b")).toBe(true);
+    expect(scValContainsText({ type: "bytes", value: "dead" }, "dead")).toBe(
+      false,
+    );
+  });
+});
+
+describe("scValKeyArgs", () => {
+  test("returns the components after the leading symbol", () => {
+    const balanceKey = decodeScValXdr(
+      "AAAAEAAAAAEAAAACAAAADwAAAAdCYWxhbmNlAAAAABIAAAAAAAAAAH5QhfEOQi/Dn09CtM29t/DWMqjpbPg7cG9JhtBhvgQv",
+    );
+    expect(scValKeyArgs(balanceKey)).toEqual([
+      { type: "address", value: ACCOUNT },
+    ]);
+    expect(scValKeyArgs({ type: "symbol", value: "Admin" })).toEqual([]);
+  });
+
+  test("returns null for keys that don't start with a symbol", () => {
+    expect(scValKeyArgs({ type: "u32", value: 7 })).toBeNull();
+    expect(
+      scValKeyArgs({ type: "vec", value: [{ type: "u32", value: 7 }] }),
+    ).toBeNull();
+  });
+});
+
+describe("parseScValText", () => {
+  test("reads bare values as addresses or symbols", () => {
+    expect(parseScValText(ACCOUNT).toXDR("base64")).toBe(
+      Address.fromString(ACCOUNT).toScVal().toXDR("base64"),
+    );
+    expect(parseScValText("Balance").toXDR("base64")).toBe(
+      xdr.ScVal.scvSymbol("Balance").toXDR("base64"),
+    );
+  });
+
+  test.each([
+    ["u32:5", xdr.ScVal.scvU32(5)],
+    ["i32:-5", xdr.ScVal.scvI32(-5)],
+    ["bool:true", xdr.ScVal.scvBool(true)],
+    ["string:a:b", xdr.ScVal.scvString("a:b")],
+    ["bytes:dead", xdr.ScVal.scvBytes(Buffer.from("dead", "hex"))],
+  ])("parses typed text %s", (text, expected) => {
+    expect(parseScValText(text).toXDR("base64")).toBe(expected.toXDR("base64"));
+  });
+
+  test("parses large integers losslessly", () => {
+    expect(
+      scValToJson(
+        parseScValText("i128:-170141183460469231731687303715884105728"),
+      ),
+    ).toEqual({
+      type: "i128",
+      value: "-170141183460469231731687303715884105728",
+    });
+  });
+
+  test.each([
+    "u32:-1",
+    "i32:2147483648",
+    "u64:abc",
+    "bool:yes",
+    "vec:1",
+    "not a symbol",
+  ])("rejects %s", text => {
+    expect(() => parseScValText(text)).toThrow();
+  });
+});
@@ -0,0 +1,123 @@
+import { Address, nativeToScVal, xdr } from "@stellar/stellar-sdk";
+import {
+  parseSnapshotTtlSettings,
+  scValToSnapshotJson,
+} from "../../src/helpers/snapshot";
+import configSettingsFixture from "../fixtures/config_settings.json";
+
+const ACCOUNT = "GB7FBBPRBZBC7Q47J5BLJTN5W7YNMMVI5FWPQO3QN5EYNUDBXYCC6OJF";
+const WASM_HASH =
+  "7c7a3a3b7c1a0f7b3a3b7c1a0f7b3a3b7c1a0f7b3a3b7c1a0f7b3a3b7c1a0f7b";
+
+describe("parseSnapshotTtlSettings", () => {
+  const entries = configSettingsFixture.map(entry =>
+    xdr.ConfigSettingEntry.fromXDR(entry, "base64"),
+  );
+
+  test("reads the state archival ttls", () => {
+    expect(parseSnapshotTtlSettings(entries)).toEqual({
+      minPersistentEntryTtl: 2073600,
+      minTempEntryTtl: 17280,
+      maxEntryTtl: 3110400,
+    });
+  });
+
+  test("throws when the state archival setting is missing", () => {
+    expect(() => parseSnapshotTtlSettings([entries[0]])).toThrow(
+      "Missing config setting configSettingStateArchival",
+    );
+  });
+});
+
+describe("scValToSnapshotJson", () => {
+  test("tags scalars with their snake_case type", () => {
+    expect(scValToSnapshotJson(xdr.ScVal.scvVoid())).toBe("void");
+    expect(scValToSnapshotJson(xdr.ScVal.scvBool(true))).toEqual({
+      bool: true,
+    });
+    expect(scValToSnapshotJson(xdr.ScVal.scvU32(7))).toEqual({ u32: 7 });
+    expect(scValToSnapshotJson(xdr.ScVal.scvSymbol("Balance"))).toEqual({
+      symbol: "Balance",
+    });
+    expect(
+      scValToSnapshotJson(xdr.ScVal.scvBytes(Buffer.from("0a0b", "hex"))),
+    ).toEqual({ bytes: "0a0b" });
+  });
+
+  test("writes 64-bit and larger integers as decimal strings", () => {
+    expect(
+      scValToSnapshotJson(
+        nativeToScVal(18446744073709551615n, { type: "u64" }),
+      ),
+    ).toEqual({ u64: "18446744073709551615" });
+    expect(
+      scValToSnapshotJson(
+        nativeToScVal(-170141183460469231731687303715884105728n, {
+          type: "i128",
+        }),
+      ),
+    ).toEqual({ i128: "-170141183460469231731687303715884105728" });
+  });
+
+  test("writes vec keys and maps recursively", () => {
+    const key = xdr.ScVal.scvVec([
+      xdr.ScVal.scvSymbol("Balance"),
+      Address.fromString(ACCOUNT).toScVal(),
+    ]);
+    expect(scValToSnapshotJson(key)).toEqual({
+      vec: [{ symbol: "Balance" }, { address: ACCOUNT }],
+    });
+    expect(
+      scValToSnapshotJson(
+        xdr.ScVal.scvMap([
+          new xdr.ScMapEntry({
+            key: xdr.ScVal.scvSymbol("a"),
+            val: xdr.ScVal.scvI32(-1),
+          }),
+        ]),
+      ),
+    ).toEqual({ map: [{ key: { symbol: "a" }, val: { i32: -1 } }] });
+  });
+
+  test("writes contract instances with their executable", () => {
+    const instance = (executable: xdr.ContractExecutable) =>
+      xdr.ScVal.scvContractInstance(
+        new xdr.ScContractInstance({ executable, storage: null }),
+      );
+
+    expect(
+      scValToSnapshotJson(
+        instance(
+          xdr.ContractExecutable.contractExecutableWasm(
+            Buffer.from(WASM_HASH, "hex"),
+          ),
+        ),
+      ),
+    ).toEqual({
+      contract_instance: { executable: { wasm: WASM_HASH }, storage: null },
+    });
+    expect(
+      scValToSnapshotJson(
+        instance(xdr.ContractExecutable.contractExecutableStellarAsset()),
+      ),
+    ).toEqual({
+      contract_instance: { executable: "stellar_asset", storage: null },
+    });
+    expect(scValToSnapshotJson(xdr.ScVal.scvLedgerKeyContractInstance())).toBe(
+      "ledger_key_contract_instance",
+    );
+  });
+
+  test("writes errors as their snake_case type and code", () => {
+    expect(
+      scValToSnapshotJson(xdr.ScVal.scvError(xdr.ScError.sceContract(12))),
+    ).toEqual({ error: { contract: 12 } });
+    expect(
+      scValToSnapshotJson(
+        xdr.ScVal.scvError(
+          xdr.ScError.sceWasmVm(xdr.ScErrorCode.scecArithDomain()),
+        ),
+      ),
+    ).toEqual({ error: { wasm_vm: "arith_domain" } });
+  });
+});
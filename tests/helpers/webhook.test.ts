@@ -0,0 +1,99 @@
+import {
+  assertPublicWebhookUrl,
+  isWebhookApiKey,
+  signWebhookPayload,
+  webhookRetryDelayMs,
+} from "../../src/helpers/webhook";
+
+describe("signWebhookPayload", () => {
+  test("🟢signs_timestamp_and_body", () => {
+    expect(
+      signWebhookPayload(
+        "whsec-0123456789abcdef",
+        1760000000,
+        '{"ledger":59409400}',
+      ),
+    ).toBe(
+      "sha256=536ba64354c4a97d5a931fca4a4532adcd5f740cf1282b2c05393ff07346dba0",
+    );
+  });
+
+  test("🟡signature_depends_on_timestamp", () => {
+    const body = '{"ledger":59409400}';
+    expect(
+      signWebhookPayload("whsec-0123456789abcdef", 1760000001, body),
+    ).not.toBe(signWebhookPayload("whsec-0123456789abcdef", 1760000000, body));
+  });
+});
+
+describe("webhookRetryDelayMs", () => {
+  test("🟢doubles_with_every_attempt", () => {
+    expect([1, 2, 3, 4].map(n => webhookRetryDelayMs(n, 30_000))).toEqual([
+      30_000, 60_000, 120_000, 240_000,
+    ]);
+  });
+
+  test("🟡is_capped_at_one_hour", () => {
+    expect(webhookRetryDelayMs(20, 30_000)).toBe(3_600_000);
+  });
+});
+
+describe("assertPublicWebhookUrl", () => {
+  test("🟢accepts_public_addresses", async () => {
+    await expect(
+      assertPublicWebhookUrl("https://93.184.215.14/hook"),
+    ).resolves.toEqual([{ address: "93.184.215.14", family: 4 }]);
+    await expect(
+      assertPublicWebhookUrl(
+        "https://[2606:2800:21f:cb07:6820:80da:af6b:8b2c]/",
+      ),
+    ).resolves.toEqual([
+      { address: "2606:2800:21f:cb07:6820:80da:af6b:8b2c", family: 6 },
+    ]);
+  });
+
+  test("🔴rejects_private_loopback_and_link_local_addresses", async () => {
+    for (const url of [
+      "http://127.0.0.1:8080/hook",
+      "http://10.0.0.5/hook",
+      "http://172.16.3.4/hook",
+      "http://192.168.1.1/hook",
+      "http://169.254.169.254/latest/meta-data",
+      "http://0.0.0.0/hook",
+      "http://[::1]/hook",
+      "http://[fd00::1]/hook",
+      "http://[fe80::1]/hook",
+      "http://[::ffff:127.0.0.1]/hook",
+      "http://2130706433/hook",
+    ]) {
+      await expect(assertPublicWebhookUrl(url)).rejects.toThrow(
+        /resolves to the non-public address/,
+      );
+    }
+  });
+
+  test("🔴rejects_hosts_resolving_to_loopback", async () => {
+    await expect(
+      assertPublicWebhookUrl("http://localhost:3000/hook"),
+    ).rejects.toThrow(
+      /^Webhook host localhost resolves to the non-public address/,
+    );
+  });
+
+  test("🔴rejects_unresolvable_hosts", async () => {
+    await expect(
+      assertPublicWebhookUrl("https://webhook.invalid/hook"),
+    ).rejects.toThrow("Webhook host webhook.invalid could not be resolved");
+  });
+});
+
+describe("isWebhookApiKey", () => {
+  test("🟢accepts_a_configured_key", () => {
+    expect(isWebhookApiKey("key-b", ["key-a", "key-b"])).toBe(true);
+  });
+
+  test("🔴rejects_other_keys", () => {
+    expect(isWebhookApiKey("key-c", ["key-a", "key-b"])).toBe(false);
+    expect(isWebhookApiKey("key-a", [])).toBe(false);
+  });
+});
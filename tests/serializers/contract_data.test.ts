@@ -1,5 +1,16 @@
-import { serializeContractDataResults } from "../../src/serializers/contract_data";
-import { ContractData } from "../../src/types/contract_data";
+import {
+  contractDataCsvColumns,
+  formatContractDataExport,
+  formatCsvRow,
+  projectContractDataResults,
+  serializeContractDataResults,
+} from "../../src/serializers/contract_data";
+import {
+  ContractData,
+  DecodeFormat,
+  ExportFormat,
+} from "../../src/types/contract_data";
+import rentSettingsFixture from "../fixtures/rent_settings.json";
 
 describe("serializeContractDataResults", () => {
   test("key and value fields return the xdr string stored in the db", () => {
@@ -8,11 +19,16 @@ describe("serializeContractDataResults", () => {
     const storedBytes = Buffer.from(xdrBase64, "utf8");
 
     const row: ContractData = {
+      contract_id: "CABC",
       durability: "persistent",
       key_hash: "abc123",
+      key_symbol: null,
       key: storedBytes,
       val: storedBytes,
       closed_at: new Date("2025-01-01T00:00:00Z"),
+      ledger_sequence: 90,
+      last_modified_ledger: 90,
+      size_bytes: 0,
       live_until_ledger_sequence: 100,
       expired: false,
     };
@@ -25,11 +41,16 @@ describe("serializeContractDataResults", () => {
 
   test("null key and value remain null", () => {
     const row: ContractData = {
+      contract_id: "CABC",
       durability: "persistent",
       key_hash: "abc123",
+      key_symbol: null,
       key: null,
       val: null,
       closed_at: new Date("2025-01-01T00:00:00Z"),
+      ledger_sequence: 90,
+      last_modified_ledger: 90,
+      size_bytes: 0,
       live_until_ledger_sequence: 100,
       expired: false,
     };
@@ -39,4 +60,220 @@ describe("serializeContractDataResults", () => {
     expect(result.key).toBeNull();
     expect(result.value).toBeNull();
   });
+
+  test("row identity and ledger fields are passed through", () => {
+    const row: ContractData = {
+      contract_id: "CABC",
+      durability: "persistent",
+      key_hash: "abc123",
+      key_symbol: "Balance",
+      key: null,
+      val: null,
+      closed_at: new Date("2025-01-01T00:00:00Z"),
+      ledger_sequence: 90,
+      last_modified_ledger: 95,
+      size_bytes: 0,
+      live_until_ledger_sequence: 100,
+      expired: false,
+    };
+
+    const [result] = serializeContractDataResults([row]);
+
+    expect(result).toMatchObject({
+      contract_id: "CABC",
+      key_symbol: "Balance",
+      ledger_sequence: 90,
+      last_modified_ledger: 95,
+    });
+  });
+
+  describe("rent", () => {
+    const row: ContractData = {
+      contract_id: "CABC",
+      durability: "persistent",
+      key_hash: "abc123",
+      key_symbol: "Balance",
+      key: null,
+      val: null,
+      closed_at: new Date("2025-01-01T00:00:00Z"),
+      ledger_sequence: 90,
+      last_modified_ledger: 90,
+      size_bytes: 100,
+      live_until_ledger_sequence: 100,
+      expired: false,
+    };
+    const rent = { settings: rentSettingsFixture, ledgers: 100_000 };
+
+    test("rent_fee is omitted by default", () => {
+      const [result] = serializeContractDataResults([row]);
+
+      expect(result.size_bytes).toBe(100);
+      expect(result).not.toHaveProperty("rent_fee");
+    });
+
+    test("rent_fee estimates the extension of each entry", () => {
+      const [persistent, temporary] = serializeContractDataResults(
+        [row, { ...row, durability: "temporary" }],
+        { rent },
+      );
+
+      expect(persistent.rent_fee).toBe(92768);
+      expect(temporary.rent_fee).toBe(48217);
+    });
+
+    test("expired temporary entries have no rent_fee", () => {
+      const [expiredPersistent, expiredTemporary] =
+        serializeContractDataResults(
+          [
+            { ...row, expired: true },
+            { ...row, durability: "temporary", expired: true },
+          ],
+          { rent },
+        );
+
+      expect(expiredPersistent.rent_fee).toBe(92768);
+      expect(expiredTemporary.rent_fee).toBeNull();
+    });
+  });
+
+  describe("decode=json", () => {
+    const row: ContractData = {
+      contract_id: "CABC",
+      durability: "persistent",
+      key_hash: "abc123",
+      key_symbol: null,
+      key: Buffer.from(
+        "AAAAEAAAAAEAAAACAAAADwAAABRCaWxsaW5nQ3ljbGVQbGFuTmFtZQAAAAMAAAAD",
+        "utf8",
+      ),
+      val: Buffer.from("AAAADwAAAAZpbnZpdGUAAA==", "utf8"),
+      closed_at: new Date("2025-01-01T00:00:00Z"),
+      ledger_sequence: 90,
+      last_modified_ledger: 90,
+      size_bytes: 0,
+      live_until_ledger_sequence: 100,
+      expired: false,
+    };
+
+    test("decoded fields are omitted by default", () => {
+      const [result] = serializeContractDataResults([row]);
+
+      expect(result).not.toHaveProperty("key_decoded");
+      expect(result).not.toHaveProperty("value_decoded");
+      expect(result).not.toHaveProperty("decode_error");
+    });
+
+    test("key and value are decoded into typed json", () => {
+      const [result] = serializeContractDataResults([row], {
+        decode: DecodeFormat.JSON,
+      });
+
+      expect(result.key_decoded).toEqual({
+        type: "vec",
+        value: [
+          { type: "symbol", value: "BillingCyclePlanName" },
+          { type: "u32", value: 3 },
+        ],
+      });
+      expect(result.value_decoded).toEqual({
+        type: "symbol",
+        value: "invite",
+      });
+      expect(result.decode_error).toBeNull();
+    });
+
+    test("undecodable value sets a per-row decode_error", () => {
+      const [broken, ok] = serializeContractDataResults(
+        [{ ...row, val: Buffer.from("not-xdr", "utf8") }, row],
+        { decode: DecodeFormat.JSON },
+      );
+
+      expect(broken.key_decoded).not.toBeNull();
+      expect(broken.value_decoded).toBeNull();
+      expect(broken.decode_error).toContain("Failed to decode value");
+      expect(broken.value).toBe("not-xdr");
+      expect(ok.decode_error).toBeNull();
+    });
+  });
+});
+
+describe("projectContractDataResults", () => {
+  const row: ContractData = {
+    durability: "persistent",
+    key_hash: "abc123",
+    key: Buffer.from("AAAADwAAAAVBZG1pbgAAAA==", "utf8"),
+    val: Buffer.from("AAAAAwAAAAE=", "utf8"),
+    closed_at: new Date("2025-01-01T00:00:00Z"),
+    live_until_ledger_sequence: 100,
+    expired: false,
+  };
+
+  test("keeps only the selected fields and key_hash", () => {
+    const [result] = projectContractDataResults(
+      serializeContractDataResults([row]),
+      ["ttl"],
+    );
+
+    expect(result).toEqual({ key_hash: "abc123", ttl: 100 });
+  });
+
+  test("keeps decoded fields together with their source field", () => {
+    const [result] = projectContractDataResults(
+      serializeContractDataResults([row], { decode: DecodeFormat.JSON }),
+      ["key", "key_hash"],
+    );
+
+    expect(Object.keys(result).sort()).toEqual([
+      "decode_error",
+      "key",
+      "key_decoded",
+      "key_hash",
+    ]);
+    expect(result.key_decoded).toEqual({ type: "symbol", value: "Admin" });
+  });
+});
+
+describe("export formatting", () => {
+  const row: ContractData = {
+    durability: "persistent",
+    key_hash: "abc123",
+    key_symbol: "Admin",
+    key: Buffer.from("AAAADwAAAAVBZG1pbgAAAA==", "utf8"),
+    val: Buffer.from("AAAAAwAAAAE=", "utf8"),
+    closed_at: new Date("2025-01-01T00:00:00Z"),
+    live_until_ledger_sequence: 100,
+    expired: false,
+  };
+
+  test("quotes csv cells with separators, quotes and line breaks", () => {
+    expect(formatCsvRow(["plain", 'say "hi"', "a,b", "line\nbreak"])).toBe(
+      'plain,"say ""hi""","a,b","line\nbreak"\r\n',
+    );
+  });
+
+  test("writes null as an empty csv cell and json-encodes objects", () => {
+    expect(formatCsvRow([null, 42, false, [{ type: "u32", value: 5 }]])).toBe(
+      ',42,false,"[{""type"":""u32"",""value"":5}]"\r\n',
+    );
+  });
+
+  test("csv columns follow rent, decode and field options", () => {
+    expect(contractDataCsvColumns({})).not.toContain("rent_fee");
+    expect(contractDataCsvColumns({})).not.toContain("key_decoded");
+    expect(
+      contractDataCsvColumns({ decode: DecodeFormat.JSON }, ["key", "ttl"]),
+    ).toEqual(["key_hash", "key", "ttl", "key_decoded", "decode_error"]);
+  });
+
+  test("formats one line per entry", () => {
+    const dtos = serializeContractDataResults([row, row]);
+
+    const ndjson = formatContractDataExport(dtos, ExportFormat.NDJSON, []);
+    expect(ndjson.split("\n")).toHaveLength(3);
+    expect(JSON.parse(ndjson.split("\n")[0])).toEqual(dtos[0]);
+
+    expect(
+      formatContractDataExport(dtos, ExportFormat.CSV, ["key_symbol", "ttl"]),
+    ).toBe("Admin,100\r\nAdmin,100\r\n");
+  });
 });
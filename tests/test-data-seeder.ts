@@ -180,6 +180,31 @@ export async function seedTestData(prisma: PrismaClient): Promise<void> {
       closed_at: new Date("2025-10-09T12:00:00.900Z"),
       live_until_ledger_sequence: 61483001,
     },
+    // Separate contract with entries written at later ledgers
+    {
+      key_hash:
+        "2200000000000000000000000000000000000000000000000000000000000001",
+      contract_id: "CAU7STCHRBSL6ZAT4Z2YHG32NESRO3L2XS4KC45J4CT5EQAKVKEHEMH5",
+      ledger_sequence: 59409400,
+      durability: "persistent",
+      key_symbol: "LaterLedgerA",
+      key: asStoredXdrBase64Bytes("AAAAAwAAAAk="),
+      val: asStoredXdrBase64Bytes("AAAAAwAAAAk="),
+      closed_at: new Date("2025-10-09T12:10:00Z"),
+      live_until_ledger_sequence: 61483100,
+    },
+    {
+      key_hash:
+        "2200000000000000000000000000000000000000000000000000000000000002",
+      contract_id: "CAU7STCHRBSL6ZAT4Z2YHG32NESRO3L2XS4KC45J4CT5EQAKVKEHEMH5",
+      ledger_sequence: 59409500,
+      durability: "persistent",
+      key_symbol: "LaterLedgerB",
+      key: asStoredXdrBase64Bytes("AAAAAwAAAAo="),
+      val: asStoredXdrBase64Bytes("AAAAAwAAAAo="),
+      closed_at: new Date("2025-10-09T12:20:00Z"),
+      live_until_ledger_sequence: 61483101,
+    },
   ];
 
   // Insert contract data using batch operation
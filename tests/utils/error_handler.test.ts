@@ -0,0 +1,74 @@
+import express from "express";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import pinoHttp from "pino-http";
+import { errorHandler } from "../../src/utils/error_handler";
+import { pinoHttpOptions } from "../../src/utils/logger";
+
+describe("errorHandler", () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json({ limit: "100kb" }));
+    app.use(pinoHttp(pinoHttpOptions));
+    app.post("/echo", (req, res) => {
+      res.status(200).json(req.body);
+    });
+    app.post("/fail", () => {
+      throw new Error("database exploded");
+    });
+    app.use(errorHandler);
+
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const post = (path: string, body: string) =>
+    fetch(`${url}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+    });
+
+  test("🟢valid_body_is_parsed", async () => {
+    const response = await post("/echo", '{"keys":[]}');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ keys: [] });
+  });
+
+  test("🔴malformed_json_returns_400", async () => {
+    const response = await post("/echo", '{"keys":[');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Malformed JSON request body",
+    });
+  });
+
+  test("🔴oversized_body_returns_413", async () => {
+    const response = await post(
+      "/echo",
+      JSON.stringify({ keys: ["a".repeat(101 * 1024)] }),
+    );
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({
+      error: "Request body is too large",
+    });
+  });
+
+  test("🔴unhandled_error_returns_500_without_details", async () => {
+    const response = await post("/fail", "{}");
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: "Internal Server Error" });
+  });
+});
@@ -1,9 +1,12 @@
 import type { Mock } from "vitest";
-import { Horizon, Networks, rpc } from "@stellar/stellar-sdk";
+import { Horizon, Networks, rpc, xdr } from "@stellar/stellar-sdk";
 import { logger } from "../../src/utils/logger";
 import { StellarService } from "../../src/utils/stellar";
+import configSettingsFixture from "../fixtures/config_settings.json";
+import rentSettingsFixture from "../fixtures/rent_settings.json";
 
-vi.mock("@stellar/stellar-sdk", () => ({
+vi.mock("@stellar/stellar-sdk", async importOriginal => ({
+  xdr: (await importOriginal<typeof import("@stellar/stellar-sdk")>()).xdr,
   rpc: {
     Server: vi.fn(),
   },
@@ -142,6 +145,40 @@ describe("getLatestLedger", () => {
     expect(latest).toBe(987654);
   });
 
+  test("🟢ledger_info_includes_protocol_version", async () => {
+    mockRpcServer.mockImplementation(function () {
+      return mockServer({
+        getLatestLedger: vi
+          .fn()
+          .mockResolvedValue({ sequence: 123, protocolVersion: "23" }),
+      });
+    });
+    mockHorizonServer.mockImplementation(function () {
+      return mockServer({
+        root: vi.fn().mockResolvedValue({
+          core_latest_ledger: 654321,
+          current_protocol_version: 22,
+        }),
+      });
+    });
+
+    const rpcService = new StellarService({
+      networkPassphrase: Networks.TESTNET,
+    });
+    const horizonService = new StellarService({
+      networkPassphrase: Networks.PUBLIC,
+    });
+
+    await expect(rpcService.getLatestLedgerInfo()).resolves.toEqual({
+      sequence: 123,
+      protocolVersion: 23,
+    });
+    await expect(horizonService.getLatestLedgerInfo()).resolves.toEqual({
+      sequence: 654321,
+      protocolVersion: 22,
+    });
+  });
+
   test("🟢uses_cache_within_5_seconds", async () => {
     vi.useFakeTimers();
     vi.setSystemTime(0);
@@ -330,3 +367,152 @@ describe("getLatestLedger", () => {
     vi.useRealTimers();
   });
 });
+
+describe("getRentSettings", () => {
+  /** getLedgerEntries response holding the fixture's config setting entries. */
+  const ledgerEntriesResponse = {
+    latestLedger: 123,
+    entries: configSettingsFixture.map(entry => ({
+      val: xdr.LedgerEntryData.configSetting(
+        xdr.ConfigSettingEntry.fromXDR(entry, "base64"),
+      ),
+    })),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test("🟢reads_config_settings_through_rpc", async () => {
+    const getLedgerEntriesMock = vi
+      .fn()
+      .mockResolvedValue(ledgerEntriesResponse);
+    mockRpcServer.mockImplementation(function () {
+      return mockServer({ getLedgerEntries: getLedgerEntriesMock });
+    });
+
+    const service = new StellarService({
+      networkPassphrase: Networks.TESTNET,
+      rpcUrl: "https://rpc.testnet.example",
+    });
+    const settings = await service.getRentSettings();
+
+    expect(settings).toEqual(rentSettingsFixture);
+    const keys = getLedgerEntriesMock.mock.calls[0] as xdr.LedgerKey[];
+    expect(keys.map(key => key.configSetting().configSettingId().name)).toEqual(
+      [
+        "configSettingContractLedgerCostV0",
+        "configSettingContractLedgerCostExtV0",
+        "configSettingStateArchival",
+        "configSettingLiveSorobanStateSizeWindow",
+      ],
+    );
+  });
+
+  test("🟢caches_settings_for_10_minutes", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+
+    const getLedgerEntriesMock = vi
+      .fn()
+      .mockResolvedValue(ledgerEntriesResponse);
+    mockRpcServer.mockImplementation(function () {
+      return mockServer({ getLedgerEntries: getLedgerEntriesMock });
+    });
+
+    const service = new StellarService({
+      networkPassphrase: Networks.PUBLIC,
+      rpcUrl: "https://rpc.pubnet.example",
+    });
+
+    await Promise.all([service.getRentSettings(), service.getRentSettings()]);
+    vi.setSystemTime(600_000);
+    await service.getRentSettings();
+    expect(getLedgerEntriesMock).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(600_001);
+    await service.getRentSettings();
+    expect(getLedgerEntriesMock).toHaveBeenCalledTimes(2);
+
+    vi.useRealTimers();
+  });
+
+  test("🟢footprint_limits_share_cached_config_settings", async () => {
+    const getLedgerEntriesMock = vi
+      .fn()
+      .mockResolvedValue(ledgerEntriesResponse);
+    mockRpcServer.mockImplementation(function () {
+      return mockServer({ getLedgerEntries: getLedgerEntriesMock });
+    });
+
+    const service = new StellarService({
+      networkPassphrase: Networks.TESTNET,
+    });
+
+    await service.getRentSettings();
+    await expect(service.getFootprintLimits()).resolves.toEqual({
+      txMaxFootprintEntries: 400,
+      txMaxDiskReadEntries: 100,
+      txMaxDiskReadBytes: 200000,
+      txMaxWriteLedgerEntries: 50,
+      txMaxWriteBytes: 132096,
+    });
+    expect(getLedgerEntriesMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("🟢snapshot_ttl_settings_share_cached_config_settings", async () => {
+    const getLedgerEntriesMock = vi
+      .fn()
+      .mockResolvedValue(ledgerEntriesResponse);
+    mockRpcServer.mockImplementation(function () {
+      return mockServer({ getLedgerEntries: getLedgerEntriesMock });
+    });
+
+    const service = new StellarService({
+      networkPassphrase: Networks.TESTNET,
+    });
+
+    await service.getRentSettings();
+    await expect(service.getSnapshotTtlSettings()).resolves.toEqual({
+      minPersistentEntryTtl: 2073600,
+      minTempEntryTtl: 17280,
+      maxEntryTtl: 3110400,
+    });
+    expect(getLedgerEntriesMock).toHaveBeenCalledTimes(1);
+  });
+
+  test("🔴rpc_error_propagates_and_is_not_cached", async () => {
+    const getLedgerEntriesMock = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("RPC connection failed"))
+      .mockResolvedValueOnce(ledgerEntriesResponse);
+    mockRpcServer.mockImplementation(function () {
+      return mockServer({ getLedgerEntries: getLedgerEntriesMock });
+    });
+
+    const service = new StellarService({
+      networkPassphrase: Networks.TESTNET,
+    });
+
+    await expect(service.getRentSettings()).rejects.toThrow(
+      "RPC connection failed",
+    );
+    await expect(service.getRentSettings()).resolves.toEqual(
+      rentSettingsFixture,
+    );
+  });
+
+  test("🔴horizon_fallback_has_no_rent_settings", async () => {
+    mockHorizonServer.mockImplementation(function () {
+      return mockServer({ root: vi.fn() });
+    });
+
+    const service = new StellarService({
+      networkPassphrase: Networks.PUBLIC,
+    });
+
+    await expect(service.getRentSettings()).rejects.toThrow(
+      "Network config settings require RPC_URL to be set for pubnet",
+    );
+  });
+});
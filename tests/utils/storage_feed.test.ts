@@ -0,0 +1,319 @@
+import { PrismaClient } from "../../generated/prisma";
+import { ContractData } from "../../src/types/contract_data";
+import {
+  StorageChangeKind,
+  StorageChangeSubscriber,
+} from "../../src/types/stream";
+import { StorageChangeFeed } from "../../src/utils/storage_feed";
+import { seedTestData } from "../test-data-seeder";
+
+vi.mock("../../src/utils/stellar", () => ({
+  getStellarService: vi.fn().mockImplementation(() => ({
+    getLatestLedger: vi.fn().mockResolvedValue(700000),
+  })),
+}));
+
+// Global type declaration
+declare global {
+  var testPrismaClient: PrismaClient;
+}
+
+const CONTRACT_ID = "CBEARZCPO6YEN2Z7432Z2TXMARQWDFBIACGTFPUR34QEDXABEOJP4CPU";
+const LATER_LEDGER_CONTRACT_ID =
+  "CAU7STCHRBSL6ZAT4Z2YHG32NESRO3L2XS4KC45J4CT5EQAKVKEHEMH5";
+// Ledger of a row of another contract, so the seeded ledgers are settled
+const INDEXED_LEDGER = 59410000;
+
+/** Entry of another contract, written at `ledger`. */
+const indexedRow = (keyHash: string, ledger: number) => ({
+  key_hash: keyHash,
+  contract_id: "CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQVU2HHGCYSC",
+  ledger_sequence: ledger,
+  durability: "persistent",
+  key_symbol: "Indexed",
+  key: Buffer.from("AAAAAwAAAAE=", "utf8"),
+  val: Buffer.from("AAAAAwAAAAE=", "utf8"),
+  closed_at: new Date("2025-10-10T12:00:00Z"),
+  live_until_ledger_sequence: 61600000,
+});
+
+/** Subscriber recording every delivered batch. */
+const createSubscriber = (
+  ledger: number,
+  kind: StorageChangeKind = StorageChangeKind.ENTRY,
+  contractId: string = CONTRACT_ID,
+) => {
+  const batches: { rows: ContractData[]; complete: boolean }[] = [];
+  const subscriber: StorageChangeSubscriber = {
+    contractId,
+    kind,
+    cursor: { ledger, keyHash: null },
+    onChanges: vi.fn((rows: ContractData[], complete: boolean) => {
+      batches.push({ rows, complete });
+      return true;
+    }),
+    onClose: vi.fn(),
+  };
+  return { subscriber, batches };
+};
+
+describe("StorageChangeFeed", () => {
+  let feed: StorageChangeFeed;
+
+  beforeAll(async () => {
+    await seedTestData(global.testPrismaClient);
+    await global.testPrismaClient.contract_data.createMany({
+      data: [
+        indexedRow(
+          "9900000000000000000000000000000000000000000000000000000000000001",
+          INDEXED_LEDGER,
+        ),
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await global.testPrismaClient.contract_data.deleteMany();
+  });
+
+  beforeEach(() => {
+    feed = new StorageChangeFeed({ pollIntervalMs: 5, batchSize: 4 });
+  });
+
+  afterEach(() => {
+    feed.close();
+  });
+
+  test("🟢delivers_rows_after_the_cursor_in_batches", async () => {
+    const { subscriber, batches } = createSubscriber(59409300);
+    feed.subscribe(subscriber);
+
+    await vi.waitFor(() =>
+      expect(batches.flatMap(b => b.rows)).toHaveLength(11),
+    );
+
+    // 11 rows at ledger 59409310, in key hash order
+    expect(batches.map(b => [b.rows.length, b.complete])).toEqual([
+      [4, false],
+      [4, false],
+      [3, true],
+    ]);
+    const rows = batches.flatMap(b => b.rows);
+    expect(rows.map(row => row.ledger_sequence)).toEqual(
+      Array<number>(11).fill(59409310),
+    );
+    expect(rows.map(row => row.key_hash)).toEqual(
+      rows.map(row => row.key_hash).sort(),
+    );
+    expect(rows[0]).toHaveProperty("expired", false);
+    // Every change up to the settled ledger was read
+    expect(subscriber.cursor).toEqual({
+      ledger: INDEXED_LEDGER - 1,
+      keyHash: null,
+    });
+  });
+
+  test("🟢resumes_after_the_cursor_ledger", async () => {
+    const { subscriber, batches } = createSubscriber(
+      59409310,
+      StorageChangeKind.ENTRY,
+      LATER_LEDGER_CONTRACT_ID,
+    );
+    feed.subscribe(subscriber);
+
+    await vi.waitFor(() => expect(batches).toHaveLength(1));
+    expect(batches[0].rows.map(row => row.key_hash)).toEqual([
+      "2200000000000000000000000000000000000000000000000000000000000001",
+      "2200000000000000000000000000000000000000000000000000000000000002",
+    ]);
+    expect(batches[0].complete).toBe(true);
+  });
+
+  test("🟢subscribers_at_the_same_position_get_the_same_rows", async () => {
+    const first = createSubscriber(
+      59409310,
+      StorageChangeKind.ENTRY,
+      LATER_LEDGER_CONTRACT_ID,
+    );
+    const second = createSubscriber(
+      59409310,
+      StorageChangeKind.ENTRY,
+      LATER_LEDGER_CONTRACT_ID,
+    );
+    feed.subscribe(first.subscriber);
+    feed.subscribe(second.subscriber);
+
+    await vi.waitFor(() => expect(second.batches).toHaveLength(1));
+    expect(first.batches).toEqual(second.batches);
+  });
+
+  test("🟢ttl_subscribers_get_ttl_extensions", async () => {
+    await global.testPrismaClient.ttl.createMany({
+      data: [
+        {
+          key_hash:
+            "cc33333333333333333333333333333333333333333333333333333333333333",
+          ledger_sequence: 59409600,
+          live_until_ledger_sequence: 61600000,
+          closed_at: new Date("2025-10-10T12:00:00Z"),
+        },
+      ],
+    });
+    try {
+      const ttl = createSubscriber(59409500, StorageChangeKind.TTL);
+      const entry = createSubscriber(59409500);
+      feed.subscribe(ttl.subscriber);
+      feed.subscribe(entry.subscriber);
+
+      await vi.waitFor(() => expect(ttl.batches).toHaveLength(1));
+      expect(ttl.batches[0].rows).toEqual([
+        expect.objectContaining({
+          key_hash:
+            "cc33333333333333333333333333333333333333333333333333333333333333",
+          ledger_sequence: 59409310,
+          last_modified_ledger: 59409600,
+          live_until_ledger_sequence: 61600000,
+        }),
+      ]);
+      expect(ttl.subscriber.cursor).toEqual({
+        ledger: INDEXED_LEDGER - 1,
+        keyHash: null,
+      });
+      // The entry itself wasn't rewritten
+      expect(entry.batches).toEqual([]);
+    } finally {
+      await global.testPrismaClient.ttl.deleteMany();
+    }
+  });
+
+  test("🟡declined_rows_are_offered_again", async () => {
+    const { subscriber, batches } = createSubscriber(
+      59409400,
+      StorageChangeKind.ENTRY,
+      LATER_LEDGER_CONTRACT_ID,
+    );
+    (subscriber.onChanges as ReturnType<typeof vi.fn>).mockImplementationOnce(
+      () => false,
+    );
+    feed.subscribe(subscriber);
+
+    await vi.waitFor(() => expect(batches).toHaveLength(1));
+    expect(subscriber.onChanges).toHaveBeenCalledTimes(2);
+    expect(batches[0].rows.map(row => row.ledger_sequence)).toEqual([59409500]);
+    expect(subscriber.cursor).toEqual({
+      ledger: INDEXED_LEDGER - 1,
+      keyHash: null,
+    });
+  });
+
+  test("🟢full_batches_resume_within_the_ledger", async () => {
+    const { subscriber, batches } = createSubscriber(59409300);
+    (subscriber.onChanges as ReturnType<typeof vi.fn>).mockImplementationOnce(
+      (rows: ContractData[], complete: boolean) => {
+        batches.push({ rows, complete });
+        // Stops the feed after the first batch
+        feed.close();
+        return true;
+      },
+    );
+    feed.subscribe(subscriber);
+
+    await vi.waitFor(() => expect(batches).toHaveLength(1));
+    expect(batches[0].complete).toBe(false);
+    expect(subscriber.cursor).toEqual({
+      ledger: 59409310,
+      keyHash: batches[0].rows[3].key_hash,
+    });
+  });
+
+  test("🟢ttl_cursor_moves_to_the_settled_ledger_without_changes", async () => {
+    const { subscriber, batches } = createSubscriber(
+      59409300,
+      StorageChangeKind.TTL,
+    );
+    feed.subscribe(subscriber);
+
+    await vi.waitFor(() =>
+      expect(subscriber.cursor).toEqual({
+        ledger: INDEXED_LEDGER - 1,
+        keyHash: null,
+      }),
+    );
+    expect(batches).toEqual([]);
+    expect(subscriber.onChanges).not.toHaveBeenCalled();
+  });
+
+  test("🟢rows_of_the_indexed_ledger_wait_until_it_is_settled", async () => {
+    // Written at the highest indexed ledger, whose other rows may not be indexed yet
+    const row = (keyHash: string) => ({
+      key_hash: keyHash,
+      contract_id: LATER_LEDGER_CONTRACT_ID,
+      ledger_sequence: INDEXED_LEDGER,
+      durability: "persistent",
+      key_symbol: "LaterLedgerC",
+      key: Buffer.from("AAAAAwAAAAs=", "utf8"),
+      val: Buffer.from("AAAAAwAAAAs=", "utf8"),
+      closed_at: new Date("2025-10-10T12:00:00Z"),
+      live_until_ledger_sequence: 61600000,
+    });
+    const firstKeyHash =
+      "2200000000000000000000000000000000000000000000000000000000000005";
+    const lateKeyHash =
+      "2200000000000000000000000000000000000000000000000000000000000004";
+    const nextLedgerKeyHash =
+      "9900000000000000000000000000000000000000000000000000000000000002";
+    await global.testPrismaClient.contract_data.createMany({
+      data: [row(firstKeyHash)],
+    });
+    try {
+      const { subscriber, batches } = createSubscriber(
+        59409500,
+        StorageChangeKind.ENTRY,
+        LATER_LEDGER_CONTRACT_ID,
+      );
+      feed.subscribe(subscriber);
+      // Several polls go by without delivering the unsettled ledger
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(batches).toEqual([]);
+      expect(subscriber.cursor).toEqual({
+        ledger: INDEXED_LEDGER - 1,
+        keyHash: null,
+      });
+
+      // A row of the same ledger with a lower key hash is indexed late, then
+      // the indexer moves on to the next ledger
+      await global.testPrismaClient.contract_data.createMany({
+        data: [
+          row(lateKeyHash),
+          indexedRow(nextLedgerKeyHash, INDEXED_LEDGER + 1),
+        ],
+      });
+
+      await vi.waitFor(() => expect(batches).toHaveLength(1));
+      expect(batches[0].rows.map(r => r.key_hash)).toEqual([
+        lateKeyHash,
+        firstKeyHash,
+      ]);
+      expect(batches[0].complete).toBe(true);
+    } finally {
+      await global.testPrismaClient.contract_data.deleteMany({
+        where: {
+          key_hash: { in: [firstKeyHash, lateKeyHash, nextLedgerKeyHash] },
+        },
+      });
+    }
+  });
+
+  test("🟡close_closes_subscribers_and_refuses_new_ones", () => {
+    const { subscriber } = createSubscriber(59409500);
+    feed.subscribe(subscriber);
+
+    feed.close();
+
+    expect(subscriber.onClose).toHaveBeenCalledTimes(1);
+    expect(feed.subscriberCount).toBe(0);
+    expect(
+      feed.subscribe(createSubscriber(59409500).subscriber),
+    ).toBeUndefined();
+  });
+});
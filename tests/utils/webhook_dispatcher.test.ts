@@ -0,0 +1,432 @@
+import { createHmac } from "crypto";
+import { createServer, IncomingHttpHeaders, Server } from "http";
+import { AddressInfo } from "net";
+import { Prisma, PrismaClient } from "../../generated/prisma";
+import { WebhookDispatcher } from "../../src/utils/webhook_dispatcher";
+import { seedTestData } from "../test-data-seeder";
+
+const { assertPublicWebhookUrlMock } = vi.hoisted(() => ({
+  assertPublicWebhookUrlMock: vi.fn(),
+}));
+
+// The test receiver listens on loopback
+vi.mock("../../src/helpers/webhook", async importOriginal => ({
+  ...(await importOriginal<typeof import("../../src/helpers/webhook")>()),
+  assertPublicWebhookUrl: assertPublicWebhookUrlMock,
+}));
+
+vi.mock("../../src/utils/stellar", () => ({
+  getStellarService: vi.fn().mockImplementation(() => ({
+    getLatestLedger: vi.fn().mockResolvedValue(61482905),
+  })),
+}));
+
+// Global type declaration
+declare global {
+  var testPrismaClient: PrismaClient;
+}
+
+const CONTRACT_ID = "CAU7STCHRBSL6ZAT4Z2YHG32NESRO3L2XS4KC45J4CT5EQAKVKEHEMH5";
+const WEBHOOK_ID = "3f1c2b9e-7c4d-4a53-9a0e-2d6b1f8e5a10";
+const SECRET = "whsec-0123456789abcdef";
+// Ledger of a row of another contract, so the seeded ledgers are settled
+const INDEXED_LEDGER = 59410000;
+
+/** Entry of `contractId`, written at `ledger`. */
+const indexedRow = (
+  keyHash: string,
+  ledger: number,
+  contractId = "CDLZFC3SYJYDZT7K67VZ75HPJVIEUVNIXF47ZG2FB2RMQQVU2HHGCYSC",
+  keySymbol = "Indexed",
+) => ({
+  key_hash: keyHash,
+  contract_id: contractId,
+  ledger_sequence: ledger,
+  durability: "persistent",
+  key_symbol: keySymbol,
+  key: Buffer.from("AAAAAwAAAAs=", "utf8"),
+  val: Buffer.from("AAAAAwAAAAs=", "utf8"),
+  closed_at: new Date("2025-10-10T12:00:00Z"),
+  live_until_ledger_sequence: 61600000,
+});
+
+type ReceivedRequest = { headers: IncomingHttpHeaders; body: string };
+
+describe("WebhookDispatcher", () => {
+  let receiver: Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let dispatcher: WebhookDispatcher;
+
+  /** Registers the test webhook, after the seeded ledger 59409310. */
+  const registerWebhook = (keySymbols: string[] = []) =>
+    global.testPrismaClient.webhook.createMany({
+      data: [
+        {
+          id: WEBHOOK_ID,
+          contract_id: CONTRACT_ID,
+          key_symbols: keySymbols,
+          url: receiverUrl,
+          secret: SECRET,
+          cursor_ledger: 59409310,
+        },
+      ],
+    });
+
+  const webhookCursor = async () => {
+    const [row] = await global.testPrismaClient.$queryRaw<
+      { cursor_ledger: number; cursor_key_hash: string | null }[]
+    >(Prisma.sql`SELECT cursor_ledger, cursor_key_hash FROM webhook`);
+    return row;
+  };
+
+  const deliveries = () =>
+    global.testPrismaClient.$queryRaw<
+      {
+        ledger_sequence: number;
+        entry_count: number;
+        payload: string;
+        status: string;
+        attempts: number;
+        response_status: number | null;
+        error: string | null;
+      }[]
+    >(
+      Prisma.sql`SELECT * FROM webhook_delivery ORDER BY ledger_sequence, created_at`,
+    );
+
+  beforeAll(async () => {
+    await seedTestData(global.testPrismaClient);
+    await global.testPrismaClient.contract_data.createMany({
+      data: [
+        indexedRow(
+          "9900000000000000000000000000000000000000000000000000000000000001",
+          INDEXED_LEDGER,
+        ),
+      ],
+    });
+    receiver = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve =>
+      receiver.listen(0, "127.0.0.1", resolve),
+    );
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => receiver.close(resolve));
+    await global.testPrismaClient.contract_data.deleteMany();
+  });
+
+  beforeEach(async () => {
+    await global.testPrismaClient.webhook_delivery.deleteMany();
+    await global.testPrismaClient.webhook.deleteMany();
+    assertPublicWebhookUrlMock
+      .mockReset()
+      .mockResolvedValue([{ address: "127.0.0.1", family: 4 }]);
+    received = [];
+    responseStatus = 200;
+    dispatcher = new WebhookDispatcher({
+      pollIntervalMs: 5,
+      batchSize: 10,
+      deliveryTimeoutMs: 2000,
+      maxAttempts: 2,
+      retryBaseMs: 0,
+    });
+  });
+
+  afterEach(async () => {
+    await dispatcher.close();
+  });
+
+  test("🟢new_rows_are_delivered_signed", async () => {
+    await registerWebhook();
+
+    expect(await dispatcher.dispatchChanges()).toBe(false);
+    // Every change up to the settled ledger was read
+    expect(await webhookCursor()).toEqual({
+      cursor_ledger: INDEXED_LEDGER - 1,
+      cursor_key_hash: null,
+    });
+    await dispatcher.deliverDue();
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const payload = JSON.parse(body);
+    expect(payload).toMatchObject({
+      type: "storage_change",
+      webhook_id: WEBHOOK_ID,
+      contract_id: CONTRACT_ID,
+      ledger: 59409500,
+    });
+    expect(
+      payload.entries.map((e: { key_symbol: string }) => e.key_symbol),
+    ).toEqual(["LaterLedgerA", "LaterLedgerB"]);
+    expect(headers["x-webhook-id"]).toBe(WEBHOOK_ID);
+    expect(headers["x-webhook-delivery"]).toBe(payload.id);
+    const signature = createHmac("sha256", SECRET)
+      .update(`${headers["x-webhook-timestamp"]}.${body}`)
+      .digest("hex");
+    expect(headers["x-webhook-signature"]).toBe(`sha256=${signature}`);
+
+    expect(await deliveries()).toMatchObject([
+      {
+        ledger_sequence: 59409500,
+        entry_count: 2,
+        payload: body,
+        status: "succeeded",
+        attempts: 1,
+        response_status: 200,
+        error: null,
+      },
+    ]);
+
+    // Nothing new, nothing due
+    await dispatcher.dispatchChanges();
+    await dispatcher.deliverDue();
+    expect(received).toHaveLength(1);
+  });
+
+  test("🟢key_symbols_filter_deliveries", async () => {
+    await registerWebhook(["LaterLedgerB"]);
+
+    await dispatcher.dispatchChanges();
+
+    const [delivery] = await deliveries();
+    expect(delivery.entry_count).toBe(1);
+    expect(
+      JSON.parse(delivery.payload).entries.map(
+        (e: { key_symbol: string }) => e.key_symbol,
+      ),
+    ).toEqual(["LaterLedgerB"]);
+  });
+
+  test("🟡non_matching_rows_only_move_the_cursor", async () => {
+    await registerWebhook(["Balance"]);
+
+    await dispatcher.dispatchChanges();
+
+    expect(await deliveries()).toEqual([]);
+    expect((await webhookCursor()).cursor_ledger).toBe(INDEXED_LEDGER - 1);
+  });
+
+  test("🟡full_batch_resumes_within_the_ledger", async () => {
+    dispatcher = new WebhookDispatcher({
+      pollIntervalMs: 5,
+      batchSize: 1,
+      deliveryTimeoutMs: 2000,
+      maxAttempts: 2,
+      retryBaseMs: 0,
+    });
+    await registerWebhook();
+
+    expect(await dispatcher.dispatchChanges()).toBe(true);
+    expect(await webhookCursor()).toEqual({
+      cursor_ledger: 59409400,
+      cursor_key_hash:
+        "2200000000000000000000000000000000000000000000000000000000000001",
+    });
+    await dispatcher.dispatchChanges();
+
+    expect(
+      (await deliveries()).map(d => [d.ledger_sequence, d.entry_count]),
+    ).toEqual([
+      [59409400, 1],
+      [59409500, 1],
+    ]);
+  });
+
+  test("🟢cursor_moves_to_the_settled_ledger_without_changes", async () => {
+    await global.testPrismaClient.webhook.createMany({
+      data: [
+        {
+          id: WEBHOOK_ID,
+          contract_id: CONTRACT_ID,
+          key_symbols: [],
+          url: receiverUrl,
+          secret: SECRET,
+          cursor_ledger: 59409500,
+        },
+      ],
+    });
+
+    expect(await dispatcher.dispatchChanges()).toBe(false);
+
+    expect(await deliveries()).toEqual([]);
+    expect(await webhookCursor()).toEqual({
+      cursor_ledger: INDEXED_LEDGER - 1,
+      cursor_key_hash: null,
+    });
+  });
+
+  test("🟢rows_of_the_indexed_ledger_wait_until_it_is_settled", async () => {
+    const firstKeyHash =
+      "2200000000000000000000000000000000000000000000000000000000000005";
+    const lateKeyHash =
+      "2200000000000000000000000000000000000000000000000000000000000004";
+    const nextLedgerKeyHash =
+      "9900000000000000000000000000000000000000000000000000000000000002";
+    // Written at the highest indexed ledger, whose other rows may not be indexed yet
+    await global.testPrismaClient.contract_data.createMany({
+      data: [
+        indexedRow(firstKeyHash, INDEXED_LEDGER, CONTRACT_ID, "LaterLedgerE"),
+      ],
+    });
+    try {
+      await registerWebhook();
+      await dispatcher.dispatchChanges();
+      expect(await webhookCursor()).toEqual({
+        cursor_ledger: INDEXED_LEDGER - 1,
+        cursor_key_hash: null,
+      });
+
+      // A row of the same ledger with a lower key hash is indexed late, then
+      // the indexer moves on to the next ledger
+      await global.testPrismaClient.contract_data.createMany({
+        data: [
+          indexedRow(lateKeyHash, INDEXED_LEDGER, CONTRACT_ID, "LaterLedgerD"),
+          indexedRow(nextLedgerKeyHash, INDEXED_LEDGER + 1),
+        ],
+      });
+      await dispatcher.dispatchChanges();
+
+      expect(
+        (await deliveries()).map(
+          d =>
+            JSON.parse(d.payload).entries.map(
+              (e: { key_symbol: string }) => e.key_symbol,
+            ) as string[],
+        ),
+      ).toEqual([
+        ["LaterLedgerA", "LaterLedgerB"],
+        ["LaterLedgerD", "LaterLedgerE"],
+      ]);
+      expect(await webhookCursor()).toEqual({
+        cursor_ledger: INDEXED_LEDGER,
+        cursor_key_hash: null,
+      });
+    } finally {
+      await global.testPrismaClient.contract_data.deleteMany({
+        where: {
+          key_hash: { in: [firstKeyHash, lateKeyHash, nextLedgerKeyHash] },
+        },
+      });
+    }
+  });
+
+  test("🔴urls_resolving_to_non_public_addresses_are_not_posted", async () => {
+    assertPublicWebhookUrlMock.mockRejectedValue(
+      new Error(
+        "Webhook host 127.0.0.1 resolves to the non-public address 127.0.0.1",
+      ),
+    );
+    await registerWebhook();
+    await dispatcher.dispatchChanges();
+
+    await dispatcher.deliverDue();
+
+    expect(assertPublicWebhookUrlMock).toHaveBeenCalledWith(receiverUrl);
+    expect(received).toEqual([]);
+    expect(await deliveries()).toMatchObject([
+      {
+        status: "pending",
+        attempts: 1,
+        response_status: null,
+        error:
+          "Webhook host 127.0.0.1 resolves to the non-public address 127.0.0.1",
+      },
+    ]);
+  });
+
+  test("🔴deliveries_connect_to_the_checked_address", async () => {
+    // The host would resolve to another address (or not at all) when posting
+    const url = `http://rebound.invalid:${(receiver.address() as AddressInfo).port}/hook`;
+    await global.testPrismaClient.webhook.createMany({
+      data: [
+        {
+          id: WEBHOOK_ID,
+          contract_id: CONTRACT_ID,
+          key_symbols: [],
+          url,
+          secret: SECRET,
+          cursor_ledger: 59409310,
+        },
+      ],
+    });
+    await dispatcher.dispatchChanges();
+
+    await dispatcher.deliverDue();
+
+    expect(assertPublicWebhookUrlMock).toHaveBeenCalledWith(url);
+    expect(received).toHaveLength(1);
+    expect(received[0].headers.host).toBe(new URL(url).host);
+    expect(await deliveries()).toMatchObject([
+      { status: "succeeded", attempts: 1, response_status: 200, error: null },
+    ]);
+  });
+
+  test("🔴failed_attempts_are_retried_then_failed", async () => {
+    responseStatus = 503;
+    await registerWebhook();
+    await dispatcher.dispatchChanges();
+
+    await dispatcher.deliverDue();
+    expect(await deliveries()).toMatchObject([
+      {
+        status: "pending",
+        attempts: 1,
+        response_status: 503,
+        error: "Receiver answered 503",
+      },
+    ]);
+
+    await dispatcher.deliverDue();
+    expect(received).toHaveLength(2);
+    // The retry sends the same body
+    expect(received[1].body).toBe(received[0].body);
+    expect(await deliveries()).toMatchObject([
+      { status: "failed", attempts: 2 },
+    ]);
+
+    await dispatcher.deliverDue();
+    expect(received).toHaveLength(2);
+  });
+
+  test("🔴unreachable_receiver_is_recorded", async () => {
+    await registerWebhook();
+    await global.testPrismaClient.$executeRaw(
+      Prisma.sql`UPDATE webhook SET url = 'http://127.0.0.1:1/hook'`,
+    );
+    await dispatcher.dispatchChanges();
+
+    await dispatcher.deliverDue();
+
+    const [delivery] = await deliveries();
+    expect(delivery).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      response_status: null,
+    });
+    expect(delivery.error).toBeTruthy();
+  });
+
+  test("🟢polling_loop_delivers_changes", async () => {
+    await registerWebhook();
+
+    dispatcher.start();
+
+    await vi.waitFor(async () =>
+      expect(await deliveries()).toMatchObject([{ status: "succeeded" }]),
+    );
+    await dispatcher.close();
+    expect(received).toHaveLength(1);
+  });
+});